@@ -23,13 +23,112 @@ export function fixPrototype(obj: any, parent: Function): void {
   }
 }
 
+/**
+ * The codes of the errors that this library raises. They do not change from one
+ * version to the next, so programs can check them rather than messages.
+ *
+ * - ``"LOCATION_OUTSIDE_SPACE"``: [[DOMSpaceScopeError]]
+ *
+ * - ``"CANNOT_ESCAPE_IRRELEVANT_NODE"``: [[CannotEscapeIrrelevantNode]]
+ *
+ * - ``"REVERSED_RANGE"``: [[ReversedRangeError]]
+ *
+ * - ``"DISCONNECTED_NODES"``: [[ComparingDisconnectedNodes]]
+ *
+ * - ``"UNRESOLVABLE_PATH"``: [[PathResolutionError]]
+ *
+ * - ``"NO_MUTATION_OBSERVER"``: [[MutationObserverUnavailable]]
+ */
+export type DOMMovementErrorCode = "LOCATION_OUTSIDE_SPACE" |
+  "CANNOT_ESCAPE_IRRELEVANT_NODE" | "REVERSED_RANGE" | "DISCONNECTED_NODES" |
+  "UNRESOLVABLE_PATH" | "NO_MUTATION_OBSERVER";
+
+/**
+ * The bounds of the space in which an error happened.
+ */
+export interface SpaceBounds {
+  /** The minimum location of the space. */
+  readonly min: DOMLoc<unknown>;
+
+  /** The maximum location of the space. */
+  readonly max: DOMLoc<unknown>;
+}
+
+/**
+ * Make the message of a [[DOMMovementError]].
+ *
+ * @param reason What went wrong.
+ *
+ * @param locations The locations that caused the error.
+ *
+ * @param bounds The bounds of the space in which the error happened.
+ *
+ * @returns The message.
+ */
+function makeErrorMessage(reason: string,
+                          locations: readonly DOMLoc<unknown>[],
+                          bounds: SpaceBounds | undefined): string {
+  let message = reason;
+  if (locations.length !== 0) {
+    message += `: ${locations.map(loc => loc.describe()).join(" and ")}`;
+  }
+  if (bounds !== undefined) {
+    const { min, max } = bounds;
+    message += ` (space from ${min.describe()} to ${max.describe()})`;
+  }
+
+  return message;
+}
+
+/**
+ * Get the bounds of a space, to attach them to an error. We copy them so that
+ * the error does not keep the space itself.
+ *
+ * @param space The space.
+ *
+ * @returns The bounds.
+ */
+function boundsOf(space: SpaceBounds): SpaceBounds {
+  return { min: space.min, max: space.max };
+}
+
+/**
+ * The base class of the errors that this library raises, so that they can all
+ * be caught at once. The message of an error ends with descriptions of its
+ * locations and of the bounds of its space. (See [[DOMLoc.describe]].)
+ */
+export class DOMMovementError extends Error {
+  /**
+   * @param code The code of the error.
+   *
+   * @param reason What went wrong. The message of the error starts with it.
+   *
+   * @param locations The locations that caused the error.
+   *
+   * @param bounds The bounds of the space in which the error happened, if the
+   * error happened in a space.
+   */
+  constructor(readonly code: DOMMovementErrorCode, reason: string,
+              readonly locations: readonly DOMLoc<unknown>[] = [],
+              readonly bounds?: SpaceBounds) {
+    super(makeErrorMessage(reason, locations, bounds));
+    fixPrototype(this, DOMMovementError);
+  }
+}
+
 /**
  * This error is raised when a location is passed to a [[DOMSpace]] instance and
  * the location is not within the space.
  */
-export class DOMSpaceScopeError extends Error {
-  constructor() {
-    super("location is not within the space");
+export class DOMSpaceScopeError extends DOMMovementError {
+  /**
+   * @param location The location that is not within the space.
+   *
+   * @param bounds The bounds of the space.
+   */
+  constructor(location?: DOMLoc<unknown>, bounds?: SpaceBounds) {
+    super("LOCATION_OUTSIDE_SPACE", "location is not within the space",
+          location === undefined ? [] : [location], bounds);
     fixPrototype(this, DOMSpaceScopeError);
   }
 }
@@ -38,9 +137,16 @@ export class DOMSpaceScopeError extends Error {
  * This error is raised when a location into an irrelevant node cannot be
  * escaped.
  */
-export class CannotEscapeIrrelevantNode extends Error {
-  constructor() {
-    super("location is irrelevant and cannot be escaped");
+export class CannotEscapeIrrelevantNode extends DOMMovementError {
+  /**
+   * @param location The location that cannot be escaped.
+   *
+   * @param bounds The bounds of the space in which it cannot be escaped.
+   */
+  constructor(location?: DOMLoc<unknown>, bounds?: SpaceBounds) {
+    super("CANNOT_ESCAPE_IRRELEVANT_NODE",
+          "location is irrelevant and cannot be escaped",
+          location === undefined ? [] : [location], bounds);
     fixPrototype(this, CannotEscapeIrrelevantNode);
   }
 }
@@ -49,527 +155,6245 @@ export class CannotEscapeIrrelevantNode extends Error {
  * This error is raised when trying to specify a range with a minimum end point
  * which is past the maximum end point.
  */
-export class ReversedRangeError extends Error {
-  constructor() {
-    super("tried to use a reversed range");
+export class ReversedRangeError extends DOMMovementError {
+  /**
+   * @param start The location meant to be the start of the range.
+   *
+   * @param end The location meant to be the end of the range, which is before
+   * ``start``.
+   */
+  constructor(start?: DOMLoc<unknown>, end?: DOMLoc<unknown>) {
+    super("REVERSED_RANGE", "tried to use a reversed range",
+          start === undefined || end === undefined ? [] : [start, end]);
     fixPrototype(this, ReversedRangeError);
   }
 }
 
 /**
- * This error is raised when trying to specify a range with a minimum end point
- * which is past the maximum end point.
+ * This error is raised when comparing locations whose nodes do not belong to
+ * the same tree.
  */
-export class ComparingDisconnectedNodes extends Error {
-  constructor() {
-    super("cannot compare disconnected nodes");
+export class ComparingDisconnectedNodes extends DOMMovementError {
+  /**
+   * @param first The first location compared.
+   *
+   * @param second The second location compared.
+   */
+  constructor(first?: DOMLoc<unknown>, second?: DOMLoc<unknown>) {
+    super("DISCONNECTED_NODES", "cannot compare disconnected nodes",
+          first === undefined || second === undefined ? [] : [first, second]);
     fixPrototype(this, ComparingDisconnectedNodes);
   }
 }
 
 /**
- * Compare a ``[node, offset]`` location with another node which is known to be
- * a child of ``node``.
+ * This error is raised when a path cannot be resolved to a location. (See
+ * [[DOMSpace.locationFromPath]].)
+ */
+export class PathResolutionError extends DOMMovementError {
+  /**
+   * @param path The path that cannot be resolved.
+   *
+   * @param reason Why the path cannot be resolved.
+   *
+   * @param bounds The bounds of the space in which the path was resolved.
+   */
+  constructor(readonly path: string, readonly reason: string,
+              bounds?: SpaceBounds) {
+    super("UNRESOLVABLE_PATH", `cannot resolve path ${path}: ${reason}`, [],
+          bounds);
+    fixPrototype(this, PathResolutionError);
+  }
+}
+
+/**
+ * This error is raised when a feature that observes the DOM tree is used with a
+ * DOM implementation that provides no ``MutationObserver``.
+ */
+export class MutationObserverUnavailable extends DOMMovementError {
+  /**
+   * @param reason What requires the observer.
+   *
+   * @param bounds The bounds of the space that requires the observer, if a
+   * space requires it.
+   */
+  constructor(reason: string, bounds?: SpaceBounds) {
+    super("NO_MUTATION_OBSERVER", reason, [], bounds);
+    fixPrototype(this, MutationObserverUnavailable);
+  }
+}
+
+// The values of ``Node.nodeType`` and of the bits returned by
+// ``Node.compareDocumentPosition``. We do not read them from the global
+// ``Node``, so that the library works with DOM implementations that do not
+// define it, like those used outside browsers.
+const ELEMENT_NODE = 1;
+const ATTRIBUTE_NODE = 2;
+const TEXT_NODE = 3;
+const CDATA_SECTION_NODE = 4;
+const PROCESSING_INSTRUCTION_NODE = 7;
+const COMMENT_NODE = 8;
+const DOCUMENT_NODE = 9;
+const DOCUMENT_TYPE_NODE = 10;
+const DOCUMENT_FRAGMENT_NODE = 11;
+
+const DOCUMENT_POSITION_DISCONNECTED = 1;
+const DOCUMENT_POSITION_PRECEDING = 2;
+const DOCUMENT_POSITION_FOLLOWING = 4;
+const DOCUMENT_POSITION_CONTAINS = 8;
+const DOCUMENT_POSITION_CONTAINED_BY = 16;
+
+/**
+ * Gives access to the structure of a tree, so that [[DOMLoc]], [[DOMSpace]]
+ * and [[DOMCursor]] can move through trees that are not DOM trees, like the
+ * plain-object trees produced by hast or parse5. Every tree is seen as a DOM
+ * tree: its nodes have the types of DOM nodes, and attributes are nodes that
+ * belong to an element without being among its children. [[DOM_ADAPTER]] is
+ * the adapter of DOM trees, and [[makeHastAdapter]] makes adapters for hast
+ * trees.
  *
- * @param node The node of the location.
+ * The features that rely on the DOM itself are only available with
+ * [[DOM_ADAPTER]]: conversions between [[DOMRange]] and DOM ranges,
+ * [[LocationTracker]], the ``"observe"`` relevance cache and the composed tree.
+ * With other adapters, a space cannot detect changes to the tree, so its
+ * ordinal index must be invalidated by hand. (See
+ * [[DOMSpace.invalidateIndex]].)
  *
- * @param offset The offset of the location.
+ * @typeParam N The type of the nodes of the tree.
+ */
+export interface TreeAdapter<N> {
+  /**
+   * @param node The node whose type we want.
+   *
+   * @returns The type of the node, as a value of ``Node.nodeType``: 1 for
+   * elements, 2 for attributes, 3 for text nodes, 8 for comments, 9 for
+   * documents, etc. (See [[DOMSpaceOptions.relevantNodeTypes]].)
+   */
+  nodeTypeOf(node: N): number;
+
+  /**
+   * @param node The node whose name we want.
+   *
+   * @returns The qualified name of an element or attribute. Paths select
+   * elements by this name, and [[DOMSpaceOptions.visibleAttributes]] lists
+   * attributes by this name. The result does not matter for other nodes.
+   */
+  nameOf(node: N): string;
+
+  /**
+   * @param node The node whose parent we want.
+   *
+   * @returns The parent, or ``null`` if the node has none. Attributes have no
+   * parent.
+   */
+  parentOf(node: N): N | null;
+
+  /**
+   * @param node The node whose children we want.
+   *
+   * @returns The children, in document order. This is empty for the nodes that
+   * cannot have children.
+   */
+  childNodesOf(node: N): ArrayLike<N>;
+
+  /**
+   * @param node The node whose text we want.
+   *
+   * @returns The character data of a text node, CDATA section, comment or
+   * processing instruction, or the value of an attribute. The offsets of
+   * locations in these nodes count the UTF-16 code units of this text. For
+   * other nodes, the text of their descendant text nodes and CDATA sections,
+   * like ``Node.textContent``.
+   */
+  textOf(node: N): string;
+
+  /**
+   * @param node The node whose attributes we want.
+   *
+   * @returns The attributes of an element, in the order in which the element
+   * lists them. This is empty for other nodes, and for trees that do not model
+   * attributes as nodes.
+   */
+  attributesOf(node: N): ArrayLike<N>;
+
+  /**
+   * @param node The node whose owner we want.
+   *
+   * @returns The element to which an attribute belongs, or ``null`` if the node
+   * is not an attribute, or belongs to no element.
+   */
+  ownerOf(node: N): N | null;
+
+  /**
+   * Compare the positions of two nodes, like ``Node.compareDocumentPosition``.
+   * This is optional: when it is not provided, the positions of nodes are
+   * determined from their parents and children.
+   *
+   * @param node The node whose position is the reference.
+   *
+   * @param other The node to compare with ``node``. Neither node is an
+   * attribute.
+   *
+   * @returns The same bit mask as ``Node.compareDocumentPosition``.
+   */
+  compareDocumentPosition?(node: N, other: N): number;
+
+  /**
+   * This is optional: when it is not provided, siblings are found among the
+   * children of the parent. Provide it if it is faster.
+   *
+   * @param node The node whose sibling we want.
+   *
+   * @returns The node that follows ``node`` among the children of its parent,
+   * or ``null`` if there is none.
+   */
+  nextSiblingOf?(node: N): N | null;
+
+  /**
+   * This is the mirror image of [[nextSiblingOf]].
+   *
+   * @param node The node whose sibling we want.
+   *
+   * @returns The node that precedes ``node`` among the children of its parent,
+   * or ``null`` if there is none.
+   */
+  previousSiblingOf?(node: N): N | null;
+}
+
+/**
+ * The adapter of DOM trees. It is the default adapter of locations and spaces.
+ */
+export const DOM_ADAPTER: TreeAdapter<Node> = {
+  nodeTypeOf: node => node.nodeType,
+  nameOf: node => node.nodeName,
+  parentOf: node => node.parentNode,
+  childNodesOf: node => node.childNodes,
+  // The text content of a document is null.
+  textOf: node => node.textContent ?? "",
+  attributesOf: node => node.nodeType === ELEMENT_NODE ?
+    (node as Element).attributes : [],
+  ownerOf: node => node.nodeType === ATTRIBUTE_NODE ?
+    (node as Attr).ownerElement : null,
+  compareDocumentPosition: (node, other) => node.compareDocumentPosition(other),
+  nextSiblingOf: node => node.nextSibling,
+  previousSiblingOf: node => node.previousSibling,
+};
+
+/**
+ * A node of a hast tree, or of another unist tree. Only the properties that
+ * [[makeHastAdapter]] reads are listed.
+ */
+export interface HastNode {
+  /** The type of node, like ``"element"`` or ``"text"``. */
+  type: string;
+
+  /** The name of an element. */
+  tagName?: string;
+
+  /** The text of a text node or comment. */
+  value?: string;
+
+  /** The children of a parent node. */
+  children?: HastNode[];
+}
+
+/**
+ * Make the adapter of a hast tree. The ``root``, ``element``, ``text``,
+ * ``comment`` and ``doctype`` nodes of hast are seen as documents, elements,
+ * text nodes, comments and document types. Nodes of other types are seen as
+ * elements if they have children and as text nodes if they have a value, so
+ * that other unist trees, like mdast trees, can be moved through too.
  *
- * @param child Another node to compare with ``[node, offset]`` which we already
- * know is a child of ``node``.
+ * The adapter records the parent of each node when it is made, so a new
+ * adapter must be made after nodes are added to the tree or moved in it. The
+ * properties of elements are not exposed as attributes.
  *
- * @returns -1 if ``[node, offset]`` is before ``child``, 1 otherwise.
+ * @param root The root of the tree.
+ *
+ * @returns The adapter.
  */
-function pointedCompare(node: Node, offset: number, child: Node): 1 | 0 | -1 {
-  const pointed = node.childNodes[offset];
-  if (pointed === undefined) {
-    // Undefined means we are after all other elements. (A negative offset,
-    // before all nodes, is not possible here.)
-    return 1;
-  }
+export function makeHastAdapter(root: HastNode): TreeAdapter<HastNode> {
+  const parents = new WeakMap<HastNode, HastNode>();
+  const record = (parent: HastNode) => {
+    for (const child of parent.children ?? []) {
+      parents.set(child, parent);
+      record(child);
+    }
+  };
+  record(root);
 
-  // We return -1 when pointed === child because the actual position we care
-  // about is *inside* child. Since it is inside child, ``[node, offset]``
-  // necessarily precedes that location.
-  return pointed === child ||
-    // tslint:disable-next-line:no-bitwise
-    (pointed.compareDocumentPosition(child) &
-     Node.DOCUMENT_POSITION_FOLLOWING) !== 0 ?
-    -1 : // child follows pointed
-    1; // child is before pointed
+  const nodeTypeOf = (node: HastNode): number => {
+    switch (node.type) {
+      case "root":
+        return DOCUMENT_NODE;
+      case "element":
+        return ELEMENT_NODE;
+      case "text":
+        return TEXT_NODE;
+      case "comment":
+        return COMMENT_NODE;
+      case "doctype":
+        return DOCUMENT_TYPE_NODE;
+      default:
+        return node.children === undefined && node.value !== undefined ?
+          TEXT_NODE : ELEMENT_NODE;
+    }
+  };
+
+  const textOf = (node: HastNode): string => {
+    if (node.value !== undefined) {
+      return node.value;
+    }
+
+    return (node.children ?? [])
+      .filter(child => nodeTypeOf(child) !== COMMENT_NODE)
+      .map(textOf)
+      .join("");
+  };
+
+  return {
+    nodeTypeOf,
+    nameOf: node => node.tagName ?? node.type,
+    parentOf: node => parents.get(node) ?? null,
+    childNodesOf: node => node.children ?? [],
+    textOf,
+    attributesOf: () => [],
+    ownerOf: () => null,
+  };
 }
 
 /**
- * Models a DOM location. A DOM location is a pair of node and offset.
+ * A type that is ``T`` but from which TypeScript does not infer ``T``. When a
+ * node is the only argument that could determine the type of nodes, we want
+ * the default type ``Node`` rather than the type of that particular node, so
+ * that ``new DOMLoc(text, 0)`` is a ``DOMLoc<Node>`` and not a
+ * ``DOMLoc<Text>``.
+ */
+type NoInfer<T> = [T][T extends unknown ? 0 : never];
+
+/**
+ * Get the adapter of DOM trees, typed for a tree whose type of nodes is a
+ * parameter. The classes of this library use DOM trees unless told otherwise,
+ * so this is the default value of their adapters.
  *
- * In theory it would be possible to support nodes of any type, but this library
- * currently only supports only ``Element``, ``Document``, ``DocumentFragment``,
- * and ``Text`` for the node.
+ * @param composed Whether to get the adapter of the composed tree rather than
+ * that of the DOM tree. (See [[DOMSpaceOptions.composed]].)
  *
- * Consider the following example:
+ * @returns The adapter.
+ */
+function domAdapter<N>(composed: boolean = false): TreeAdapter<N> {
+  return (composed ? COMPOSED_DOM_ADAPTER : DOM_ADAPTER) as unknown as
+    TreeAdapter<N>;
+}
+
+/**
+ * Get the sibling of a node.
  *
- *    <p>I am a <b>little</b> teapot.</p>
+ * @param adapter The adapter of the tree to which the node belongs.
  *
- * A location of ``(p, 0)`` points to the first text node of the top
- * level ``p`` element.
+ * @param node The node whose sibling we want.
  *
- * A location of ``(p.childNodes[0], 0)`` points to the letter "I" in first text
- * node inside ``p``.
+ * @param forward Whether to get the next sibling rather than the previous one.
  *
- * A location of ``(p.childNodes[0], 7)`` points to the end of the first text
- * node inside ``p``. This is a location after all the text in the node.
+ * @returns The sibling, or ``null`` if there is none.
+ */
+function siblingOf<N>(adapter: TreeAdapter<N>, node: N,
+                      forward: boolean): N | null {
+  const own = forward ? adapter.nextSiblingOf?.(node) :
+    adapter.previousSiblingOf?.(node);
+  if (own !== undefined) {
+    return own;
+  }
+
+  const parent = adapter.parentOf(node);
+  if (parent === null) {
+    return null;
+  }
+
+  const siblings = adapter.childNodesOf(parent);
+  const sibling = siblings[indexOf(siblings, node) + (forward ? 1 : -1)];
+
+  return sibling === undefined ? null : sibling;
+}
+
+/**
+ * The namespace of HTML elements.
+ */
+// tslint:disable-next-line:no-http-string
+const HTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+
+/**
+ * Determine whether a node is an HTML ``slot`` element.
  *
- * A location of ``(p, 1)`` points to the ``b`` element inside ``p``.
+ * @param node The node to test.
+ *
+ * @returns Whether the node is a slot.
  */
-export class DOMLoc {
-  constructor(readonly node: Node, readonly offset: number) {
-    if (offset < 0) {
-      throw new Error("offset cannot be negative");
+function isSlot(node: Node): node is HTMLSlotElement {
+  return node.nodeType === ELEMENT_NODE &&
+    (node as Element).localName === "slot" &&
+    (node as Element).namespaceURI === HTML_NAMESPACE;
+}
+
+/**
+ * Get the children of a node in the composed tree. The children of a shadow
+ * host with an open shadow root are the children of the shadow root. The
+ * children of a slot are the nodes assigned to it or, if there are none, its
+ * own children, which are its fallback content.
+ *
+ * @param node The node whose children we want.
+ *
+ * @returns The children.
+ */
+function composedChildNodes(node: Node): ArrayLike<Node> {
+  if (node.nodeType === ELEMENT_NODE) {
+    const { shadowRoot } = node as Element;
+    if (shadowRoot !== null) {
+      return shadowRoot.childNodes;
     }
-  }
 
-  static makePointingTo(node: Node): DOMLoc {
-    const parent = node.parentNode;
-    if (parent === null) {
-      throw new Error("cannot point a node without a parent");
+    if (isSlot(node)) {
+      const assigned = node.assignedNodes();
+      if (assigned.length !== 0) {
+        return assigned;
+      }
     }
+  }
+
+  return node.childNodes;
+}
 
-    return new DOMLoc(parent, indexOf(parent.childNodes, node));
+/**
+ * Get the parent of a node in the composed tree. This is the inverse of
+ * [[composedChildNodes]].
+ *
+ * @param node The node whose parent we want.
+ *
+ * @returns The parent. It is ``null`` if the node has no parent, or if the
+ * node is not part of the composed tree: it is a child of a shadow host, which
+ * is not assigned to a slot, or it is the fallback content of a slot that has
+ * nodes assigned to it.
+ */
+function composedParentNode(node: Node): Node | null {
+  const { assignedSlot } = node as Element | Text;
+  if (assignedSlot != null) {
+    return assignedSlot;
   }
 
-  /**
-   * @returns A new [[Location]], if the ``node``, ``offset`` pair are not equal
-   * to those of this location. Otherwise, return ``this``.
-   */
-  newIfDifferent(node: Node, offset: number): DOMLoc {
-    return (this.node === node && this.offset === offset) ? this :
-      new DOMLoc(node, offset);
+  const { parentNode } = node;
+  if (parentNode === null) {
+    return null;
   }
 
-  /**
-   * This is the node to which this location points. When the location points to
-   * a text node, the pointed node is the text node. When the location points to
-   * anything else, the pointed node is the child node at the offset of the
-   * location. This may be undefined when the location points beyond the last
-   * child.
-   */
-  get pointedNode(): Node | null {
-    const { node } = this;
+  switch (parentNode.nodeType) {
+    case DOCUMENT_FRAGMENT_NODE:
+      const { host } = parentNode as ShadowRoot;
 
-    if (node.nodeType === Node.TEXT_NODE) {
-      return node;
-    }
+      return host != null ? host : parentNode;
+    case ELEMENT_NODE:
+      return ((parentNode as Element).shadowRoot !== null ||
+              (isSlot(parentNode) &&
+               parentNode.assignedNodes().length !== 0)) ? null : parentNode;
+    default:
+      return parentNode;
+  }
+}
 
-    const pointed = node.childNodes[this.offset];
+/**
+ * The adapter of the composed tree of DOM trees. (See
+ * [[DOMSpaceOptions.composed]].) It does not compare positions with
+ * ``compareDocumentPosition``, which does not know the composed tree.
+ */
+const COMPOSED_DOM_ADAPTER: TreeAdapter<Node> = {
+  ...DOM_ADAPTER,
+  parentOf: composedParentNode,
+  childNodesOf: composedChildNodes,
+  compareDocumentPosition: undefined,
+  nextSiblingOf: undefined,
+  previousSiblingOf: undefined,
+};
 
-    return pointed === undefined ? null : pointed;
+/**
+ * Get the ancestors of a node.
+ *
+ * @param adapter The adapter of the tree to which the node belongs.
+ *
+ * @param node The node whose ancestors we want.
+ *
+ * @returns The node and its ancestors, from the topmost ancestor down to the
+ * node itself.
+ */
+function pathOf<N>(adapter: TreeAdapter<N>, node: N): N[] {
+  const path: N[] = [];
+  for (let current: N | null = node; current !== null;
+       current = adapter.parentOf(current)) {
+    path.push(current);
   }
 
-  /**
-   * The offset contained by this location, but normalized. An offset pointing
-   * beyond the end of the node's data will be normalized to point at the end of
-   * the node.
-   */
-  get normalizedOffset(): number {
-    const { offset, node } = this;
+  return path.reverse();
+}
+
+/**
+ * Compare two locations through the parents and children of their nodes. This
+ * is how locations are compared in trees whose adapter does not provide
+ * ``compareDocumentPosition``, and in the composed tree.
+ *
+ * @param a The first location.
+ *
+ * @param b The second location. It must be a different location than ``a``.
+ *
+ * @param adapter The adapter of the tree to which the locations belong.
+ *
+ * @returns -1 if ``a`` is earlier than ``b``, 1 if it is later.
+ *
+ * @throws {ComparingDisconnectedNodes} If the two locations are not in the
+ * same tree.
+ */
+function structuralCompare<N>(a: DOMLoc<N>, b: DOMLoc<N>,
+                              adapter: TreeAdapter<N>): -1 | 1 {
+  if (a.node === b.node) {
+    return a.offset < b.offset ? -1 : 1;
+  }
+
+  const aPath = pathOf(adapter, a.node);
+  const bPath = pathOf(adapter, b.node);
+  if (aPath[0] !== bPath[0]) {
+    throw new ComparingDisconnectedNodes(a, b);
+  }
+
+  let ix = 1;
+  while (ix < aPath.length && ix < bPath.length && aPath[ix] === bPath[ix]) {
+    ix++;
+  }
+
+  const parent = aPath[ix - 1];
+  const children = adapter.childNodesOf(parent);
+  if (ix === aPath.length) {
+    // a.node contains b.node. As in pointedCompare, a location that points to
+    // the child that contains b.node is before b.
+    return a.offset <= indexOf(children, bPath[ix]) ? -1 : 1;
+  }
+
+  if (ix === bPath.length) {
+    // b.node contains a.node.
+    return b.offset <= indexOf(children, aPath[ix]) ? 1 : -1;
+  }
+
+  return indexOf(children, aPath[ix]) < indexOf(children, bPath[ix]) ? -1 :
+    1;
+}
+
+/**
+ * Determine whether a node contains character data.
+ *
+ * @param adapter The adapter of the tree to which the node belongs.
+ *
+ * @param node The node to test.
+ *
+ * @returns Whether the node is a text node, a CDATA section, a comment or a
+ * processing instruction.
+ */
+function isCharacterData<N>(adapter: TreeAdapter<N>, node: N): boolean {
+  switch (adapter.nodeTypeOf(node)) {
+    case TEXT_NODE:
+    case CDATA_SECTION_NODE:
+    case COMMENT_NODE:
+    case PROCESSING_INSTRUCTION_NODE:
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Determine whether a node is an attribute.
+ *
+ * @param adapter The adapter of the tree to which the node belongs.
+ *
+ * @param node The node to test.
+ *
+ * @returns Whether the node is an attribute.
+ */
+function isAttr<N>(adapter: TreeAdapter<N>, node: N): boolean {
+  return adapter.nodeTypeOf(node) === ATTRIBUTE_NODE;
+}
+
+/**
+ * Compare two locations, one of which at least is in an attribute. A location
+ * in an attribute comes after the location that points to the element that
+ * owns the attribute, and before all the locations inside the element. The
+ * locations in the attributes of an element are in the order of the attributes
+ * of the element.
+ *
+ * @param a The first location.
+ *
+ * @param b The second location. It must be a different location than ``a``.
+ *
+ * @param adapter The adapter of the tree in which to compare.
+ *
+ * @returns -1 if ``a`` is earlier than ``b``, 1 if it is later.
+ *
+ * @throws {ComparingDisconnectedNodes} If an attribute has no owner element, or
+ * if the locations are otherwise disconnected.
+ */
+function attributeCompare<N>(a: DOMLoc<N>, b: DOMLoc<N>,
+                             adapter: TreeAdapter<N>): -1 | 1 {
+  const { node } = a;
+  if (!isAttr(adapter, node)) {
+    return attributeCompare(b, a, adapter) < 0 ? 1 : -1;
+  }
+
+  const owner = adapter.ownerOf(node);
+  if (owner === null) {
+    throw new ComparingDisconnectedNodes(a, b);
+  }
+
+  const { node: otherNode } = b;
+  if (isAttr(adapter, otherNode) && adapter.ownerOf(otherNode) === owner) {
+    if (otherNode === node) {
+      return a.offset < b.offset ? -1 : 1;
+    }
+
+    const attributes = adapter.attributesOf(owner);
+
+    return indexOf(attributes, node) < indexOf(attributes, otherNode) ? -1 :
+      1;
+  }
+
+  if (otherNode === owner) {
+    return -1;
+  }
+
+  // The comparison cannot produce 0, because ``b`` is not in ``owner``.
+  return compareLocations(new DOMLoc(owner, 0, adapter), b, adapter) < 0 ?
+    -1 : 1;
+}
+
+/**
+ * Determine whether a node is a text node or a CDATA section: a node whose
+ * character data is text content.
+ *
+ * @param adapter The adapter of the tree to which the node belongs.
+ *
+ * @param node The node to test.
+ *
+ * @returns Whether the node is a text node or a CDATA section.
+ */
+function isText<N>(adapter: TreeAdapter<N>, node: N): boolean {
+  const nodeType = adapter.nodeTypeOf(node);
+
+  return nodeType === TEXT_NODE || nodeType === CDATA_SECTION_NODE;
+}
+
+/**
+ * Compare a ``[node, offset]`` location with another node which is known to be
+ * a child of ``node``.
+ *
+ * @param node The node of the location.
+ *
+ * @param offset The offset of the location.
+ *
+ * @param child Another node to compare with ``[node, offset]`` which we already
+ * know is a child of ``node``.
+ *
+ * @param adapter The adapter of the tree to which the nodes belong.
+ *
+ * @param compareDocumentPosition The function that compares the positions of
+ * nodes.
+ *
+ * @returns -1 if ``[node, offset]`` is before ``child``, 1 otherwise.
+ */
+function pointedCompare<N>(node: N, offset: number, child: N,
+                           adapter: TreeAdapter<N>,
+                           compareDocumentPosition: (a: N, b: N) => number):
+1 | 0 | -1 {
+  const pointed = adapter.childNodesOf(node)[offset];
+  if (pointed === undefined) {
+    // Undefined means we are after all other elements. (A negative offset,
+    // before all nodes, is not possible here.)
+    return 1;
+  }
+
+  // We return -1 when pointed === child because the actual position we care
+  // about is *inside* child. Since it is inside child, ``[node, offset]``
+  // necessarily precedes that location.
+  return pointed === child ||
+    // tslint:disable-next-line:no-bitwise
+    (compareDocumentPosition(pointed, child) &
+     DOCUMENT_POSITION_FOLLOWING) !== 0 ?
+    -1 : // child follows pointed
+    1; // child is before pointed
+}
+
+/**
+ * Compare two locations in the order of a tree. (See [[DOMLoc.compare]].)
+ *
+ * @param a The first location.
+ *
+ * @param b The second location.
+ *
+ * @param adapter The adapter of the tree in which to compare.
+ *
+ * @returns -1 if ``a`` is earlier than ``b``, ``0`` if the two locations are
+ * equal, 1 if ``a`` is later than ``b``.
+ *
+ * @throws {ComparingDisconnectedNodes} If the two nodes are "disconnected"
+ * (i.e. do not belong to the same tree).
+ */
+function compareLocations<N>(a: DOMLoc<N>, b: DOMLoc<N>,
+                             adapter: TreeAdapter<N>): -1 | 0 | 1 {
+  if (a.equals(b)) {
+    return 0;
+  }
+
+  if (isAttr(adapter, a.node) || isAttr(adapter, b.node)) {
+    return attributeCompare(a, b, adapter);
+  }
+
+  if (adapter.compareDocumentPosition === undefined) {
+    return structuralCompare(a, b, adapter);
+  }
+
+  const compareDocumentPosition = (x: N, y: N) =>
+    // tslint:disable-next-line:no-non-null-assertion
+    adapter.compareDocumentPosition!(x, y);
+  const { node, offset } = a;
+  const { node: otherNode, offset: otherOffset } = b;
+
+  if (node === otherNode) {
+    // The case where offset === otherOffset cannot happen here because it is
+    // covered above.
+    return offset - otherOffset < 0 ? -1 : 1;
+  }
+
+  const result = compareDocumentPosition(node, otherNode);
+  // tslint:disable:no-bitwise
+  if ((result & DOCUMENT_POSITION_DISCONNECTED) !== 0) {
+    throw new ComparingDisconnectedNodes(a, b);
+  }
+
+  if ((result & DOCUMENT_POSITION_FOLLOWING) !== 0) {
+    // otherNode follows node.
+    return (result & DOCUMENT_POSITION_CONTAINED_BY) !== 0 ?
+      // otherNode is contained by node but we still need to figure out the
+      // relative positions of the node pointed by [node, offset] and
+      // otherNode.
+      pointedCompare(node, offset, otherNode, adapter,
+                     compareDocumentPosition) :
+      // otherNode just follows node, no parent child relation
+      -1;
+  }
+
+  if ((result & DOCUMENT_POSITION_PRECEDING) === 0) {
+    /* istanbul ignore next: there's no means to generate this error */
+    throw new Error("neither preceding nor following: this should not \
+happen");
+  }
+
+  // otherNode precedes node.
+  return ((result & DOCUMENT_POSITION_CONTAINS) !== 0 &&
+          // otherNode contains node but we still need to figure out the
+          // relative positions of the node pointed by [otherNode,
+          // otherOffset] and node.
+          pointedCompare(otherNode, otherOffset, node, adapter,
+                         compareDocumentPosition) > 0) ? -1 : 1;
+  // tslint:enable:no-bitwise
+}
+
+/**
+ * Models a DOM location. A DOM location is a pair of node and offset.
+ *
+ * In theory it would be possible to support nodes of any type, but this library
+ * currently only supports only ``Element``, ``Document``, ``DocumentFragment``,
+ * the nodes that contain character data (``Text``, ``CDATASection``,
+ * ``Comment`` and ``ProcessingInstruction``), and ``Attr`` for the node. The
+ * offset of a location in an attribute is an offset into the value of the
+ * attribute.
+ *
+ * Consider the following example:
+ *
+ *    <p>I am a <b>little</b> teapot.</p>
+ *
+ * A location of ``(p, 0)`` points to the first text node of the top
+ * level ``p`` element.
+ *
+ * A location of ``(p.childNodes[0], 0)`` points to the letter "I" in first text
+ * node inside ``p``.
+ *
+ * A location of ``(p.childNodes[0], 7)`` points to the end of the first text
+ * node inside ``p``. This is a location after all the text in the node.
+ *
+ * A location of ``(p, 1)`` points to the ``b`` element inside ``p``.
+ *
+ * The nodes need not be DOM nodes: a location may be in any tree for which
+ * there is a [[TreeAdapter]]. The node types above are then those that the
+ * adapter reports.
+ *
+ * @typeParam N The type of the nodes of the tree.
+ */
+export class DOMLoc<N = Node> {
+  /** The node of the location. */
+  readonly node: N;
+
+  /**
+   * @param node The node of the location.
+   *
+   * @param offset The offset of the location.
+   *
+   * @param adapter The adapter of the tree to which ``node`` belongs. The
+   * default is [[DOM_ADAPTER]], so it must be specified for other trees.
+   */
+  constructor(node: NoInfer<N>, readonly offset: number,
+              readonly adapter: TreeAdapter<N> = domAdapter<N>()) {
+    if (offset < 0) {
+      throw new Error("offset cannot be negative");
+    }
+
+    this.node = node as N;
+  }
+
+  /**
+   * Make a location that points to a node.
+   *
+   * @param node The node to point to.
+   *
+   * @param adapter The adapter of the tree to which ``node`` belongs. The
+   * default is [[DOM_ADAPTER]].
+   *
+   * @returns The location, in the parent of ``node``.
+   *
+   * @throws {Error} If ``node`` has no parent.
+   */
+  static makePointingTo<N = Node>(node: NoInfer<N>,
+                                  adapter: TreeAdapter<N> = domAdapter<N>()):
+  DOMLoc<N> {
+    const parent = adapter.parentOf(node as N);
+    if (parent === null) {
+      throw new Error("cannot point a node without a parent");
+    }
+
+    return new DOMLoc(parent, indexOf(adapter.childNodesOf(parent), node as N),
+                      adapter);
+  }
+
+  /**
+   * @returns A new [[Location]], if the ``node``, ``offset`` pair are not equal
+   * to those of this location. Otherwise, return ``this``.
+   */
+  newIfDifferent(node: N, offset: number): DOMLoc<N> {
+    return (this.node === node && this.offset === offset) ? this :
+      new DOMLoc(node, offset, this.adapter);
+  }
+
+  /**
+   * This is the node to which this location points. When the location points to
+   * a text node, the pointed node is the text node. (The same holds for the
+   * other nodes that contain character data: CDATA sections, comments and
+   * processing instructions, and for attributes.) When the location points to
+   * anything else, the pointed node is the child node at the offset of the
+   * location. This may be undefined when the location points beyond the last
+   * child.
+   */
+  get pointedNode(): N | null {
+    const { node, adapter } = this;
+
+    if (isCharacterData(adapter, node) || isAttr(adapter, node)) {
+      return node;
+    }
+
+    const pointed = adapter.childNodesOf(node)[this.offset];
+
+    return pointed === undefined ? null : pointed;
+  }
+
+  /**
+   * The offset contained by this location, but normalized. An offset pointing
+   * beyond the end of the node's data will be normalized to point at the end of
+   * the node.
+   */
+  get normalizedOffset(): number {
+    const { offset, node, adapter } = this;
+
+    const nodeType = adapter.nodeTypeOf(node);
+    switch (nodeType) {
+      case DOCUMENT_NODE:
+      case DOCUMENT_FRAGMENT_NODE:
+      case ELEMENT_NODE: {
+        const { length } = adapter.childNodesOf(node);
+
+        return offset > length ? length : offset;
+      }
+      case TEXT_NODE:
+      case CDATA_SECTION_NODE:
+      case COMMENT_NODE:
+      case PROCESSING_INSTRUCTION_NODE:
+      case ATTRIBUTE_NODE: {
+        const { length } = adapter.textOf(node);
+
+        return offset > length ? length : offset;
+      }
+      default:
+        throw new Error(`cannot normalize offset in a node of type: \
+${nodeType}`);
+    }
+  }
+
+  /**
+   * ``true`` if the location is already normalized. ``false`` if not.
+   */
+  get isNormalized(): boolean {
+    return this.offset === this.normalizedOffset;
+  }
+
+  /**
+   * Convert a location with an offset which is out of bounds, to a location
+   * with an offset within bounds.
+   *
+   * An offset less than 0 will be normalized to 0. An offset pointing beyond
+   * the end of the node's data will be normalized to point at the end of the
+   * node.
+   *
+   * @returns A new [[Location]], if the offset was adjusted. Otherwise, it
+   * returns ``this``.
+   */
+  normalizeOffset(): DOMLoc<N> {
+    const normalized = this.normalizedOffset;
+    const { offset, node } = this;
+
+    return normalized === offset ? this :
+      new DOMLoc(node, normalized, this.adapter);
+  }
+
+  /**
+   * Make a location from a boundary point, as used by the DOM's ``Range``,
+   * ``StaticRange`` and ``Selection``.
+   *
+   * @param node The node of the boundary point.
+   *
+   * @param offset The offset of the boundary point.
+   *
+   * @param space If specified, the location is escaped through this space.
+   * (See [[DOMSpace.escapeIrrelevantNode]].)
+   *
+   * @returns The location.
+   *
+   * @throws {DOMSpaceScopeError} If ``space`` is specified and the location is
+   * not within it.
+   */
+  static fromBoundaryPoint(node: Node, offset: number,
+                           space?: DOMSpace): DOMLoc {
+    const loc = new DOMLoc(node, offset);
+
+    return space === undefined ? loc : space.escapeIrrelevantNode(loc);
+  }
+
+  /**
+   * Determine whether this location and another location are equal.
+   *
+   * @returns Whether ``this`` and ``other`` are equal.
+   */
+  equals(other: DOMLoc<N> | undefined | null): boolean {
+    return other != null &&
+      (this === other || (this.node === other.node &&
+                          this.offset === other.offset));
+  }
+
+  /**
+   * Describe this location in a form that people can read, as error messages
+   * do. The description is a path like those of [[DOMSpace.locationToPath]],
+   * except that it starts at the top of the tree rather than at the root of a
+   * space, and that it is not meant to be resolved. When the top of the tree is
+   * not a document, the path does not start with a slash but with the test of
+   * the top node, like ``p/text()[1]:2`` for a location in the text of a ``p``
+   * element that has no parent.
+   *
+   * @returns The description.
+   */
+  describe(): string {
+    const { adapter } = this;
+    const steps: string[] = [];
+    let node: N | null = this.node;
+    if (isAttr(adapter, node)) {
+      steps.push(`@${adapter.nameOf(node)}`);
+      node = adapter.ownerOf(node);
+    }
+
+    let top = "";
+    while (node !== null) {
+      const parent: N | null = adapter.parentOf(node);
+      if (parent !== null) {
+        steps.push(pathStepFor(adapter, adapter.childNodesOf(parent), node));
+      }
+      else if (adapter.nodeTypeOf(node) === DOCUMENT_NODE) {
+        top = "/";
+      }
+      else {
+        steps.push(stepTestFor(adapter, node));
+      }
+      node = parent;
+    }
+
+    return `${top}${steps.reverse().join("/")}:${this.offset}`;
+  }
+
+  /**
+   * Compare this location with another in document order. A location in an
+   * attribute comes after the location that points to the element that owns
+   * the attribute, and before all the locations inside the element. Locations
+   * in different attributes of an element are in the order in which the
+   * element lists its attributes.
+   *
+   * The order is that of the tree of the adapter of this location. (See
+   * [[TreeAdapter.compareDocumentPosition]].)
+   *
+   * @param other The other location to compare.
+   *
+   * @param composed Whether to compare in composed-tree order rather than
+   * document order. In the composed tree, the content of open shadow roots
+   * takes the place of the children of their hosts, and the nodes assigned to
+   * slots are children of their slots. The offsets of locations in shadow hosts
+   * and slots count the children in the composed tree. (See
+   * [[DOMSpaceOptions.composed]].) Only DOM trees have a composed tree.
+   *
+   * @returns -1 if ``this`` is earlier than ``other``, ``0`` if the two
+   * locations are equal, 1 if ``this`` is later than ``other``.
+   *
+   * @throws {ComparingDisconnectedNodes} If the two nodes are "disconnected"
+   * (i.e. do not belong to the same document, or to the same composed tree).
+   */
+  compare(other: DOMLoc<N>, composed: boolean = false): -1 | 0 | 1 {
+    return compareLocations(this, other,
+                            composed ? domAdapter<N>(true) : this.adapter);
+  }
+}
+
+/**
+ * Get the document to which a node belongs.
+ *
+ * @param node The node whose document we want.
+ *
+ * @returns The document. This is ``node`` itself if it is a document.
+ */
+function documentOf(node: Node): Document {
+  // ownerDocument is null only for documents.
+  return node.ownerDocument ?? node as Document;
+}
+
+/**
+ * Get a class of the DOM implementation to which a node belongs. This is the
+ * class of the window of the node's document or, if the document has no
+ * window, the global class.
+ *
+ * @param node The node whose DOM implementation we want.
+ *
+ * @param name The name of the class.
+ *
+ * @returns The class, or ``undefined`` if the DOM implementation does not
+ * provide one.
+ */
+function domClassFor<K extends "MutationObserver" | "StaticRange">(
+  node: Node, name: K): (Window & typeof globalThis)[K] | undefined {
+  const view = documentOf(node).defaultView as
+    (Window & typeof globalThis) | null;
+  if (view != null && typeof view[name] === "function") {
+    return view[name];
+  }
+
+  const global = (globalThis as Window & typeof globalThis)[name];
+
+  return typeof global === "function" ? global : undefined;
+}
+
+/**
+ * Get the ``MutationObserver`` class that can observe the tree of a node. (See
+ * [[domClassFor]].)
+ *
+ * @param node The node to observe.
+ *
+ * @returns The class, or ``undefined`` if the DOM implementation does not
+ * provide one.
+ */
+function mutationObserverFor(node: Node): typeof MutationObserver |
+  undefined {
+  return domClassFor(node, "MutationObserver");
+}
+
+/**
+ * Models a range of DOM locations. A range is delimited by two locations, which
+ * are both part of the range.
+ *
+ * The conversions to and from DOM ranges and selections are only possible in
+ * DOM trees.
+ *
+ * @typeParam N The type of the nodes of the tree. (See [[TreeAdapter]].)
+ */
+export class DOMRange<N = Node> {
+  /**
+   * @param start The earliest location of the range.
+   *
+   * @param end The latest location of the range.
+   *
+   * @throws {ReversedRangeError} If ``end`` is less than ``start``.
+   *
+   * @throws {ComparingDisconnectedNodes} If the locations do not belong to the
+   * same document.
+   */
+  constructor(readonly start: DOMLoc<N>, readonly end: DOMLoc<N>) {
+    // End could be equal to start but it cannot be less than start.
+    if (end.compare(start) < 0) {
+      throw new ReversedRangeError(start, end);
+    }
+  }
+
+  /**
+   * Make a range from two locations, in whatever order they are given.
+   *
+   * @param a One location.
+   *
+   * @param b Another location.
+   *
+   * @returns A range that starts with the earlier location and ends with the
+   * later location.
+   */
+  static fromUnordered<N>(a: DOMLoc<N>, b: DOMLoc<N>): DOMRange<N> {
+    return b.compare(a) < 0 ? new DOMRange(b, a) : new DOMRange(a, b);
+  }
+
+  /**
+   * Make a range that spans the contents of a node.
+   *
+   * @param node The node whose contents the range must span.
+   *
+   * @param adapter The adapter of the tree to which ``node`` belongs. The
+   * default is [[DOM_ADAPTER]].
+   *
+   * @returns The range.
+   */
+  static makeSpanningNode<N = Node>(node: NoInfer<N>,
+                                    adapter: TreeAdapter<N> =
+                                    domAdapter<N>()): DOMRange<N> {
+    return new DOMRange(
+      new DOMLoc(node, 0, adapter),
+      new DOMLoc(node, adapter.childNodesOf(node as N).length, adapter));
+  }
+
+  /**
+   * Make a range from a DOM range.
+   *
+   * @param range The DOM range to convert. This may be a ``Range`` or a
+   * ``StaticRange``.
+   *
+   * @param space If specified, the boundary points of ``range`` are escaped
+   * through this space. (See [[DOMSpace.escapeIrrelevantNode]].)
+   *
+   * @returns The range.
+   *
+   * @throws {DOMSpaceScopeError} If ``space`` is specified and one of the
+   * boundary points of ``range`` is not within it.
+   */
+  static fromRange(range: AbstractRange, space?: DOMSpace): DOMRange {
+    return new DOMRange(
+      DOMLoc.fromBoundaryPoint(range.startContainer, range.startOffset, space),
+      DOMLoc.fromBoundaryPoint(range.endContainer, range.endOffset, space));
+  }
+
+  /**
+   * Make a range from a selection. The anchor and focus of the selection may be
+   * in any order.
+   *
+   * @param selection The selection to convert.
+   *
+   * @param space If specified, the anchor and focus of ``selection`` are
+   * escaped through this space. (See [[DOMSpace.escapeIrrelevantNode]].)
+   *
+   * @returns The range, or ``null`` if the selection is empty.
+   *
+   * @throws {DOMSpaceScopeError} If ``space`` is specified and the anchor or
+   * focus of ``selection`` is not within it.
+   */
+  static fromSelection(selection: Selection,
+                       space?: DOMSpace): DOMRange | null {
+    const { anchorNode, anchorOffset, focusNode, focusOffset } = selection;
+    if (selection.rangeCount === 0 || anchorNode === null ||
+        focusNode === null) {
+      return null;
+    }
+
+    return DOMRange.fromUnordered(
+      DOMLoc.fromBoundaryPoint(anchorNode, anchorOffset, space),
+      DOMLoc.fromBoundaryPoint(focusNode, focusOffset, space));
+  }
+
+  /**
+   * Whether the range is collapsed. A collapsed range starts and ends at the
+   * same location.
+   */
+  get collapsed(): boolean {
+    return this.start.equals(this.end);
+  }
+
+  /**
+   * Determine whether this range and another range are equal.
+   *
+   * @returns Whether ``this`` and ``other`` are equal.
+   */
+  equals(other: DOMRange<N> | undefined | null): boolean {
+    return other != null &&
+      (this === other || (this.start.equals(other.start) &&
+                          this.end.equals(other.end)));
+  }
+
+  /**
+   * Determine whether this range contains a location.
+   *
+   * @param loc The location to test.
+   *
+   * @returns Whether ``loc`` is between the start and end of this range,
+   * inclusively.
+   *
+   * @throws {ComparingDisconnectedNodes} If ``loc`` does not belong to the same
+   * document as this range.
+   */
+  contains(loc: DOMLoc<N>): boolean {
+    return this.start.compare(loc) <= 0 && loc.compare(this.end) <= 0;
+  }
+
+  /**
+   * Determine whether this range contains another range.
+   *
+   * @param other The range to test.
+   *
+   * @returns Whether all the locations of ``other`` are in this range.
+   *
+   * @throws {ComparingDisconnectedNodes} If ``other`` does not belong to the
+   * same document as this range.
+   */
+  containsRange(other: DOMRange<N>): boolean {
+    return this.contains(other.start) && this.contains(other.end);
+  }
+
+  /**
+   * Determine whether this range and another range have at least one location
+   * in common.
+   *
+   * @param other The range to test.
+   *
+   * @returns Whether the ranges intersect.
+   *
+   * @throws {ComparingDisconnectedNodes} If ``other`` does not belong to the
+   * same document as this range.
+   */
+  intersects(other: DOMRange<N>): boolean {
+    return this.start.compare(other.end) <= 0 &&
+      other.start.compare(this.end) <= 0;
+  }
+
+  /**
+   * Compute the intersection of this range with another range.
+   *
+   * @param other The other range.
+   *
+   * @returns The range of the locations that are in both ranges, or ``null``
+   * if the ranges do not intersect.
+   *
+   * @throws {ComparingDisconnectedNodes} If ``other`` does not belong to the
+   * same document as this range.
+   */
+  intersection(other: DOMRange<N>): DOMRange<N> | null {
+    if (!this.intersects(other)) {
+      return null;
+    }
+
+    return new DOMRange(
+      this.start.compare(other.start) < 0 ? other.start : this.start,
+      this.end.compare(other.end) < 0 ? this.end : other.end);
+  }
+
+  /**
+   * Determine whether this range and another range are adjacent. Two ranges
+   * are adjacent if one ends where the other starts. When a space is passed,
+   * two ranges are also adjacent if one ends on the location that immediately
+   * precedes the start of the other, in that space.
+   *
+   * @param other The other range.
+   *
+   * @param space The space in which to determine adjacency.
+   *
+   * @returns Whether the ranges are adjacent.
+   *
+   * @throws {ComparingDisconnectedNodes} If ``other`` does not belong to the
+   * same document as this range.
+   *
+   * @throws {DOMSpaceScopeError} If the ends of the ranges that must be checked
+   * are not within ``space``.
+   */
+  isAdjacentTo(other: DOMRange<N>, space?: DOMSpace<N>): boolean {
+    const [first, second] = this.start.compare(other.start) <= 0 ?
+      [this, other] : [other, this];
+    if (first.end.equals(second.start)) {
+      return true;
+    }
+
+    return space !== undefined && first.end.compare(second.start) < 0 &&
+      second.start.equals(space.next(first.end));
+  }
+
+  /**
+   * Compute the union of this range with another range.
+   *
+   * @param other The other range.
+   *
+   * @param space The space in which to determine adjacency. (See
+   * [[isAdjacentTo]].)
+   *
+   * @returns The range that covers both ranges, or ``null`` if the ranges
+   * neither intersect nor are adjacent, since their union would not be a
+   * range.
+   *
+   * @throws {ComparingDisconnectedNodes} If ``other`` does not belong to the
+   * same document as this range.
+   */
+  union(other: DOMRange<N>, space?: DOMSpace<N>): DOMRange<N> | null {
+    if (!(this.intersects(other) || this.isAdjacentTo(other, space))) {
+      return null;
+    }
+
+    return new DOMRange(
+      this.start.compare(other.start) < 0 ? this.start : other.start,
+      this.end.compare(other.end) < 0 ? other.end : this.end);
+  }
+
+  /**
+   * Convert this range to a DOM ``Range``.
+   *
+   * @param space If specified, the range must be within this space.
+   *
+   * @returns A new ``Range`` created by the document of this range.
+   *
+   * @throws {DOMSpaceScopeError} If ``space`` is specified and this range is
+   * not within it.
+   */
+  toRange(this: DOMRange, space?: DOMSpace): Range {
+    this.checkWithin(space);
+    const { start, end } = this;
+    const range = documentOf(start.node).createRange();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset);
+
+    return range;
+  }
+
+  /**
+   * Convert this range to a DOM ``StaticRange``.
+   *
+   * @param space If specified, the range must be within this space.
+   *
+   * @returns A new ``StaticRange``.
+   *
+   * @throws {DOMSpaceScopeError} If ``space`` is specified and this range is
+   * not within it.
+   *
+   * @throws {Error} If the DOM implementation provides no ``StaticRange``.
+   */
+  toStaticRange(this: DOMRange, space?: DOMSpace): StaticRange {
+    this.checkWithin(space);
+    const { start, end } = this;
+    const staticRangeClass = domClassFor(start.node, "StaticRange");
+    if (staticRangeClass === undefined) {
+      throw new Error("converting to a static range requires StaticRange");
+    }
+
+    return new staticRangeClass({
+      startContainer: start.node,
+      startOffset: start.offset,
+      endContainer: end.node,
+      endOffset: end.offset,
+    });
+  }
+
+  /**
+   * Make a selection select this range. The ranges previously selected are
+   * removed from the selection.
+   *
+   * @param selection The selection to modify. This is typically the value
+   * returned by ``window.getSelection()``.
+   *
+   * @param space If specified, the range must be within this space.
+   *
+   * @param backward Whether the selection should be backward, i.e. have its
+   * anchor at the end of this range and its focus at the start.
+   *
+   * @throws {DOMSpaceScopeError} If ``space`` is specified and this range is
+   * not within it.
+   */
+  select(this: DOMRange, selection: Selection, space?: DOMSpace,
+         backward: boolean = false): void {
+    this.checkWithin(space);
+    const [anchor, focus] = backward ? [this.end, this.start] :
+      [this.start, this.end];
+    selection.setBaseAndExtent(anchor.node, anchor.offset,
+                               focus.node, focus.offset);
+  }
+
+  /**
+   * Check that this range is within a space.
+   *
+   * @param space The space to check. If ``undefined``, there is no check.
+   *
+   * @throws {DOMSpaceScopeError} If this range is not within ``space``.
+   */
+  private checkWithin(space: DOMSpace<N> | undefined): void {
+    if (space !== undefined &&
+        !(space.contains(this.start) && space.contains(this.end))) {
+      throw new DOMSpaceScopeError(
+        space.contains(this.start) ? this.end : this.start, boundsOf(space));
+    }
+  }
+
+  /**
+   * Produce an iterable iterator that iterates in document order over the
+   * locations of this range, as produced by a space.
+   *
+   * @param space The space that produces the locations.
+   *
+   * @throws {DOMSpaceScopeError} If the start of the range is not within
+   * ``space``.
+   */
+  *locations(space: DOMSpace<N>): IterableIterator<DOMLoc<N>> {
+    // Escaping may move us before the start of the range.
+    let current: DOMLoc<N> | null = space.escapeIrrelevantNode(this.start);
+    while (current !== null && current.compare(this.start) < 0) {
+      current = space.next(current);
+    }
+
+    while (current !== null && current.compare(this.end) <= 0) {
+      yield current;
+      current = space.next(current);
+    }
+  }
+
+  /**
+   * Produce an iterable iterator that iterates in reverse document order over
+   * the locations of this range, as produced by a space.
+   *
+   * @param space The space that produces the locations.
+   *
+   * @throws {DOMSpaceScopeError} If the end of the range is not within
+   * ``space``.
+   */
+  *reversedLocations(space: DOMSpace<N>): IterableIterator<DOMLoc<N>> {
+    // Escaping may move us before the end of the range, but never after it.
+    let current: DOMLoc<N> | null = space.escapeIrrelevantNode(this.end);
+    while (current !== null && current.compare(this.start) >= 0) {
+      yield current;
+      current = space.previous(current);
+    }
+  }
+}
+
+/**
+ * A test performed on a node.
+ *
+ * @typeParam N The type of the nodes of the tree. (See [[TreeAdapter]].)
+ */
+export type NodeTest<N = Node> = (node: N) => boolean;
+
+// tslint:disable-next-line:no-any
+function indexOf(arrayLike: any, el: any): number {
+  return Array.prototype.indexOf.call(arrayLike, el);
+}
+
+/**
+ * Get the test with which a node is selected in a path step.
+ *
+ * @param adapter The adapter of the tree to which the node belongs.
+ *
+ * @param node The node to select.
+ *
+ * @returns The name of the node if it is an element, or a node test in the
+ * style of XPath.
+ */
+function stepTestFor<N>(adapter: TreeAdapter<N>, node: N): string {
+  switch (adapter.nodeTypeOf(node)) {
+    case ELEMENT_NODE:
+      return adapter.nameOf(node);
+    case TEXT_NODE:
+      return "text()";
+    case COMMENT_NODE:
+      return "comment()";
+    case PROCESSING_INSTRUCTION_NODE:
+      return "processing-instruction()";
+    default:
+      return "node()";
+  }
+}
+
+/**
+ * Determine whether a node matches the test of a path step.
+ *
+ * @param adapter The adapter of the tree to which the node belongs.
+ *
+ * @param node The node to test.
+ *
+ * @param test The test of the step.
+ *
+ * @returns Whether the node matches.
+ */
+function matchesStepTest<N>(adapter: TreeAdapter<N>, node: N,
+                            test: string): boolean {
+  return test === "node()" || stepTestFor(adapter, node) === test;
+}
+
+/**
+ * Make the path step that selects a node among its siblings.
+ *
+ * @param adapter The adapter of the tree to which the node belongs.
+ *
+ * @param siblings The children of the parent of the node.
+ *
+ * @param node The node to select.
+ *
+ * @returns The step.
+ */
+function pathStepFor<N>(adapter: TreeAdapter<N>, siblings: ArrayLike<N>,
+                        node: N): string {
+  const test = stepTestFor(adapter, node);
+  let position = 1;
+  for (let ix = indexOf(siblings, node) - 1; ix >= 0; --ix) {
+    if (matchesStepTest(adapter, siblings[ix], test)) {
+      position++;
+    }
+  }
+
+  return `${test}[${position}]`;
+}
+
+/**
+ * The pattern that path steps follow: an element name or a node test, followed
+ * by a position in brackets.
+ */
+const STEP_RE = (() => {
+  const tests = ["text", "comment", "processing-instruction", "node"]
+    .map(name => `${name}\\(\\)`).join("|");
+
+  return new RegExp(`^([^/[\\]()]+|${tests})\\[([1-9]\\d*)\\]$`);
+})();
+
+/**
+ * A segment of text, as produced by a [[Segmenter]]. This is modeled after the
+ * segments produced by ``Intl.Segmenter``.
+ */
+export interface Segment {
+  /** The text of the segment. */
+  segment: string;
+
+  /** The offset at which the segment starts in the segmented string. */
+  index: number;
+
+  /**
+   * Whether the segment is a word, rather than spaces or punctuation. This is
+   * only meaningful for word segmentation.
+   */
+  isWordLike?: boolean;
+}
+
+/**
+ * A function that splits a string into segments. The segments must be produced
+ * in order, and together they must cover the whole string.
+ */
+export type Segmenter = (text: string) => Iterable<Segment>;
+
+/**
+ * The granularities supported by ``Intl.Segmenter``.
+ */
+export type SegmenterGranularity = "grapheme" | "word" | "sentence";
+
+/**
+ * Make a [[Segmenter]] that uses ``Intl.Segmenter``.
+ *
+ * @param granularity The granularity of the segmentation.
+ *
+ * @param locales The locales to pass to ``Intl.Segmenter``.
+ *
+ * @returns The new segmenter, or ``undefined`` if ``Intl.Segmenter`` is not
+ * available on this platform.
+ */
+export function makeIntlSegmenter(granularity: SegmenterGranularity,
+                                  locales?: string | string[]):
+Segmenter | undefined {
+  // TypeScript's library does not know about Intl.Segmenter yet.
+  // tslint:disable-next-line:no-any
+  const intlSegmenter = (Intl as any).Segmenter;
+  if (intlSegmenter === undefined) {
+    return undefined;
+  }
+
+  const segmenter = new intlSegmenter(locales, { granularity });
+
+  return text => segmenter.segment(text);
+}
+
+/**
+ * A regular expression that approximates the extended grapheme clusters of
+ * Unicode. It handles CR LF, surrogate pairs, combining marks, variation
+ * selectors, emoji modifiers, emoji ZWJ sequences and pairs of regional
+ * indicators.
+ */
+const GRAPHEME_RE = (() => {
+  // Combining marks (the most common blocks only), the zero-width non-joiner,
+  // variation selectors, tags and emoji modifiers.
+  const extend = "(?:[\\u0300-\\u036f\\u0483-\\u0489\\u0591-\\u05bd\\u0610-\\u061a\
+\\u064b-\\u065f\\u0900-\\u0903\\u093a-\\u094f\\u1ab0-\\u1aff\\u1dc0-\\u1dff\
+\\u200c\\u20d0-\\u20ff\\u302a-\\u302f\\u3099\\u309a\\ufe00-\\ufe0f\\ufe20-\\ufe2f]|\
+\\udb40[\\udc20-\\udc7f]|\\ud83c[\\udffb-\\udfff])";
+  const base = "(?:[\\ud800-\\udbff][\\udc00-\\udfff]|[\\s\\S])";
+  const regional = "\\ud83c[\\udde6-\\uddff]";
+
+  return new RegExp(`\\r\\n|${regional}${regional}|\
+${base}${extend}*(?:\\u200d${base}${extend}*)*`, "g");
+})();
+
+/**
+ * A grapheme [[Segmenter]] that does not depend on ``Intl.Segmenter``. It only
+ * approximates the rules of Unicode for extended grapheme clusters, but it is
+ * good enough for the most common cases: CR LF, surrogate pairs, combining
+ * marks, variation selectors, emoji modifiers, emoji ZWJ sequences and flags.
+ *
+ * @param text The text to segment.
+ *
+ * @returns The segments of ``text``.
+ */
+export function *simpleGraphemeSegmenter(text: string):
+IterableIterator<Segment> {
+  const re = new RegExp(GRAPHEME_RE.source, "g");
+  let match: RegExpExecArray | null;
+  // tslint:disable-next-line:no-conditional-assignment
+  while ((match = re.exec(text)) !== null) {
+    yield { segment: match[0], index: match.index };
+  }
+}
+
+/**
+ * The characters that cannot be part of words, for [[simpleWordSegmenter]]:
+ * spaces, and the punctuation and symbols of the Latin-1, general punctuation,
+ * CJK symbols and punctuation and half-width and full-width forms blocks.
+ */
+const NON_WORD_CHARS = "\\s\\u0021-\\u002f\\u003a-\\u0040\\u005b-\\u005e\\u0060\
+\\u007b-\\u007e\\u00a1-\\u00bf\\u00d7\\u00f7\\u2000-\\u206f\\u3000-\\u303f\
+\\uff01-\\uff0f\\uff1a-\\uff20\\uff3b-\\uff40\\uff5b-\\uff65";
+
+/**
+ * A regular expression that matches one word, one run of spaces or any other
+ * single character. Apostrophes are allowed inside words.
+ */
+const WORD_RE = new RegExp(`([^${NON_WORD_CHARS}]+(?:['\\u2019][^${NON_WORD_CHARS}]+)*)|\
+\\s+|[\\s\\S]`, "g");
+
+/**
+ * A word [[Segmenter]] that does not depend on ``Intl.Segmenter``. It considers
+ * that words are runs of characters which are neither spaces nor
+ * punctuation. This works well enough for languages that separate words with
+ * spaces, but not for languages like Chinese, Japanese or Thai.
+ *
+ * @param text The text to segment.
+ *
+ * @returns The segments of ``text``.
+ */
+export function *simpleWordSegmenter(text: string):
+IterableIterator<Segment> {
+  const re = new RegExp(WORD_RE.source, "g");
+  let match: RegExpExecArray | null;
+  // tslint:disable-next-line:no-conditional-assignment
+  while ((match = re.exec(text)) !== null) {
+    yield {
+      segment: match[0],
+      index: match.index,
+      isWordLike: match[1] !== undefined,
+    };
+  }
+}
+
+/**
+ * A regular expression that matches one sentence: text up to and including
+ * sentence-ending punctuation, closing quotes or brackets, and the spaces that
+ * follow.
+ */
+const SENTENCE_RE = (() => {
+  const terminators = ".!?\\u3002\\uff01\\uff1f";
+
+  return new RegExp(`[^${terminators}]*\
+(?:[${terminators}]+[)\\]"'\\u2019\\u201d]*\\s*|$)`, "g");
+})();
+
+/**
+ * A sentence [[Segmenter]] that does not depend on ``Intl.Segmenter``. It
+ * considers that a sentence ends with a period, a question mark or an
+ * exclamation mark. Abbreviations are not recognized: the period of "e.g." ends
+ * a sentence.
+ *
+ * @param text The text to segment.
+ *
+ * @returns The segments of ``text``.
+ */
+export function *simpleSentenceSegmenter(text: string):
+IterableIterator<Segment> {
+  const re = new RegExp(SENTENCE_RE.source, "g");
+  let match: RegExpExecArray | null;
+  // tslint:disable-next-line:no-conditional-assignment
+  while ((match = re.exec(text)) !== null && match[0] !== "") {
+    yield { segment: match[0], index: match.index };
+  }
+}
+
+/**
+ * The HTML elements that [[htmlBlockTest]] considers to be blocks.
+ */
+const HTML_BLOCK_ELEMENTS = new Set([
+  "address", "article", "aside", "blockquote", "body", "caption", "dd",
+  "details", "dialog", "div", "dl", "dt", "fieldset", "figcaption", "figure",
+  "footer", "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hgroup",
+  "hr", "html", "legend", "li", "main", "nav", "ol", "p", "pre", "section",
+  "summary", "table", "tbody", "td", "tfoot", "th", "thead", "tr", "ul",
+]);
+
+/**
+ * A block test that recognizes the elements that HTML renders as blocks by
+ * default. The test is done on the local name of elements, without regard to
+ * namespaces, so it also works with XML vocabularies that use the same names
+ * for their blocks.
+ *
+ * @param node The node to test.
+ *
+ * @returns Whether the node is a block element.
+ */
+export function htmlBlockTest(node: Node): boolean {
+  return node.nodeType === ELEMENT_NODE &&
+    HTML_BLOCK_ELEMENTS.has((node as Element).localName.toLowerCase());
+}
+
+/**
+ * The HTML elements that [[htmlAtomicTest]] deems atomic.
+ */
+const HTML_ATOMIC_ELEMENTS = new Set([
+  "audio", "br", "button", "canvas", "embed", "hr", "iframe", "img", "input",
+  "math", "meter", "object", "progress", "select", "svg", "textarea", "video",
+  "wbr",
+]);
+
+/**
+ * An atomicity test that recognizes the HTML elements that are replaced
+ * content, form controls, or that otherwise have no caret positions inside
+ * them when rendered: ``img``, ``br``, ``input``, ``math``, ``svg``, etc. As
+ * with [[htmlBlockTest]], the test is done on the local name of elements.
+ *
+ * @param node The node to test.
+ *
+ * @returns Whether the node is an atomic element.
+ */
+export function htmlAtomicTest(node: Node): boolean {
+  return node.nodeType === ELEMENT_NODE &&
+    HTML_ATOMIC_ELEMENTS.has((node as Element).localName.toLowerCase());
+}
+
+/**
+ * Find the boundaries of the segments produced by a segmenter.
+ *
+ * @param segmenter The segmenter to use.
+ *
+ * @param text The text to segment.
+ *
+ * @returns The boundaries, in increasing order. The first boundary is always 0
+ * and the last is always the length of ``text``.
+ */
+function segmentBoundaries(segmenter: Segmenter, text: string): number[] {
+  const boundaries: number[] = [];
+  for (const { index } of segmenter(text)) {
+    boundaries.push(index);
+  }
+
+  if (boundaries[0] !== 0) {
+    boundaries.unshift(0);
+  }
+
+  if (boundaries[boundaries.length - 1] !== text.length) {
+    boundaries.push(text.length);
+  }
+
+  return boundaries;
+}
+
+/**
+ * Find the first element of an array which does not satisfy a predicate. The
+ * array must be partitioned so that all the elements which satisfy the
+ * predicate come before those that do not.
+ *
+ * @param array The array to search.
+ *
+ * @param predicate The predicate.
+ *
+ * @returns The index of the first element that does not satisfy
+ * ``predicate``, or the length of the array if there is no such element.
+ */
+function partitionPoint<T>(array: readonly T[],
+                           predicate: (el: T) => boolean): number {
+  let low = 0;
+  let high = array.length;
+  while (low < high) {
+    // tslint:disable-next-line:no-bitwise
+    const mid = (low + high) >>> 1;
+    if (predicate(array[mid])) {
+      low = mid + 1;
+    }
+    else {
+      high = mid;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Find the first element of a sorted array which is greater than a value.
+ *
+ * @param sorted An array sorted in increasing order.
+ *
+ * @param value The value to look for.
+ *
+ * @returns The index of the first element greater than ``value``, or the length
+ * of the array if there is no such element.
+ */
+function upperBound(sorted: number[], value: number): number {
+  return partitionPoint(sorted, el => el <= value);
+}
+
+/**
+ * The HTML elements that [[htmlPreserveWhitespaceTest]] considers to preserve
+ * whitespace.
+ */
+const HTML_PRESERVE_ELEMENTS = new Set(["listing", "plaintext", "pre",
+                                        "textarea", "xmp"]);
+
+/**
+ * The namespace of the ``xml:`` prefix.
+ */
+// tslint:disable-next-line:no-http-string
+const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+
+/**
+ * A test that recognizes the elements in which whitespace is preserved by
+ * default in HTML (``pre``, ``textarea``, etc.) and the elements that have
+ * ``xml:space="preserve"``.
+ *
+ * @param node The node to test.
+ *
+ * @returns Whether the node is an element that preserves whitespace.
+ */
+export function htmlPreserveWhitespaceTest(node: Node): boolean {
+  return node.nodeType === ELEMENT_NODE &&
+    (HTML_PRESERVE_ELEMENTS.has((node as Element).localName.toLowerCase()) ||
+     (node as Element).getAttributeNS(XML_NAMESPACE, "space") === "preserve");
+}
+
+/**
+ * Get the local name of an element in lowercase, which is the form in which
+ * the HTML tests compare names.
+ *
+ * @param adapter The adapter of the tree to which the element belongs.
+ *
+ * @param node The element.
+ *
+ * @returns The name, without its prefix.
+ */
+function htmlLocalNameOf<N>(adapter: TreeAdapter<N>, node: N): string {
+  const name = adapter.nameOf(node);
+
+  return name.slice(name.indexOf(":") + 1).toLowerCase();
+}
+
+/**
+ * The block test of a space whose [[DOMSpaceOptions.blockTest]] is not set. It
+ * recognizes the same elements as [[htmlBlockTest]], in any tree.
+ *
+ * @param adapter The adapter of the tree to which the element belongs.
+ *
+ * @param node The element to test.
+ *
+ * @returns Whether the element is a block.
+ */
+function isHtmlBlock<N>(adapter: TreeAdapter<N>, node: N): boolean {
+  return HTML_BLOCK_ELEMENTS.has(htmlLocalNameOf(adapter, node));
+}
+
+/**
+ * The whitespace test of a space whose
+ * [[DOMSpaceOptions.preserveWhitespaceTest]] is not set. It recognizes the same
+ * elements as [[htmlPreserveWhitespaceTest]], in any tree.
+ *
+ * @param adapter The adapter of the tree to which the element belongs.
+ *
+ * @param node The element to test.
+ *
+ * @returns Whether the element preserves whitespace.
+ */
+function isHtmlPreserving<N>(adapter: TreeAdapter<N>, node: N): boolean {
+  return HTML_PRESERVE_ELEMENTS.has(htmlLocalNameOf(adapter, node)) ||
+    Array.from(adapter.attributesOf(node))
+    .some(attr => adapter.nameOf(attr) === "xml:space" &&
+          adapter.textOf(attr) === "preserve");
+}
+
+/**
+ * The HTML elements whose content is never rendered, which
+ * [[htmlMarkupRelevanceTest]] deems irrelevant.
+ */
+const HTML_UNRENDERED_ELEMENTS = new Set(["script", "style", "template"]);
+
+/**
+ * A relevance test that recognizes, from markup alone, the HTML elements that
+ * are hidden from the user: ``script``, ``style`` and ``template`` elements,
+ * elements with the ``hidden`` attribute, elements with ``aria-hidden="true"``
+ * and elements whose inline style sets ``display: none`` or ``visibility:
+ * hidden``. It does not need layout, so it works in any DOM implementation. As
+ * with [[htmlBlockTest]], element names are tested by local name.
+ *
+ * Use it as the ``relevanceTest`` of a [[DOMSpace]]. Since irrelevance is
+ * contextual, the descendants of the elements it rejects are skipped too.
+ *
+ * @param node The node to test.
+ *
+ * @returns Whether the node is relevant. Nodes that are not elements are
+ * always relevant.
+ */
+export function htmlMarkupRelevanceTest(node: Node): boolean {
+  if (node.nodeType !== ELEMENT_NODE) {
+    return true;
+  }
+
+  const el = node as Element;
+  if (HTML_UNRENDERED_ELEMENTS.has(el.localName.toLowerCase()) ||
+      el.hasAttribute("hidden") ||
+      el.getAttribute("aria-hidden")?.trim().toLowerCase() === "true") {
+    return false;
+  }
+
+  // Only elements in namespaces that support styling have a style property.
+  const { style } = el as Element & Partial<ElementCSSInlineStyle>;
+
+  return style === undefined ||
+    (style.display !== "none" && style.visibility !== "hidden");
+}
+
+/**
+ * A relevance test that uses the computed style of elements to find those that
+ * are not rendered: elements with ``display: none``, and elements with
+ * ``visibility: hidden`` or ``visibility: collapse``. It also rejects all the
+ * elements that [[htmlMarkupRelevanceTest]] rejects. Elements in documents
+ * that have no window fall back to [[htmlMarkupRelevanceTest]].
+ *
+ * Computing style may force layout, so this test is much slower than
+ * [[htmlMarkupRelevanceTest]]. Note that a ``visibility: visible`` element
+ * inside a ``visibility: hidden`` element is rendered, but is skipped anyway,
+ * because irrelevance is contextual.
+ *
+ * @param node The node to test.
+ *
+ * @returns Whether the node is relevant. Nodes that are not elements are
+ * always relevant.
+ */
+export function htmlRenderedRelevanceTest(node: Node): boolean {
+  if (node.nodeType !== ELEMENT_NODE) {
+    return true;
+  }
+
+  if (!htmlMarkupRelevanceTest(node)) {
+    return false;
+  }
+
+  const view = node.ownerDocument?.defaultView;
+  if (view == null) {
+    return true;
+  }
+
+  const { display, visibility } = view.getComputedStyle(node as Element);
+
+  return display !== "none" && visibility !== "hidden" &&
+    visibility !== "collapse";
+}
+
+/**
+ * A [[NodeTest]] that carries a description of the condition it checks. The
+ * functions that build tests, like [[selectorTest]] and [[and]], produce
+ * described tests, so that [[DOMSpace.explainIrrelevance]] can report the rule
+ * that a node fails.
+ */
+export interface DescribedNodeTest<N = Node> extends NodeTest<N> {
+  /** The condition that the nodes which pass the test satisfy. */
+  readonly description: string;
+}
+
+/**
+ * The functions that explain why a node fails a combined test, for the tests
+ * that can do better than their description.
+ */
+const failureExplainers =
+  new WeakMap<NodeTest<never>, (node: never) => string>();
+
+/**
+ * Produce the text that stands for a test in descriptions and explanations.
+ *
+ * @param test The test to describe.
+ *
+ * @returns The description of the test if it is a [[DescribedNodeTest]], or
+ * else the name of the function, or ``anonymous test`` if it has no name.
+ */
+function describeTest<N>(test: NodeTest<N>): string {
+  const { description } = test as Partial<DescribedNodeTest<N>>;
+  if (description !== undefined) {
+    return description;
+  }
+
+  return test.name !== "" ? test.name : "anonymous test";
+}
+
+/**
+ * Find the rule that makes a node fail a test.
+ *
+ * @param test The test, which the node must fail.
+ *
+ * @param node The node.
+ *
+ * @returns The description of the innermost rule that the node fails.
+ */
+function explainFailure<N>(test: NodeTest<N>, node: N): string {
+  const explainer =
+    failureExplainers.get(test) as ((node: N) => string) | undefined;
+
+  return explainer !== undefined ? explainer(node) : describeTest(test);
+}
+
+/**
+ * Make a described test.
+ *
+ * @param description The description of the test.
+ *
+ * @param test The test.
+ *
+ * @returns A new test, which passes the same nodes as ``test``.
+ */
+function makeDescribed<N>(description: string,
+                          test: NodeTest<N>): DescribedNodeTest<N> {
+  return Object.assign((node: N) => test(node), { description });
+}
+
+/**
+ * Give a description to a test. Use it to name the rules that make up a
+ * relevance test, so that [[DOMSpace.explainIrrelevance]] reports the name of
+ * the rule that a node fails.
+ *
+ * @param description The description of the test.
+ *
+ * @param test The test to describe.
+ *
+ * @returns A new test, which passes the same nodes as ``test``.
+ */
+export function rule<N = Node>(description: string,
+                               test: NodeTest<N>): DescribedNodeTest<N> {
+  return makeDescribed(description, test);
+}
+
+/**
+ * Make a test that passes the elements that match CSS selectors.
+ *
+ * @param selectors The selectors, as accepted by ``Element.matches``. For
+ * instance ``.note, .sr-only``. Malformed selectors make the test throw when
+ * it is used.
+ *
+ * @returns The test. Nodes that are not elements fail it.
+ */
+export function selectorTest(selectors: string): DescribedNodeTest {
+  return makeDescribed(`matches "${selectors}"`,
+                       node => node.nodeType === ELEMENT_NODE &&
+                       (node as Element).matches(selectors));
+}
+
+/**
+ * Make a test that passes the elements with a namespace and local name.
+ *
+ * @param namespaceURI The namespace URI of the elements, or ``null`` for
+ * elements in no namespace.
+ *
+ * @param localName The local name of the elements.
+ *
+ * @returns The test. Nodes that are not elements fail it.
+ */
+export function nameTest(namespaceURI: string | null,
+                         localName: string): DescribedNodeTest {
+  return makeDescribed(
+    `is {${namespaceURI ?? ""}}${localName}`,
+    node => node.nodeType === ELEMENT_NODE &&
+      (node as Element).namespaceURI === namespaceURI &&
+      (node as Element).localName === localName);
+}
+
+/**
+ * Make a test that passes the nodes that pass all of a list of tests. The
+ * tests are run in order and stop at the first failure. When a node fails the
+ * combined test, [[DOMSpace.explainIrrelevance]] reports the rule of the first
+ * test it fails.
+ *
+ * @param first The first test.
+ *
+ * @param rest The other tests.
+ *
+ * @returns The combined test.
+ */
+export function and<N = Node>(first: NodeTest<N>,
+                              ...rest: NodeTest<N>[]): DescribedNodeTest<N> {
+  const tests = [first, ...rest];
+  const combined = makeDescribed(
+    tests.length === 1 ? describeTest(first) :
+      `(${tests.map(describeTest).join(" and ")})`,
+    (node: N) => tests.every(test => test(node)));
+  failureExplainers.set(combined, (node: N) => {
+    // tslint:disable-next-line:no-non-null-assertion
+    const failed = tests.find(test => !test(node))!;
+
+    return explainFailure(failed, node);
+  });
+
+  return combined;
+}
+
+/**
+ * Make a test that passes the nodes that pass at least one of a list of tests.
+ * The tests are run in order and stop at the first success.
+ *
+ * @param first The first test.
+ *
+ * @param rest The other tests.
+ *
+ * @returns The combined test.
+ */
+export function or<N = Node>(first: NodeTest<N>,
+                             ...rest: NodeTest<N>[]): DescribedNodeTest<N> {
+  const tests = [first, ...rest];
+
+  return makeDescribed(
+    tests.length === 1 ? describeTest(first) :
+      `(${tests.map(describeTest).join(" or ")})`,
+    node => tests.some(test => test(node)));
+}
+
+/**
+ * Make a test that passes the nodes that fail another test. For instance,
+ * ``not(selectorTest(".note"))`` is a relevance test that deems elements with
+ * the class ``note`` irrelevant.
+ *
+ * @param test The test to negate.
+ *
+ * @returns The negated test.
+ */
+export function not<N = Node>(test: NodeTest<N>): DescribedNodeTest<N> {
+  return makeDescribed(`not ${describeTest(test)}`, node => !test(node));
+}
+
+/**
+ * Matches the characters that CSS collapses.
+ */
+const COLLAPSIBLE_RE = /^[ \t\n\r]$/;
+
+/**
+ * The types of nodes that are intrinsically relevant by default. (See
+ * [[DOMSpaceOptions.relevantNodeTypes]].)
+ */
+export const DEFAULT_RELEVANT_NODE_TYPES: readonly number[] = [
+  ELEMENT_NODE,
+  TEXT_NODE,
+  DOCUMENT_NODE,
+  DOCUMENT_FRAGMENT_NODE,
+];
+
+/**
+ * The types of nodes that may be intrinsically relevant.
+ */
+const ALLOWED_RELEVANT_NODE_TYPES = new Set([
+  ...DEFAULT_RELEVANT_NODE_TYPES,
+  CDATA_SECTION_NODE,
+  COMMENT_NODE,
+  PROCESSING_INSTRUCTION_NODE,
+]);
+
+/**
+ * Options that change how a [[DOMSpace]] moves.
+ *
+ * @typeParam N The type of the nodes of the tree. (See [[TreeAdapter]].)
+ */
+export interface DOMSpaceOptions<N = Node> {
+  /**
+   * The adapter of the tree through which the space moves. The default is
+   * [[DOM_ADAPTER]]. The locations that delimit the space must have the same
+   * adapter. (See [[DOMLoc.adapter]].)
+   */
+  adapter?: TreeAdapter<N>;
+
+  /**
+   * By default, movement inside text nodes proceeds by UTF-16 code
+   * units. Setting this option to ``true`` makes the movement proceed by
+   * extended grapheme clusters. The clusters are determined by
+   * ``Intl.Segmenter`` if it is available, or [[simpleGraphemeSegmenter]] if
+   * not. You may also pass your own [[Segmenter]].
+   */
+  graphemes?: boolean | Segmenter;
+
+  /**
+   * The segmenter to use for moving by words. Word movement only considers the
+   * segments for which ``isWordLike`` is true. By default, it is a segmenter
+   * that uses ``Intl.Segmenter`` with the default locale, if it is available,
+   * or [[simpleWordSegmenter]] if not. Use [[makeIntlSegmenter]] to get a
+   * segmenter for a specific locale.
+   */
+  wordSegmenter?: Segmenter;
+
+  /**
+   * The segmenter to use for finding sentences. By default, it is a segmenter
+   * that uses ``Intl.Segmenter`` with the default locale, if it is available,
+   * or [[simpleSentenceSegmenter]] if not.
+   */
+  sentenceSegmenter?: Segmenter;
+
+  /**
+   * A test that determines which elements are blocks. A block starts a new
+   * paragraph, and so does the content that follows a block. Words and
+   * sentences do not span block boundaries. The test is only called with
+   * elements. The default recognizes the same elements as [[htmlBlockTest]],
+   * by name, in any tree.
+   */
+  blockTest?: NodeTest<N>;
+
+  /**
+   * A test that determines which elements are atomic. An atomic element is a
+   * single stop for movement: there are locations before it and after it, but
+   * no location inside it. Unlike an irrelevant node, an atomic element is
+   * still content: moving over it moves the caret visibly, and when whitespace
+   * is collapsed it counts as text. The test is only called with relevant
+   * elements. By default, no element is atomic. See [[htmlAtomicTest]] for a
+   * test suitable for HTML.
+   */
+  atomicTest?: NodeTest<N>;
+
+  /**
+   * When true, the space moves through the composed tree rather than the DOM
+   * tree: movement enters open shadow roots, and follows the assignment of
+   * nodes to slots. The children of a shadow host are the children of its
+   * shadow root, and the children of a slot are the nodes assigned to it, or
+   * its fallback content if no nodes are assigned to it. The children of a
+   * shadow host that are not assigned to a slot are not part of the space. The
+   * offsets of locations in shadow hosts and slots count the children in the
+   * composed tree, and locations are compared in composed-tree order. (See
+   * [[DOMLoc.compare]].)
+   *
+   * Movement, iteration, escaping, containment and paths follow the composed
+   * tree. The whitespace and text models of the space use the DOM tree. This
+   * option requires [[DOM_ADAPTER]].
+   */
+  composed?: boolean;
+
+  /**
+   * The types of nodes that are intrinsically relevant, as values of
+   * ``Node.nodeType``. The default is [[DEFAULT_RELEVANT_NODE_TYPES]]:
+   * elements, text nodes, documents and document fragments. CDATA sections,
+   * comments and processing instructions may be added. The space moves through
+   * the character data of these nodes as it moves through text nodes. The
+   * content of CDATA sections is text, like the content of text nodes, whereas
+   * the content of comments and processing instructions is not. No other types
+   * are allowed.
+   */
+  relevantNodeTypes?: readonly number[];
+
+  /**
+   * The names of the attributes whose values are visible text. The space moves
+   * through the values of these attributes, on the elements it enters. The
+   * locations in the attributes of an element come just after the location that
+   * points to the element, and before the first location inside the element,
+   * in the order in which the element lists its attributes. (See
+   * [[DOMLoc.compare]].) The values are part of the text of the space. By
+   * default, no attribute is visible.
+   */
+  visibleAttributes?: readonly string[];
+
+  /**
+   * When true, the space models how CSS collapses whitespace in elements styled
+   * with ``white-space: normal``. Sequences of whitespace count as a single
+   * space, and whitespace at the start or end of a block counts as
+   * nothing. Locations that would be in the middle of collapsed whitespace are
+   * skipped, and text nodes that contain only collapsed whitespace are deemed
+   * irrelevant.
+   *
+   * The model is approximate: it does not take into account the actual styles
+   * of the elements, or the line breaks caused by elements other than blocks.
+   */
+  collapseWhitespace?: boolean;
+
+  /**
+   * When whitespace is collapsed, a test that determines the elements in which
+   * whitespace is preserved. The test is only called with elements. The
+   * default recognizes the same elements as [[htmlPreserveWhitespaceTest]], in
+   * any tree.
+   */
+  preserveWhitespaceTest?: NodeTest<N>;
+
+  /**
+   * Whether to cache the relevance of nodes. When the relevance test is
+   * expensive, for instance because it computes style, caching saves calling
+   * it again and again for the same nodes.
+   *
+   * - ``"none"``, the default, does not cache anything.
+   *
+   * - ``"manual"`` caches the intrinsic and contextual relevance of nodes until
+   *   [[DOMSpace.invalidateRelevance]] is called.
+   *
+   * - ``"observe"`` also caches them, and uses a ``MutationObserver`` to forget
+   *   them whenever the DOM tree under the root of the space changes. Changes
+   *   that are not mutations of that tree, like changes to style sheets outside
+   *   it, still require calling [[DOMSpace.invalidateRelevance]]. This mode
+   *   requires [[DOM_ADAPTER]]. The space observes the tree until
+   *   [[DOMSpace.disconnect]] is called.
+   */
+  relevanceCache?: "none" | "manual" | "observe";
+}
+
+/**
+ * The relevance cached by a [[DOMSpace]]. (See
+ * [[DOMSpaceOptions.relevanceCache]].)
+ */
+interface RelevanceCache<N> {
+  /** The results of [[DOMSpace.isRelevant]]. */
+  intrinsic: Map<N, boolean>;
+
+  /** The results of [[DOMSpace.isContextuallyRelevant]]. */
+  contextual: Map<N, boolean>;
+
+  /** The observer that clears the cache, in ``"observe"`` mode. */
+  observer: MutationObserver | undefined;
+}
+
+/**
+ * A part of the text of a text node or visible attribute.
+ */
+interface TextChunk<N> {
+  /**
+   * The node that contains the text. This is ``null`` for chunks that stand for
+   * block boundaries. (See [[BLOCK_SEPARATOR]].)
+   */
+  node: N | null;
+
+  /** The offset at which the chunk starts in the node. */
+  start: number;
+
+  /** The offset at which the chunk ends in the node. */
+  end: number;
+}
+
+/**
+ * The text that stands for a block boundary in the text produced by
+ * [[ChunkedText]].
+ */
+const BLOCK_SEPARATOR = "\n";
+
+/**
+ * The chunk we use for block boundaries.
+ */
+const SEPARATOR_CHUNK: TextChunk<never> = {
+  node: null,
+  start: 0,
+  end: BLOCK_SEPARATOR.length,
+};
+
+/**
+ * A sequence of [[TextChunk]] objects that have been put together into one
+ * string.
+ */
+class ChunkedText<N> {
+  /** The text of all the chunks. */
+  readonly text: string;
+
+  /** The offset at which each chunk starts in [[text]]. */
+  private readonly starts: number[] = [];
+
+  /**
+   * @param chunks The chunks, in document order.
+   *
+   * @param adapter The adapter of the tree to which the chunks belong.
+   */
+  constructor(private readonly chunks: TextChunk<N>[],
+              private readonly adapter: TreeAdapter<N>) {
+    let text = "";
+    for (const { node, start, end } of chunks) {
+      this.starts.push(text.length);
+      text += node === null ? BLOCK_SEPARATOR :
+        adapter.textOf(node).slice(start, end);
+    }
+    this.text = text;
+  }
+
+  /**
+   * Convert a location to an offset in the text.
+   *
+   * @param loc The location to convert. It must be normalized.
+   *
+   * @returns The offset in the text. Locations that fall before the first chunk
+   * are converted to 0, and those that fall after the last chunk are converted
+   * to the length of the text.
+   */
+  offsetOf(loc: DOMLoc<N>): number {
+    const { chunks, starts } = this;
+    for (let ix = 0; ix < chunks.length; ++ix) {
+      const { node, start, end } = chunks[ix];
+      if (node === null) {
+        continue;
+      }
+
+      if (loc.node === node) {
+        return starts[ix] + Math.min(Math.max(loc.offset, start), end) - start;
+      }
+
+      if (loc.compare(new DOMLoc(node, start, this.adapter)) < 0) {
+        return starts[ix];
+      }
+    }
+
+    return this.text.length;
+  }
+
+  /**
+   * Convert an offset in the text to a location.
+   *
+   * @param offset The offset to convert.
+   *
+   * @param before When an offset falls between two chunks, it could be
+   * converted to the location at the end of the first chunk, or the location at
+   * the start of the second chunk. When ``before`` is true, we produce the
+   * location just before the character at ``offset``. Otherwise, we produce
+   * the location just after the character at ``offset - 1``.
+   *
+   * @returns The location.
+   */
+  locationOf(offset: number, before: boolean): DOMLoc<N> {
+    const { chunks, starts } = this;
+    for (let ix = 0; ix < chunks.length; ++ix) {
+      const { node, start, end } = chunks[ix];
+      const chunkStart = starts[ix];
+      const chunkEnd = chunkStart + end - start;
+      if (node !== null &&
+          (before ? (offset >= chunkStart && offset < chunkEnd) :
+           (offset > chunkStart && offset <= chunkEnd))) {
+        return new DOMLoc(node, start + offset - chunkStart, this.adapter);
+      }
+    }
+
+    /* istanbul ignore next: we cannot get there */
+    throw new Error(`internal error: cannot convert offset ${offset}`);
+  }
+}
+
+/**
+ * Options for [[DOMSpace.textMap]].
+ */
+export interface TextMapOptions {
+  /**
+   * The text to put in the text of the map where the text crosses the boundary
+   * of a block. (See [[DOMSpaceOptions.blockTest]].) Successive boundaries,
+   * like those of ``</p><p>``, produce one separator. Boundaries that are not
+   * between two pieces of text produce none.
+   *
+   * By default, the separator is the empty string.
+   */
+  blockSeparator?: string;
+}
+
+/**
+ * A piece of the text of a [[TextMap]].
+ */
+interface TextMapEntry<N> {
+  /**
+   * The node that contains the text. This is ``null`` for block separators.
+   */
+  node: N | null;
+
+  /** The offset at which the entry starts in the node. */
+  start: number;
+
+  /** The offset at which the entry ends in the node. */
+  end: number;
+
+  /**
+   * The location at which the entry starts. For block separators, this is the
+   * location just past the boundary.
+   */
+  position: DOMLoc<N>;
+
+  /** The offset at which the entry starts in the text of the map. */
+  offset: number;
+
+  /** The length of the entry in the text of the map. */
+  length: number;
+}
+
+/**
+ * A map between the locations of a space and offsets in the text of the space.
+ * The text of the space is the text of its relevant text nodes, and of its
+ * visible attributes, in document order. Text in irrelevant nodes is excluded.
+ *
+ * The map is built once, when it is created. Lookups take logarithmic time. It
+ * does not reflect the changes made to the DOM tree after it is built.
+ */
+export class TextMap<N = Node> {
+  /** The text of the space. */
+  readonly text: string;
+
+  /** The entries of the map, in document order. */
+  private readonly entries: TextMapEntry<N>[] = [];
+
+  /** The entries of the map which are not block separators. */
+  private readonly textEntries: TextMapEntry<N>[] = [];
+
+  /** A map from text node or attribute to the entry for that node. */
+  private readonly nodeToEntry: Map<N, TextMapEntry<N>> = new Map();
+
+  /**
+   * @param space The space to map.
+   *
+   * @param options Options that determine how to produce the text.
+   */
+  constructor(readonly space: DOMSpace<N>, options: TextMapOptions = {}) {
+    const { blockSeparator = "" } = options;
+    const { min, max, adapter } = space;
+    const { entries, textEntries, nodeToEntry } = this;
+    let text = "";
+    let pendingSeparator: DOMLoc<N> | undefined;
+    let loc: DOMLoc<N> | null = space.escapeIrrelevantNode(min);
+    while (loc !== null) {
+      const { node, offset } = loc;
+      if (isText(adapter, node) || isAttr(adapter, node)) {
+        const data = adapter.textOf(node);
+        const { length } = data;
+        // Only the text that precedes min is outside the space. We may enter
+        // other nodes past their start when moving by grapheme clusters that
+        // span text nodes, but the text that precedes the cluster is still part
+        // of the text of the space, so we start at 0 in those nodes.
+        const start = node === min.node ? offset : 0;
+        const end = node === max.node ? Math.min(max.offset, length) : length;
+        if (end > start) {
+          if (pendingSeparator !== undefined && text !== "") {
+            entries.push({
+              node: null,
+              start: 0,
+              end: 0,
+              position: pendingSeparator,
+              offset: text.length,
+              length: blockSeparator.length,
+            });
+            text += blockSeparator;
+          }
+          pendingSeparator = undefined;
+
+          const entry = {
+            node,
+            start,
+            end,
+            position: new DOMLoc(node, start, adapter),
+            offset: text.length,
+            length: end - start,
+          };
+          entries.push(entry);
+          textEntries.push(entry);
+          nodeToEntry.set(node, entry);
+          text += data.slice(start, end);
+        }
+        loc = loc.newIfDifferent(node, end);
+      }
+
+      const next: DOMLoc<N> | null = space.next(loc);
+      if (next !== null && blockSeparator !== "" &&
+          pendingSeparator === undefined &&
+          internalsOf(space).crossesBlockBoundary(loc, next)) {
+        pendingSeparator = next;
+      }
+      loc = next;
+    }
+
+    this.text = text;
+  }
+
+  /**
+   * Convert a location to an offset in the text.
+   *
+   * @param loc The location to convert. It is escaped through the space. (See
+   * [[DOMSpace.escapeIrrelevantNode]].)
+   *
+   * @returns The offset in the text. A location that is not inside text is
+   * converted to the offset of the text that precedes it. Locations that
+   * precede all text are converted to 0.
+   *
+   * @throws {DOMSpaceScopeError} If ``loc`` is not within the space.
+   */
+  offsetOf(loc: DOMLoc<N>): number {
+    const escaped = this.space.escapeIrrelevantNode(loc);
+    const { node, offset } = escaped;
+    const entry = this.nodeToEntry.get(node);
+    if (entry !== undefined) {
+      return entry.offset +
+        Math.min(Math.max(offset, entry.start), entry.end) - entry.start;
+    }
+
+    const { entries } = this;
+    const ix = partitionPoint(entries,
+                              el => el.position.compare(escaped) <= 0);
+    if (ix === 0) {
+      return 0;
+    }
+
+    const preceding = entries[ix - 1];
+
+    return preceding.offset + preceding.length;
+  }
+
+  /**
+   * Convert an offset in the text to a location.
+   *
+   * @param offset The offset to convert.
+   *
+   * @param before An offset that falls between two text nodes could be
+   * converted to the location at the end of the first node, or the location at
+   * the start of the second node. When ``before`` is true, we produce the
+   * location just before the character at ``offset``. Otherwise, we produce
+   * the location just after the character at ``offset - 1``. When there is no
+   * such character, we produce the location closest to ``offset``.
+   *
+   * @returns The location, which is always in a text node, unless the space has
+   * no text. In that case, the location is the minimum of the space.
+   *
+   * @throws {RangeError} If ``offset`` is negative or greater than the length
+   * of the text.
+   */
+  locationAt(offset: number, before: boolean = true): DOMLoc<N> {
+    if (offset < 0 || offset > this.text.length) {
+      throw new RangeError(`offset ${offset} is out of range`);
+    }
+
+    const { textEntries } = this;
+    if (textEntries.length === 0) {
+      return this.space.escapeIrrelevantNode(this.space.min);
+    }
+
+    let ix = before ?
+      partitionPoint(textEntries, el => el.offset + el.length <= offset) :
+      partitionPoint(textEntries, el => el.offset < offset) - 1;
+    ix = Math.min(Math.max(ix, 0), textEntries.length - 1);
+    const { node, start, length, offset: entryOffset } = textEntries[ix];
+
+    // The text entries all have a node.
+    // tslint:disable-next-line:no-non-null-assertion
+    return new DOMLoc(node!,
+                      start + Math.min(Math.max(offset - entryOffset, 0),
+                                       length),
+                      this.space.adapter);
+  }
+}
+
+/**
+ * Options for [[DOMSpace.search]].
+ *
+ * @typeParam N The type of the nodes of the tree. (See [[TreeAdapter]].)
+ */
+export interface SearchOptions<N = Node> {
+  /**
+   * The location from which to search. When searching forward, the matches
+   * start at or after this location. When searching backward, they end at or
+   * before this location. By default, the search starts at the minimum of the
+   * space when searching forward, and at the maximum when searching backward.
+   */
+  from?: DOMLoc<N>;
+
+  /**
+   * Whether to search backward. The default is to search forward.
+   */
+  backward?: boolean;
+
+  /**
+   * Whether to ignore case when matching. This is equivalent to using the
+   * ``i`` flag on a regular expression.
+   */
+  caseInsensitive?: boolean;
+}
+
+/**
+ * Escape the characters that have a special meaning in regular expressions.
+ *
+ * @param text The text to escape.
+ *
+ * @returns The escaped text.
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * How to choose the canonical member of a set of equivalent locations. (See
+ * [[DOMSpace.canonical]].)
+ *
+ * - ``"deepestText"`` prefers locations in text nodes, and among those the
+ *   deepest one. If no location is in a text node, the deepest location is
+ *   chosen. Ties are resolved in favor of the earliest location.
+ *
+ * - ``"first"`` chooses the earliest location in document order.
+ *
+ * - ``"last"`` chooses the latest location in document order.
+ */
+export type CanonicalPreference = "deepestText" | "first" | "last";
+
+/**
+ * A direction of movement in document order. (See [[DOMSpace.snap]].)
+ */
+export type Direction = "forward" | "backward";
+
+/**
+ * Why a node is irrelevant. (See [[DOMSpace.explainIrrelevance]].)
+ *
+ * @typeParam N The type of the nodes of the tree. (See [[TreeAdapter]].)
+ */
+export interface IrrelevanceExplanation<N = Node> {
+  /**
+   * The irrelevant node. This is either the node that was examined, or the
+   * ancestor which makes it contextually irrelevant.
+   */
+  readonly node: N;
+
+  /**
+   * What makes the node irrelevant:
+   *
+   * - ``"nodeType"``: nodes of its type are not intrinsically relevant. (See
+   *   [[DOMSpaceOptions.relevantNodeTypes]].)
+   *
+   * - ``"relevanceTest"``: it fails [[DOMSpace.relevanceTest]].
+   *
+   * - ``"collapsedWhitespace"``: it is a text node that contains only collapsed
+   *   whitespace.
+   */
+  readonly cause: "nodeType" | "relevanceTest" | "collapsedWhitespace";
+
+  /**
+   * A description of the reason. When the cause is the relevance test, this is
+   * the description of the rule that the node fails. (See
+   * [[DescribedNodeTest]].)
+   */
+  readonly reason: string;
+}
+
+/**
+ * Compute the depth of a node in its tree.
+ *
+ * @param adapter The adapter of the tree to which the node belongs.
+ *
+ * @param node The node whose depth we want.
+ *
+ * @returns The number of ancestors of the node.
+ */
+function depthOf<N>(adapter: TreeAdapter<N>, node: N): number {
+  let depth = 0;
+  for (let parent = adapter.parentOf(node); parent !== null;
+       parent = adapter.parentOf(parent)) {
+    depth++;
+  }
+
+  return depth;
+}
+
+/**
+ * The ordinal index of the locations of a space.
+ */
+interface LocationIndex<N> {
+  /** The locations of the space, in the order of iteration. */
+  locations: DOMLoc<N>[];
+
+  /** Maps nodes to a map from offsets to the index of the location. */
+  ordinals: Map<N, Map<number, number>>;
+}
+
+/**
+ * The grapheme segmentation of a run of adjacent text nodes. (See
+ * [[DOMSpace.segmentRun]].)
+ */
+interface RunSegmentation<N> {
+  /**
+   * The nodes of the run, each with its data when the run was segmented, and
+   * the offsets at which its data starts and ends in the text of the run.
+   */
+  run: { node: N; data: string; start: number; end: number }[];
+
+  /** The boundaries of the grapheme clusters in the text of the run. */
+  boundaries: number[];
+}
+
+/**
+ * The private members of [[DOMSpace]] that the other classes of this module
+ * use.
+ */
+interface DOMSpaceInternals<N> {
+  crossesBlockBoundary(from: DOMLoc<N>, to: DOMLoc<N>): boolean;
+  firstStopIn(node: N): number;
+  lastStopIn(node: N): number;
+}
+
+/**
+ * Get access to the private members of a space.
+ *
+ * @param space The space.
+ *
+ * @returns The space, typed so as to expose its private members.
+ */
+function internalsOf<N>(space: DOMSpace<N>): DOMSpaceInternals<N> {
+  return space as unknown as DOMSpaceInternals<N>;
+}
+
+/**
+ * A space delimits a part of a DOM tree in which one can obtain locations. The
+ * tree may also be any tree for which there is a [[TreeAdapter]]. (See
+ * [[DOMSpaceOptions.adapter]].)
+ *
+ * @typeParam N The type of the nodes of the tree.
+ */
+export class DOMSpace<N = Node> implements Iterable<DOMLoc<N>> {
+  /**
+   * The adapter of the tree through which this space moves. (See
+   * [[DOMSpaceOptions.adapter]].)
+   */
+  readonly adapter: TreeAdapter<N>;
+
+  /**
+   * The adapter through which we get parents and children: [[adapter]], or the
+   * adapter of the composed tree. (See [[DOMSpaceOptions.composed]].)
+   */
+  private readonly tree: TreeAdapter<N>;
+
+  /**
+   * The segmenter to use for moving by grapheme clusters, if we move by
+   * grapheme clusters.
+   */
+  private readonly graphemeSegmenter: Segmenter | undefined;
+
+  /**
+   * The types of nodes that are intrinsically relevant.
+   */
+  private readonly relevantNodeTypes: Set<number>;
+
+  /**
+   * The last segmentation we computed. Successive movements through the same
+   * text need the same segmentation, so we cache it.
+   */
+  private lastSegmentation: RunSegmentation<N> | undefined;
+
+  /**
+   * The last result of [[collapsedCharacters]]. Successive movements through
+   * the same text node need the same result, so we cache it.
+   */
+  private lastCollapse: {
+    node: N;
+    data: string;
+    collapsed: boolean[];
+  } | undefined;
+
+  /**
+   * The text maps created by [[textMap]], by block separator.
+   */
+  private readonly textMaps: Map<string, TextMap<N>> = new Map();
+
+  /**
+   * The cached value of [[wordSegmenter]].
+   */
+  private _wordSegmenter: Segmenter | undefined;
+
+  /**
+   * The cached value of [[sentenceSegmenter]].
+   */
+  private _sentenceSegmenter: Segmenter | undefined;
+
+  /**
+   * The ordinal index of the locations of this space, built on demand.
+   */
+  private locationIndex: LocationIndex<N> | undefined;
+
+  /**
+   * The observer that detects changes which invalidate [[locationIndex]] and
+   * [[textMaps]].
+   */
+  private treeObserver: MutationObserver | undefined;
+
+  /**
+   * The cached relevance of nodes, if [[DOMSpaceOptions.relevanceCache]]
+   * enables caching.
+   */
+  private readonly relevanceCache: RelevanceCache<N> | undefined;
+
+  /**
+   * @param min The minimum location included in this space.
+   *
+   * @param max The maximum location included in this space.
+   *
+   * @param relevanceTest A test to determine whether a node is relevant. This
+   * space does not produce locations into irrelevant nodes.
+   *
+   * @param options Options that change how this space moves.
+   *
+   * @throws {CannotEscapeIrrelevantNode} If the container is irrelevant.
+   *
+   * @throw {ReversedRangeError} If ``max`` is less than ``min``.
+   *
+   * @throws {Error} If [[DOMSpaceOptions.relevantNodeTypes]] contains a type
+   * that is not allowed, if ``min`` or ``max`` does not have the adapter of the
+   * space, if an option that requires [[DOM_ADAPTER]] is used with another
+   * adapter.
+   *
+   * @throws {MutationObserverUnavailable} If
+   * [[DOMSpaceOptions.relevanceCache]] is ``"observe"`` and the DOM
+   * implementation provides no ``MutationObserver``.
+   */
+  constructor(readonly min: DOMLoc<N>,
+              readonly max: DOMLoc<N>,
+              readonly relevanceTest: NodeTest<N> = () => true,
+              readonly options: DOMSpaceOptions<N> = {}) {
+    const { adapter = domAdapter<N>(), composed = false } = options;
+    if (min.adapter !== adapter || max.adapter !== adapter) {
+      throw new Error("the bounds of the space must have its adapter");
+    }
+
+    if (composed && adapter !== domAdapter<N>()) {
+      throw new Error("only DOM trees have a composed tree");
+    }
+    this.adapter = adapter;
+    this.tree = composed ? domAdapter<N>(true) : adapter;
+
+    const { relevantNodeTypes = DEFAULT_RELEVANT_NODE_TYPES } = options;
+    for (const nodeType of relevantNodeTypes) {
+      if (!ALLOWED_RELEVANT_NODE_TYPES.has(nodeType)) {
+        throw new Error(`nodes of type ${nodeType} cannot be relevant`);
+      }
+    }
+    this.relevantNodeTypes = new Set(relevantNodeTypes);
+
+    const { relevanceCache = "none" } = options;
+    if (relevanceCache !== "none") {
+      this.relevanceCache = {
+        intrinsic: new Map(),
+        contextual: new Map(),
+        observer: undefined,
+      };
+    }
+
+    if (!(this.isRelevant(min.node) && this.isRelevant(max.node))) {
+      throw new CannotEscapeIrrelevantNode(
+        this.isRelevant(min.node) ? max : min, { min, max });
+    }
+
+    // Man could be equal to min but it cannot be less than min.
+    if (compareLocations(max, min, this.tree) < 0) {
+      throw new ReversedRangeError(min, max);
+    }
+
+    const { graphemes } = options;
+    this.graphemeSegmenter = graphemes === true ?
+      (makeIntlSegmenter("grapheme") ?? simpleGraphemeSegmenter) :
+      graphemes === false ? undefined : graphemes;
+
+    if (relevanceCache === "observe") {
+      const { observerClass } = this;
+      if (observerClass === undefined) {
+        throw new MutationObserverUnavailable(
+          "observing the relevance cache requires MutationObserver",
+          { min, max });
+      }
+      // tslint:disable-next-line:no-non-null-assertion
+      const cache = this.relevanceCache!;
+      cache.observer = new observerClass(() => {
+        this.clearRelevanceCache();
+      });
+      // The observer class exists only for DOM trees.
+      this.observeForRelevance(this.root as unknown as Node);
+    }
+  }
+
+  static makeSpanningNode<N = Node>(node: NoInfer<N>,
+                                    relevanceTest?: NodeTest<N>,
+                                    options?: DOMSpaceOptions<N>):
+  DOMSpace<N> {
+    const adapter = options?.adapter ?? domAdapter<N>();
+    // The constructor rejects composed spaces in trees that are not DOM trees.
+    const composed = options?.composed === true && adapter === domAdapter<N>();
+    const { length } = (composed ? domAdapter<N>(true) :
+                        adapter).childNodesOf(node as N);
+
+    return new DOMSpace(new DOMLoc(node, 0, adapter),
+                        new DOMLoc(node, length, adapter),
+                        relevanceTest, options);
+  }
+
+  /**
+   * Test whether a node is intrinsically relevant. This method runs some stock
+   * tests and if necessary calls [[Space.relevanceTest]]. The result is cached
+   * if [[DOMSpaceOptions.relevanceCache]] enables caching.
+   *
+   * @param node The node to test.
+   *
+   * @returns ``true`` if the node is intrinsically relevant, ``false`` if not.
+   */
+  isRelevant(node: N): boolean {
+    const cache = this.getRelevanceCache();
+    const cached = cache?.intrinsic.get(node);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const relevant = this.computeRelevance(node);
+    if (cache !== undefined) {
+      cache.intrinsic.set(node, relevant);
+      // Observing the root does not observe the shadow trees under it. Only
+      // DOM nodes have shadow roots.
+      const { shadowRoot } = node as unknown as Element;
+      if (this.options.composed === true && shadowRoot != null) {
+        this.observeForRelevance(shadowRoot);
+      }
+    }
+
+    return relevant;
+  }
+
+  /**
+   * Test whether a node is contextually relevant: whether the node and all its
+   * ancestors within the space are intrinsically relevant. The result is
+   * cached if [[DOMSpaceOptions.relevanceCache]] enables caching.
+   *
+   * @param node The node to test.
+   *
+   * @returns ``true`` if the node is contextually relevant, ``false`` if not.
+   */
+  isContextuallyRelevant(node: N): boolean {
+    const cache = this.getRelevanceCache();
+    const cached = cache?.contextual.get(node);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const parent = this.parentOf(node);
+    const relevant = this.isRelevant(node) &&
+      (parent === null || !this.containsNode(parent) ||
+       this.isContextuallyRelevant(parent));
+    cache?.contextual.set(node, relevant);
+
+    return relevant;
+  }
+
+  /**
+   * Forget the cached relevance of nodes. (See
+   * [[DOMSpaceOptions.relevanceCache]].) Call this method when a change that
+   * the cache does not detect may have changed the relevance of nodes. Since
+   * the text maps of the space and its ordinal index depend on relevance, they
+   * are forgotten too.
+   *
+   * @param node The node whose relevance may have changed. The cached
+   * relevance of this node and its descendants is forgotten, and so is the
+   * cached contextual relevance of all nodes. Remember that when whitespace is
+   * collapsed, the relevance of a text node depends on its siblings, so pass
+   * the parent of the nodes that changed. By default, the relevance of all
+   * nodes is forgotten.
+   */
+  invalidateRelevance(node?: N): void {
+    this.forgetTreeIndexes();
+    const cache = this.relevanceCache;
+    if (cache === undefined) {
+      return;
+    }
+
+    if (node === undefined) {
+      this.clearRelevanceCache();
+      return;
+    }
+
+    cache.contextual.clear();
+    // We forget the nodes of the subtree of node, unless the subtree has more
+    // nodes than the cache, in which case it is cheaper to forget everything.
+    const { intrinsic } = cache;
+    const { size } = intrinsic;
+    const { adapter } = this;
+    const pending: N[] = [node];
+    let visited = 0;
+    while (pending.length !== 0) {
+      if (++visited > size) {
+        intrinsic.clear();
+        return;
+      }
+
+      // tslint:disable-next-line:no-non-null-assertion
+      const current = pending.pop()!;
+      intrinsic.delete(current);
+      pending.push(...Array.from(adapter.attributesOf(current)),
+                   ...Array.from(this.childNodesOf(current)));
+    }
+  }
+
+  /**
+   * Get the relevance cache, after clearing it if its observer has detected
+   * changes that it has not reported yet.
+   *
+   * @returns The cache, or ``undefined`` if the space does not cache relevance.
+   */
+  private getRelevanceCache(): RelevanceCache<N> | undefined {
+    const cache = this.relevanceCache;
+    if (cache?.observer !== undefined &&
+        cache.observer.takeRecords().length !== 0) {
+      this.clearRelevanceCache();
+    }
+
+    return cache;
+  }
+
+  /**
+   * Forget all the relevance that the space has cached.
+   */
+  private clearRelevanceCache(): void {
+    const cache = this.relevanceCache;
+    if (cache !== undefined) {
+      cache.intrinsic.clear();
+      cache.contextual.clear();
+    }
+  }
+
+  /**
+   * The ``MutationObserver`` class that can observe the tree of this space, or
+   * ``undefined`` if the tree is not a DOM tree, or if the DOM implementation
+   * provides no such class.
+   */
+  private get observerClass(): typeof MutationObserver | undefined {
+    return this.adapter === domAdapter<N>() ?
+      mutationObserverFor(this.root as unknown as Node) : undefined;
+  }
+
+  /**
+   * Make the observer of the relevance cache observe a tree.
+   *
+   * @param target The root of the tree to observe.
+   */
+  private observeForRelevance(target: Node): void {
+    this.relevanceCache?.observer?.observe(target, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+    });
+  }
+
+  /**
+   * Compute the intrinsic relevance of a node, without using the cache.
+   *
+   * @param node The node to test.
+   *
+   * @returns ``true`` if the node is intrinsically relevant, ``false`` if not.
+   */
+  private computeRelevance(node: N): boolean {
+    if (!this.passesRelevanceTests(node)) {
+      return false;
+    }
+
+    if (this.adapter.nodeTypeOf(node) === TEXT_NODE) {
+      // When whitespace is collapsed, a text node that contains only collapsed
+      // whitespace is irrelevant.
+      const collapsed = this.collapsedCharacters(node);
+
+      return collapsed === undefined || collapsed.length === 0 ||
+        !collapsed.every(x => x);
+    }
+
+    return true;
+  }
+
+  /**
+   * Explain why a node is irrelevant. The node may be irrelevant itself, or be
+   * contextually irrelevant because one of its ancestors in the space is
+   * irrelevant. As with [[escapeIrrelevantNode]], the topmost irrelevant node
+   * is the one that counts.
+   *
+   * @param node The node to examine.
+   *
+   * @returns The explanation, or ``null`` if neither the node nor any of its
+   * ancestors in the space is irrelevant.
+   */
+  explainIrrelevance(node: N): IrrelevanceExplanation<N> | null {
+    const ancestorsAndSelf: N[] = [node];
+    for (let parent = this.parentOf(node);
+         parent !== null && this.containsNode(parent);
+         parent = this.parentOf(parent)) {
+      ancestorsAndSelf.push(parent);
+    }
+
+    for (const candidate of ancestorsAndSelf.reverse()) {
+      const nodeType = this.adapter.nodeTypeOf(candidate);
+      if (!this.relevantNodeTypes.has(nodeType)) {
+        return {
+          node: candidate,
+          cause: "nodeType",
+          reason: `nodes of type ${nodeType} are not relevant`,
+        };
+      }
+
+      if (!this.relevanceTest(candidate)) {
+        return {
+          node: candidate,
+          cause: "relevanceTest",
+          reason: explainFailure(this.relevanceTest, candidate),
+        };
+      }
+
+      if (!this.isRelevant(candidate)) {
+        return {
+          node: candidate,
+          cause: "collapsedWhitespace",
+          reason: "the text node contains only collapsed whitespace",
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the children of a node, as this space sees them. These are the
+   * children in the DOM tree or, if [[DOMSpaceOptions.composed]] is true, in
+   * the composed tree.
+   *
+   * @param node The node whose children we want.
+   *
+   * @returns The children.
+   */
+  childNodesOf(node: N): ArrayLike<N> {
+    return this.tree.childNodesOf(node);
+  }
+
+  /**
+   * Get the parent of a node, as this space sees it. (See [[childNodesOf]].)
+   *
+   * @param node The node whose parent we want.
+   *
+   * @returns The parent, or ``null`` if the node has no parent in the tree
+   * through which this space moves.
+   */
+  parentOf(node: N): N | null {
+    return this.tree.parentOf(node);
+  }
+
+  /**
+   * Get the next sibling of a node, as this space sees it. (See
+   * [[childNodesOf]].)
+   *
+   * @param node The node whose sibling we want.
+   *
+   * @returns The sibling, or ``null`` if there is none.
+   */
+  nextSiblingOf(node: N): N | null {
+    return siblingOf(this.tree, node, true);
+  }
+
+  /**
+   * Get the previous sibling of a node, as this space sees it. (See
+   * [[childNodesOf]].)
+   *
+   * @param node The node whose sibling we want.
+   *
+   * @returns The sibling, or ``null`` if there is none.
+   */
+  previousSiblingOf(node: N): N | null {
+    return siblingOf(this.tree, node, false);
+  }
+
+  /**
+   * Get the attributes of a node whose values are visible text, according to
+   * [[DOMSpaceOptions.visibleAttributes]].
+   *
+   * @param node The node whose attributes we want.
+   *
+   * @returns The attributes, in the order in which the node lists them. This is
+   * empty if the node is not an element.
+   */
+  visibleAttributesOf(node: N): N[] {
+    const { visibleAttributes } = this.options;
+    const { adapter } = this;
+    if (visibleAttributes === undefined ||
+        adapter.nodeTypeOf(node) !== ELEMENT_NODE) {
+      return [];
+    }
+
+    return Array.from(adapter.attributesOf(node))
+      .filter(attr => visibleAttributes.indexOf(adapter.nameOf(attr)) !== -1);
+  }
+
+  /**
+   * Make a location that points to a node, through [[parentOf]] and
+   * [[childNodesOf]]. (See [[DOMLoc.makePointingTo]].)
+   *
+   * @param node The node to point to. It must have a parent.
+   *
+   * @returns The location.
+   */
+  private pointingTo(node: N): DOMLoc<N> {
+    // tslint:disable-next-line:no-non-null-assertion
+    const parent = this.parentOf(node)!;
+
+    return new DOMLoc(parent, indexOf(this.childNodesOf(parent), node),
+                      this.adapter);
+  }
+
+  /**
+   * Get the node to which a location points, through [[childNodesOf]]. (See
+   * [[DOMLoc.pointedNode]].)
+   *
+   * @param loc The location.
+   *
+   * @returns The node, or ``null`` if the location points beyond the last
+   * child of its node.
+   */
+  private pointedNodeOf(loc: DOMLoc<N>): N | null {
+    const { node, offset } = loc;
+    if (isCharacterData(this.adapter, node) || isAttr(this.adapter, node)) {
+      return node;
+    }
+
+    const pointed = this.childNodesOf(node)[offset];
+
+    return pointed === undefined ? null : pointed;
+  }
+
+  /**
+   * Normalize the offset of a location, through [[childNodesOf]]. (See
+   * [[DOMLoc.normalizeOffset]].)
+   *
+   * @param loc The location.
+   *
+   * @returns The normalized location.
+   */
+  private normalize(loc: DOMLoc<N>): DOMLoc<N> {
+    const { node, offset } = loc;
+    if (this.options.composed !== true ||
+        isCharacterData(this.adapter, node) || isAttr(this.adapter, node)) {
+      return loc.normalizeOffset();
+    }
+
+    const { length } = this.childNodesOf(node);
+
+    return offset > length ? new DOMLoc(node, length, this.adapter) : loc;
+  }
+
+  /**
+   * Get the number of locations inside a node, minus one: the offset of the
+   * last location in the node.
+   *
+   * @param node The node.
+   *
+   * @returns The offset.
+   */
+  private endOffset(node: N): number {
+    const { adapter } = this;
+
+    return isCharacterData(adapter, node) || isAttr(adapter, node) ?
+      adapter.textOf(node).length : this.childNodesOf(node).length;
+  }
+
+  /**
+   * Test whether a node is atomic, according to
+   * [[DOMSpaceOptions.atomicTest]].
+   *
+   * @param node The node to test.
+   *
+   * @returns ``true`` if the node is an atomic element, ``false`` if not.
+   */
+  isAtomic(node: N): boolean {
+    const { atomicTest } = this.options;
+
+    return atomicTest !== undefined &&
+      this.adapter.nodeTypeOf(node) === ELEMENT_NODE && atomicTest(node);
+  }
+
+  /**
+   * Test whether movement may enter a node, which is the case if it is relevant
+   * and not atomic.
+   *
+   * @param node The node to test.
+   *
+   * @returns ``true`` if there are locations inside the node, ``false`` if not.
+   */
+  canEnter(node: N): boolean {
+    return this.isRelevant(node) && !this.isAtomic(node);
+  }
+
+  /**
+   * Run the stock tests and [[Space.relevanceTest]] on a node.
+   *
+   * @param node The node to test.
+   *
+   * @returns ``true`` if the node passes the tests, ``false`` if not.
+   */
+  private passesRelevanceTests(node: N): boolean {
+    return this.relevantNodeTypes.has(this.adapter.nodeTypeOf(node)) &&
+      this.relevanceTest(node);
+  }
+
+  /**
+   * Determine whether whitespace is preserved in a node, according to
+   * [[DOMSpaceOptions.preserveWhitespaceTest]].
+   *
+   * @param node The node to test.
+   *
+   * @returns Whether whitespace is preserved in the node.
+   */
+  private isWhitespacePreserved(node: N): boolean {
+    const { adapter } = this;
+    const test = this.options.preserveWhitespaceTest ??
+      ((el: N) => isHtmlPreserving(adapter, el));
+    for (let current = adapter.parentOf(node);
+         current !== null && adapter.nodeTypeOf(current) === ELEMENT_NODE;
+         current = adapter.parentOf(current)) {
+      if (test(current)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Determine what is rendered just before or just after a node, for the
+   * purpose of collapsing whitespace.
+   *
+   * @param node The node whose surroundings we want to examine.
+   *
+   * @param forward Whether to look after the node rather than before.
+   *
+   * @returns ``"boundary"`` if the node is at the start (or end) of a block,
+   * ``"space"`` if it is preceded (or followed) by whitespace, ``"text"``
+   * otherwise.
+   */
+  private adjacentContent(node: N,
+                          forward: boolean): "boundary" | "space" | "text" {
+    const { adapter } = this;
+    let current = node;
+    for (;;) {
+      const sibling = siblingOf(adapter, current, forward);
+      if (sibling === null) {
+        const parent = adapter.parentOf(current);
+        if (parent === null || adapter.nodeTypeOf(parent) !== ELEMENT_NODE ||
+            this.isBlock(parent)) {
+          return "boundary";
+        }
+        current = parent;
+        continue;
+      }
+
+      current = sibling;
+      // The data of comments and processing instructions is not rendered.
+      if (!this.passesRelevanceTests(sibling) ||
+          (isCharacterData(adapter, sibling) && !isText(adapter, sibling))) {
+        continue;
+      }
+
+      if (this.isBlock(sibling)) {
+        return "boundary";
+      }
+
+      if (this.isAtomic(sibling)) {
+        return "text";
+      }
+
+      const text = adapter.textOf(sibling);
+      if (text !== "") {
+        return COLLAPSIBLE_RE.test(text[forward ? 0 : text.length - 1]) ?
+          "space" : "text";
+      }
+    }
+  }
+
+  /**
+   * Determine which characters of a text node are removed by whitespace
+   * collapsing.
+   *
+   * @param node The node to examine.
+   *
+   * @returns ``undefined`` if whitespace is not collapsed in the
+   * node. Otherwise, an array that has one element per character of the node,
+   * ``true`` if the character is collapsed.
+   */
+  private collapsedCharacters(node: N): boolean[] | undefined {
+    // Only the whitespace of text nodes is collapsed.
+    if (this.options.collapseWhitespace !== true ||
+        this.adapter.nodeTypeOf(node) !== TEXT_NODE ||
+        this.isWhitespacePreserved(node)) {
+      return undefined;
+    }
+
+    const data = this.adapter.textOf(node);
+    const last = this.lastCollapse;
+    if (last !== undefined && last.node === node && last.data === data) {
+      return last.collapsed;
+    }
+
+    const collapsed: boolean[] = [];
+    // Whitespace at the start of a block, or which follows whitespace, is
+    // collapsed.
+    let previousIsSpace = this.adjacentContent(node, false) !== "text";
+    for (const char of data.split("")) {
+      const isSpace = COLLAPSIBLE_RE.test(char);
+      collapsed.push(isSpace && previousIsSpace);
+      previousIsSpace = isSpace;
+    }
+
+    // Whitespace at the end of a block is collapsed.
+    if (this.adjacentContent(node, true) === "boundary") {
+      for (let ix = data.length - 1;
+           ix >= 0 && COLLAPSIBLE_RE.test(data[ix]);
+           --ix) {
+        collapsed[ix] = true;
+      }
+    }
+
+    this.lastCollapse = { node, data, collapsed };
+
+    return collapsed;
+  }
+
+  /**
+   * Determine whether a location in a text node is one that this space may
+   * produce. When whitespace is collapsed, the locations that fall in the
+   * middle of collapsed whitespace are not produced, and neither are those that
+   * precede the first visible character of the node or follow its last one.
+   *
+   * @param node The text node.
+   *
+   * @param offset The offset in the node.
+   *
+   * @returns Whether the location can be produced.
+   */
+  private isTextStop(node: N, offset: number): boolean {
+    const collapsed = this.collapsedCharacters(node);
+
+    // A location before a character that is not collapsed is a stop. The
+    // collapsed whitespace at the end of the node has one stop, before it.
+    return collapsed === undefined || collapsed[offset] === false ||
+      offset === this.lastStopIn(node);
+  }
+
+  /**
+   * Get the offset of the first location that this space produces in a node,
+   * when it enters the node from before. This is 0, unless the node is a text
+   * node that starts with collapsed whitespace. Then it is the offset of the
+   * first character that is not collapsed.
+   *
+   * @param node The node.
+   *
+   * @returns The offset.
+   */
+  private firstStopIn(node: N): number {
+    const collapsed = this.collapsedCharacters(node);
+
+    return collapsed === undefined ? 0 : Math.max(collapsed.indexOf(false), 0);
+  }
+
+  /**
+   * Get the offset of the last location that this space produces in a node,
+   * when it enters the node from after. This is the end of the node, unless the
+   * node is a text node that ends with collapsed whitespace. Then it is the
+   * offset just after the last character that is not collapsed.
+   *
+   * @param node The node.
+   *
+   * @returns The offset.
+   */
+  private lastStopIn(node: N): number {
+    const collapsed = this.collapsedCharacters(node);
+
+    return collapsed === undefined ? this.endOffset(node) :
+      collapsed.lastIndexOf(false) + 1;
+  }
+
+  /**
+   * Determine whether this space contains a location.
+   *
+   * @param loc The location to test.
+   *
+   * @returns Whether the location is inside the space.
+   */
+  contains(loc: DOMLoc<N>): boolean {
+    const { tree } = this;
+    try {
+      return compareLocations(this.min, loc, tree) <= 0 &&
+        compareLocations(this.max, loc, tree) >= 0;
+    }
+    catch (ex) {
+      if (ex instanceof ComparingDisconnectedNodes) {
+        return false;
+      }
+
+      /* istanbul ignore next: there's currently no way to get here */
+      throw ex;
+    }
+  }
+
+  /**
+   * Determine whether this space contains a node.
+   *
+   * @param node The node to test.
+   *
+   * @returns Whether the node is inside the space.
+   */
+  containsNode(node: N): boolean {
+    return this.parentOf(node) !== null &&
+      this.contains(this.pointingTo(node));
+  }
+
+  /**
+   * If the current location is irrelevant node, then produce a new relevant
+   * location pointing to the contextually irrelevant node. This is "escaping"
+   * the node in the sense that the location provided by this method is pointing
+   * at the irrelevant node *from outside*.
+   *
+   * Locations inside atomic elements are escaped in the same way: the new
+   * location points to the outermost atomic element or irrelevant node that
+   * contains the original location. (See [[DOMSpaceOptions.atomicTest]].)
+   *
+   * A location in an attribute is escaped like a location in the element that
+   * owns the attribute. If the element does not need to be escaped but the
+   * attribute is not visible, the new location is the first location inside
+   * the element. (See [[DOMSpaceOptions.visibleAttributes]].)
+   *
+   * This method also normalizes the location.
+   *
+   * @param location The location to escape.
+   *
+   * @returns If ``location`` was already relevant, and already normalized, then
+   * return ``location``. Otherwise, the new relevant location.
+   *
+   * @throws {DOMSpaceScopeError} If ``location`` is not within the space.
+   */
+  escapeIrrelevantNode(location: DOMLoc<N>): DOMLoc<N> {
+    if (!this.contains(location)) {
+      throw new DOMSpaceScopeError(location, boundsOf(this));
+    }
+    const normalized = this.normalize(location);
+    const { node: locNode } = normalized;
+    // Since the location is within the space, an attribute has an owner.
+    const owner = this.adapter.ownerOf(locNode);
+    let node: N | null = owner ?? locNode;
+    const ancestorsAndSelf: N[] = [];
+    while (node !== null && this.containsNode(node)) {
+      ancestorsAndSelf.push(node);
+      node = this.parentOf(node);
+    }
+
+    // We reverse the nodes to scan them form topmost node down to the original
+    // location.
+    for (const candidate of ancestorsAndSelf.reverse()) {
+      if (!this.canEnter(candidate)) {
+        // All candidates passed containsNode, so the location that points to
+        // the candidate is within the space. This holds for the topmost
+        // candidate too: its parent may be outside the space, but the location
+        // that points to it is not.
+        return this.pointingTo(candidate);
+      }
+    }
+
+    if (owner !== null &&
+        this.visibleAttributesOf(owner).indexOf(locNode) === -1) {
+      return new DOMLoc(owner, 0, this.adapter);
+    }
+
+    // None of the ancestors or the node itself were irrelevant or atomic, so
+    // the original location was fine.
+    return normalized;
+  }
+
+  /**
+   * Map a location to the nearest relevant location of this space. A location
+   * within the space is escaped. (See [[escapeIrrelevantNode]].) A location
+   * before the space is mapped to [[min]], and a location after the space to
+   * [[max]], escaped in the same way.
+   *
+   * @param location The location to clamp. It must be in the same tree as the
+   * space, but need not be within the space.
+   *
+   * @returns The relevant location.
+   *
+   * @throws {ComparingDisconnectedNodes} If ``location`` is not in the same
+   * tree as the space.
+   */
+  clamp(location: DOMLoc<N>): DOMLoc<N> {
+    const { tree } = this;
+    if (compareLocations(location, this.min, tree) < 0) {
+      return this.escapeIrrelevantNode(this.min);
+    }
+
+    if (compareLocations(location, this.max, tree) > 0) {
+      return this.escapeIrrelevantNode(this.max);
+    }
+
+    return this.escapeIrrelevantNode(location);
+  }
+
+  /**
+   * Move a location to the closest location inside a text node, or inside a
+   * CDATA section, in a direction. A location already inside a text node is
+   * not moved.
+   *
+   * @param location The location to snap. It is escaped first. (See
+   * [[escapeIrrelevantNode]].)
+   *
+   * @param direction The direction in which to look for a text node.
+   *
+   * @returns The closest location inside a text node, or ``null`` if there is
+   * no text node in ``direction`` within the space.
+   *
+   * @throws {DOMSpaceScopeError} If ``location`` is not within the space.
+   */
+  snap(location: DOMLoc<N>, direction: Direction): DOMLoc<N> | null {
+    const cursor = this.cursor(location);
+    const forward = direction === "forward";
+    let current: DOMLoc<N> | null = cursor.location;
+    while (current !== null && !isText(this.adapter, current.node)) {
+      current = forward ? cursor.moveNext() : cursor.movePrevious();
+    }
+
+    return current;
+  }
+
+  /**
+   * The root of this space: the deepest node that contains all the locations
+   * of this space.
+   */
+  get root(): N {
+    const { min: { node: minNode }, max: { node: maxNode } } = this;
+    const maxAncestors = new Set<N>();
+    for (let node: N | null = maxNode; node !== null;
+         node = this.parentOf(node)) {
+      maxAncestors.add(node);
+    }
+
+    let root: N | null = minNode;
+    while (root !== null && !maxAncestors.has(root)) {
+      root = this.parentOf(root);
+    }
+
+    /* istanbul ignore if: the constructor makes sure min and max are related */
+    if (root === null) {
+      throw new Error("internal error: min and max have no common ancestor");
+    }
+
+    return root;
+  }
+
+  /**
+   * Serialize a location to a path relative to the root of this space. (See
+   * [[root]].) The path is made of steps that select a child among the children
+   * of the previous step, like in XPath, and ends with the offset of the
+   * location. For instance, ``/p[1]/text()[2]:5`` is the location at offset 5
+   * in the second text node of the first ``p`` element in the root. The path of
+   * a location whose node is the root has no steps: ``/:3``.
+   *
+   * Elements are selected by name. Text nodes, comments and processing
+   * instructions are selected with ``text()``, ``comment()`` and
+   * ``processing-instruction()``. Other nodes are selected with ``node()``,
+   * which counts all the children of the previous step. A location in a visible
+   * attribute has a final step that names the attribute: ``/p[1]/@title:2``.
+   *
+   * The path can be resolved with [[locationFromPath]] in any space whose root
+   * has the same structure. Note that a path does not survive changes to the
+   * structure of the tree, and that parsing a document merges adjacent text
+   * nodes, so paths into a document whose text nodes have been split may not
+   * resolve after the document is serialized and parsed anew.
+   *
+   * @param loc The location to serialize.
+   *
+   * @returns The path.
+   *
+   * @throws {DOMSpaceScopeError} If ``loc`` is not within the space.
+   */
+  locationToPath(loc: DOMLoc<N>): string {
+    if (!this.contains(loc)) {
+      throw new DOMSpaceScopeError(loc, boundsOf(this));
+    }
+
+    const { root, adapter } = this;
+    const steps: string[] = [];
+    let start = loc.node;
+    if (isAttr(adapter, start)) {
+      steps.push(`@${adapter.nameOf(start)}`);
+      // tslint:disable-next-line:no-non-null-assertion
+      start = adapter.ownerOf(start)!;
+    }
+
+    for (let node = start; node !== root;
+         // Since loc is within the space, node is necessarily a descendant of
+         // root.
+         // tslint:disable-next-line:no-non-null-assertion
+         node = this.parentOf(node)!) {
+      // tslint:disable-next-line:no-non-null-assertion
+      steps.push(pathStepFor(adapter, this.childNodesOf(this.parentOf(node)!),
+                             node));
+    }
+
+    return `/${steps.reverse().join("/")}:${loc.offset}`;
+  }
+
+  /**
+   * Resolve a path produced by [[locationToPath]] to a location.
+   *
+   * @param path The path to resolve.
+   *
+   * @returns The location.
+   *
+   * @throws {PathResolutionError} If the path is malformed, or if it does not
+   * resolve to a location within this space.
+   */
+  locationFromPath(path: string): DOMLoc<N> {
+    const fail = (reason: string) =>
+      new PathResolutionError(path, reason, boundsOf(this));
+    const match = /^\/(.*):(\d+)$/.exec(path);
+    if (match === null) {
+      throw fail("the path is malformed");
+    }
+
+    const [, steps, offsetStr] = match;
+    const stepList = steps === "" ? [] : steps.split("/");
+    const attrStep = stepList[stepList.length - 1]?.startsWith("@") === true ?
+      stepList.pop() : undefined;
+    const { adapter } = this;
+    let node: N = this.root;
+    let resolved = "";
+    if (stepList.length !== 0) {
+      for (const step of stepList) {
+        const stepMatch = STEP_RE.exec(step);
+        if (stepMatch === null) {
+          throw fail(`the step ${step} is malformed`);
+        }
+
+        const [, test, positionStr] = stepMatch;
+        let remaining = Number(positionStr);
+        const child = Array.from(this.childNodesOf(node))
+          .find(candidate => matchesStepTest(adapter, candidate, test) &&
+                --remaining === 0);
+        if (child === undefined) {
+          throw fail(`there is no ${step} in /${resolved}`);
+        }
+
+        node = child;
+        resolved += resolved === "" ? step : `/${step}`;
+      }
+    }
+
+    if (attrStep !== undefined) {
+      const name = attrStep.slice(1);
+      const attr = Array.from(adapter.attributesOf(node))
+        .find(candidate => adapter.nameOf(candidate) === name);
+      if (attr === undefined) {
+        throw fail(`there is no ${attrStep} in /${resolved}`);
+      }
+
+      if (indexOf(this.visibleAttributesOf(node), attr) === -1) {
+        throw fail(`${attrStep} is not a visible attribute`);
+      }
+
+      node = attr;
+      resolved += resolved === "" ? attrStep : `/${attrStep}`;
+    }
+
+    const nodeType = adapter.nodeTypeOf(node);
+    switch (nodeType) {
+      case DOCUMENT_FRAGMENT_NODE:
+      case DOCUMENT_NODE:
+      case ELEMENT_NODE:
+      case ATTRIBUTE_NODE:
+        break;
+      default:
+        if (!(isCharacterData(adapter, node) &&
+              this.relevantNodeTypes.has(nodeType))) {
+          throw fail(`/${resolved} is not a node that can contain a location`);
+        }
+    }
+
+    const loc = new DOMLoc(node, Number(offsetStr), adapter);
+    if (this.normalize(loc) !== loc) {
+      throw fail(`the offset ${loc.offset} is beyond the end of /${resolved}`);
+    }
+
+    if (!this.contains(loc)) {
+      throw fail("the location is not within the space");
+    }
+
+    return loc;
+  }
+
+  /**
+   * Compute the next relevant location from a starting point.
+   *
+   * @param start The location from which to start.
+   *
+   * @returns The next relevant location. Or ``null`` if there is no next
+   * relevant location within the space. Remember: the *location* is relevant,
+   * but can point to an irrelevant node.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   *
+   * @throws {CannotEscapeIrrelevantNode} If ``start`` is irrelevant and cannot
+   * be escaped.
+   */
+  next(start: DOMLoc<N>): DOMLoc<N> | null {
+    // tslint:disable-next-line:prefer-const
+    let { node, offset } = this.escapeIrrelevantNode(start);
+    const { adapter } = this;
+    let loc: DOMLoc<N> | undefined;
+    const nodeType = adapter.nodeTypeOf(node);
+    switch (nodeType) {
+      case DOCUMENT_FRAGMENT_NODE:
+      case DOCUMENT_NODE:
+      case ELEMENT_NODE:
+        const pointedNode = this.childNodesOf(node)[offset++];
+        if (pointedNode !== undefined) {
+          if (this.canEnter(pointedNode)) {
+            // Entering an element puts us at the start of its first visible
+            // attribute, if it has one.
+            const [first] = this.visibleAttributesOf(pointedNode);
+            loc = first !== undefined ? new DOMLoc(first, 0, adapter) :
+              new DOMLoc(pointedNode, this.firstStopIn(pointedNode), adapter);
+          }
+          else {
+            loc = new DOMLoc(node, offset, adapter);
+          }
+        }
+        break;
+      case TEXT_NODE:
+      case CDATA_SECTION_NODE:
+      case COMMENT_NODE:
+      case PROCESSING_INSTRUCTION_NODE:
+        loc = this.nextInText(node, offset);
+        break;
+      case ATTRIBUTE_NODE:
+        loc = this.nextInAttribute(node, offset);
+        break;
+        /* istanbul ignore next: we cannot get there */
+      default:
+        // Due to escapeIrrelevantNode, we should never get here.
+        throw new Error(`internal error: unexpected type ${nodeType}`);
+    }
+
+    if (loc === undefined) {
+      // If we get here, we have to move to the sibling after our starting node.
+
+      // Note that because of the escapeIrrelevantNode at the beginning of this
+      // function, the parent we encounter is necessarily relevant.
+      const parentNode = this.parentOf(node);
+      if (parentNode === null) {
+        return null;
+      }
+
+      loc = new DOMLoc(parentNode,
+                       indexOf(this.childNodesOf(parentNode), node) + 1,
+                       adapter);
+    }
+
+    return this.contains(loc) ? loc : null;
+  }
+
+  /**
+   * Compute the previous relevant location from a starting point.
+   *
+   * @param start The location from which to start.
+   *
+   * @returns The previous relevant location. Or ``null`` if there is no
+   * previous relevant location inside the space. Remember: the *location* is
+   * relevant, but can point to an irrelevant node.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   *
+   * @throws {CannotEscapeIrrelevantNode} If ``start`` is irrelevant and cannot
+   * be escaped.
+   */
+  previous(start: DOMLoc<N>): DOMLoc<N> | null {
+    // tslint:disable-next-line:prefer-const
+    let { node, offset } = this.escapeIrrelevantNode(start);
+    const { adapter } = this;
+    let loc: DOMLoc<N> | undefined;
+    const nodeType = adapter.nodeTypeOf(node);
+    switch (nodeType) {
+      case DOCUMENT_FRAGMENT_NODE:
+      case DOCUMENT_NODE:
+      case ELEMENT_NODE:
+        const pointedNode = this.childNodesOf(node)[--offset];
+        if (pointedNode !== undefined) {
+          loc = this.canEnter(pointedNode) ?
+            new DOMLoc(pointedNode, this.lastStopIn(pointedNode), adapter) :
+            new DOMLoc(node, offset, adapter);
+        }
+        else {
+          // At the start of an element, the visible attributes come before its
+          // content.
+          const attrs = this.visibleAttributesOf(node);
+          const last = attrs[attrs.length - 1];
+          if (last !== undefined) {
+            loc = new DOMLoc(last, this.endOffset(last), adapter);
+          }
+        }
+        break;
+      case TEXT_NODE:
+      case CDATA_SECTION_NODE:
+      case COMMENT_NODE:
+      case PROCESSING_INSTRUCTION_NODE:
+        loc = this.previousInText(node, offset);
+        break;
+      case ATTRIBUTE_NODE:
+        loc = this.previousInAttribute(node, offset);
+        if (loc === undefined) {
+          // Moving out of the first visible attribute puts us before its
+          // owner element.
+          // tslint:disable-next-line:no-non-null-assertion
+          node = adapter.ownerOf(node)!;
+        }
+        break;
+        /* istanbul ignore next: we cannot get there */
+      default:
+        // Due to escapeIrrelevantNode, we should never get here.
+        throw new Error(`internal error: unexpected type ${nodeType}`);
+    }
+
+    if (loc === undefined) {
+      // If we get here, we have to move to the sibling before our starting
+      // node.
+
+      // Note that because of the escapeIrrelevantNode at the beginning of this
+      // function, the parents we encounter are necessarily relevant.
+      const parentNode = this.parentOf(node);
+      if (parentNode === null) {
+        return null;
+      }
+
+      loc = new DOMLoc(parentNode,
+                       indexOf(this.childNodesOf(parentNode), node), adapter);
+    }
+
+    return this.contains(loc) ? loc : null;
+  }
+
+  /**
+   * Compute the location just after the node to which a location points,
+   * without entering the node. (See [[DOMLoc.pointedNode]]: a location in a
+   * text node points to the text node.) If the location points to no node,
+   * because it is at the end of its node, this method behaves like [[next]],
+   * and moves just after the node that contains the location. From a location
+   * in a visible attribute, it moves past the whole attribute: to the start of
+   * the next visible attribute or, if there is none, of the element's content.
+   *
+   * @param start The location from which to start.
+   *
+   * @returns The next location, or ``null`` if there is no next location inside
+   * the space.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  nextShallow(start: DOMLoc<N>): DOMLoc<N> | null {
+    const escaped = this.escapeIrrelevantNode(start);
+    if (isAttr(this.adapter, escaped.node)) {
+      const attr = escaped.node;
+      const after = this.nextInAttribute(attr, this.endOffset(attr));
+      return this.contains(after) ? after : null;
+    }
+
+    const pointedNode = this.pointedNodeOf(escaped);
+    if (pointedNode === null) {
+      return this.next(escaped);
+    }
+
+    const parentNode = this.parentOf(pointedNode);
+    if (parentNode === null) {
+      return null;
+    }
+
+    const loc = new DOMLoc(
+      parentNode, indexOf(this.childNodesOf(parentNode), pointedNode) + 1,
+      this.adapter);
+
+    return this.contains(loc) ? loc : null;
+  }
+
+  /**
+   * Compute the location just before the node that precedes a location,
+   * without entering the node. A location in a text node is preceded by its
+   * text node. If no node precedes the location, because it is at the start of
+   * its node, this method behaves like [[previous]], and moves just before the
+   * node that contains the location. From a location in a visible attribute,
+   * it moves before the whole attribute: to the end of the previous visible
+   * attribute or, if there is none, just before the element.
+   *
+   * @param start The location from which to start.
+   *
+   * @returns The previous location, or ``null`` if there is no previous
+   * location inside the space.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  previousShallow(start: DOMLoc<N>): DOMLoc<N> | null {
+    const escaped = this.escapeIrrelevantNode(start);
+    const { node, offset } = escaped;
+    const { adapter } = this;
+    let loc: DOMLoc<N>;
+    if (isAttr(adapter, node)) {
+      const previous = this.previousInAttribute(node, 0);
+      if (previous !== undefined) {
+        loc = previous;
+      }
+      else {
+        // tslint:disable-next-line:no-non-null-assertion
+        const owner = adapter.ownerOf(node)!;
+        const parentNode = this.parentOf(owner);
+        if (parentNode === null) {
+          return null;
+        }
+
+        loc = new DOMLoc(parentNode,
+                         indexOf(this.childNodesOf(parentNode), owner),
+                         adapter);
+      }
+    }
+    else if (isCharacterData(adapter, node)) {
+      const parentNode = this.parentOf(node);
+      if (parentNode === null) {
+        return null;
+      }
+
+      loc = new DOMLoc(parentNode,
+                       indexOf(this.childNodesOf(parentNode), node), adapter);
+    }
+    else if (offset === 0) {
+      return this.previous(escaped);
+    }
+    else {
+      loc = new DOMLoc(node, offset - 1, adapter);
+    }
+
+    return this.contains(loc) ? loc : null;
+  }
+
+  /**
+   * Compute the next location inside a text node, or another node that
+   * contains character data.
+   *
+   * @param node The text node in which we are moving.
+   *
+   * @param offset The offset from which to move.
+   *
+   * @returns The next location, or ``undefined`` if we must move out of
+   * ``node``. When moving by grapheme clusters, the location returned may be
+   * in a following text node, if a cluster spans the two nodes.
+   *
+   * This is a low-level method, which does not check that the location
+   * returned is within the space. Use [[next]] unless you know what you are
+   * doing.
+   */
+  nextInText(node: N, offset: number): DOMLoc<N> | undefined {
+    let loc = this.nextTextBoundary(node, offset);
+    while (loc !== undefined && !this.isTextStop(loc.node, loc.offset)) {
+      loc = this.nextTextBoundary(loc.node, loc.offset);
+    }
+
+    return loc;
+  }
+
+  /**
+   * Compute the previous location inside a text node, or another node that
+   * contains character data.
+   *
+   * @param node The text node in which we are moving.
+   *
+   * @param offset The offset from which to move.
+   *
+   * @returns The previous location, or ``undefined`` if we must move out of
+   * ``node``. When moving by grapheme clusters, the location returned may be
+   * in a preceding text node, if a cluster spans the two nodes.
+   *
+   * This is a low-level method, which does not check that the location
+   * returned is within the space. Use [[previous]] unless you know what you
+   * are doing.
+   */
+  previousInText(node: N, offset: number): DOMLoc<N> | undefined {
+    let loc = this.previousTextBoundary(node, offset);
+    while (loc !== undefined && !this.isTextStop(loc.node, loc.offset)) {
+      loc = this.previousTextBoundary(loc.node, loc.offset);
+    }
+
+    return loc;
+  }
+
+  /**
+   * Compute the next location inside a visible attribute. Past the end of its
+   * value, we move to the start of the next visible attribute of the same
+   * element or, if there is none, to the start of the element's content.
+   *
+   * @param attr The attribute in which we are moving.
+   *
+   * @param offset The offset from which to move.
+   *
+   * @returns The next location.
+   */
+  private nextInAttribute(attr: N, offset: number): DOMLoc<N> {
+    const { adapter } = this;
+    const value = adapter.textOf(attr);
+    if (offset < value.length) {
+      const { graphemeSegmenter } = this;
+      if (graphemeSegmenter === undefined) {
+        return new DOMLoc(attr, offset + 1, adapter);
+      }
+
+      const boundaries = segmentBoundaries(graphemeSegmenter, value);
+      return new DOMLoc(attr, boundaries[upperBound(boundaries, offset)],
+                        adapter);
+    }
+
+    // tslint:disable-next-line:no-non-null-assertion
+    const owner = adapter.ownerOf(attr)!;
+    const attrs = this.visibleAttributesOf(owner);
+    const next = attrs[indexOf(attrs, attr) + 1];
+    return new DOMLoc(next !== undefined ? next : owner, 0, adapter);
+  }
+
+  /**
+   * Compute the previous location inside a visible attribute. Before the start
+   * of its value, we move to the end of the previous visible attribute of the
+   * same element.
+   *
+   * @param attr The attribute in which we are moving.
+   *
+   * @param offset The offset from which to move.
+   *
+   * @returns The previous location, or ``undefined`` if ``attr`` is the first
+   * visible attribute of its element, and we must move before the element.
+   */
+  private previousInAttribute(attr: N,
+                              offset: number): DOMLoc<N> | undefined {
+    const { adapter } = this;
+    if (offset > 0) {
+      const { graphemeSegmenter } = this;
+      if (graphemeSegmenter === undefined) {
+        return new DOMLoc(attr, offset - 1, adapter);
+      }
+
+      const boundaries = segmentBoundaries(graphemeSegmenter,
+                                           adapter.textOf(attr));
+      return new DOMLoc(attr,
+                        boundaries[upperBound(boundaries, offset - 1) - 1],
+                        adapter);
+    }
+
+    // tslint:disable-next-line:no-non-null-assertion
+    const attrs = this.visibleAttributesOf(adapter.ownerOf(attr)!);
+    const previous = attrs[indexOf(attrs, attr) - 1];
+    return previous === undefined ? undefined :
+      new DOMLoc(previous, this.endOffset(previous), adapter);
+  }
+
+  /**
+   * Compute the location of the next code unit or grapheme boundary in a text
+   * node.
+   *
+   * @param node The text node in which we are moving.
+   *
+   * @param offset The offset from which to move.
+   *
+   * @returns The next location, or ``undefined`` if we must move out of
+   * ``node``. When moving by grapheme clusters, the location returned may be
+   * in a following text node, if a cluster spans the two nodes.
+   */
+  private nextTextBoundary(node: N, offset: number): DOMLoc<N> | undefined {
+    const { adapter } = this;
+    if (offset >= adapter.textOf(node).length) {
+      return undefined;
+    }
+
+    if (this.graphemeSegmenter === undefined) {
+      return new DOMLoc(node, offset + 1, adapter);
+    }
+
+    const { run, start, boundaries } = this.segmentRun(node);
+    const target = boundaries[upperBound(boundaries, start + offset)];
+    for (const { node: candidate, start: candidateStart, end } of run) {
+      if (target > candidateStart && target <= end) {
+        return new DOMLoc(candidate, target - candidateStart, adapter);
+      }
+    }
+
+    /* istanbul ignore next: we cannot get there */
+    throw new Error("internal error: cannot find grapheme boundary");
+  }
+
+  /**
+   * Compute the location of the previous code unit or grapheme boundary in a
+   * text node.
+   *
+   * @param node The text node in which we are moving.
+   *
+   * @param offset The offset from which to move.
+   *
+   * @returns The previous location, or ``undefined`` if we must move out of
+   * ``node``. When moving by grapheme clusters, the location returned may be
+   * in a preceding text node, if a cluster spans the two nodes.
+   */
+  private previousTextBoundary(node: N,
+                               offset: number): DOMLoc<N> | undefined {
+    if (offset <= 0) {
+      return undefined;
+    }
+
+    const { adapter } = this;
+    if (this.graphemeSegmenter === undefined) {
+      return new DOMLoc(node, offset - 1, adapter);
+    }
+
+    const { run, start, boundaries } = this.segmentRun(node);
+    const target =
+      boundaries[upperBound(boundaries, start + offset - 1) - 1];
+    for (const { node: candidate, start: candidateStart, end } of run) {
+      if (target >= candidateStart && target < end) {
+        return new DOMLoc(candidate, target - candidateStart, adapter);
+      }
+    }
+
+    /* istanbul ignore next: we cannot get there */
+    throw new Error("internal error: cannot find grapheme boundary");
+  }
+
+  /**
+   * Find the run of adjacent relevant text nodes to which a text node belongs,
+   * and segment the text of the run into grapheme clusters. Grapheme clusters
+   * can span text nodes. (For instance, when a text node ends with a letter and
+   * the following text node starts with a combining mark.) So we cannot
+   * segment a text node in isolation.
+   *
+   * @param node The text node whose run we want.
+   *
+   * @returns The nodes of the run, each with the offsets at which its text
+   * starts and ends in the run, the offset at which ``node`` starts in the run,
+   * and the boundaries of the grapheme clusters in the run.
+   */
+  private segmentRun(node: N): RunSegmentation<N> & { start: number } {
+    // Only text nodes and CDATA sections form runs. The data of comments and
+    // processing instructions is segmented in isolation.
+    const { adapter } = this;
+    const joins = isText(adapter, node);
+    let first = node;
+    let sibling = this.previousSiblingOf(first);
+    while (joins && sibling !== null && isText(adapter, sibling) &&
+           this.isRelevant(sibling)) {
+      first = sibling;
+      sibling = this.previousSiblingOf(first);
+    }
+
+    const nodes: N[] = [];
+    let current: N | null = first;
+    while (current !== null &&
+           (current === node ||
+            (joins && isText(adapter, current) &&
+             this.isRelevant(current)))) {
+      nodes.push(current);
+      current = this.nextSiblingOf(current);
+    }
+
+    // The last segmentation is still good if it is of the same nodes, with the
+    // same data. Checking this does not require putting the text of the run
+    // together, which would make moving through a long text node quadratic.
+    let segmentation = this.lastSegmentation;
+    if (segmentation === undefined ||
+        segmentation.run.length !== nodes.length ||
+        segmentation.run.some((entry, ix) => entry.node !== nodes[ix] ||
+                              entry.data !== adapter.textOf(entry.node))) {
+      const entries: RunSegmentation<N>["run"] = [];
+      let text = "";
+      for (const runNode of nodes) {
+        const data = adapter.textOf(runNode);
+        entries.push({ node: runNode, data, start: text.length,
+                       end: text.length + data.length });
+        text += data;
+      }
+
+      segmentation = this.lastSegmentation = {
+        run: entries,
+        // graphemeSegmenter is necessarily defined if we get here.
+        // tslint:disable-next-line:no-non-null-assertion
+        boundaries: segmentBoundaries(this.graphemeSegmenter!, text),
+      };
+    }
+
+    const { run, boundaries } = segmentation;
+
+    return { run, start: run[nodes.indexOf(node)].start, boundaries };
+  }
+
+  /**
+   * Produce the text that can be reached by moving from a starting point. The
+   * text is produced in chunks, one per text node or visible attribute, and one
+   * for each block boundary crossed.
+   *
+   * @param start The location from which to start.
+   *
+   * @param forward Whether to move forward or backwards.
+   *
+   * @returns The chunks, in the order in which they are encountered. This is
+   * reverse document order when moving backwards.
+   */
+  private *textChunks(start: DOMLoc<N>,
+                      forward: boolean): IterableIterator<TextChunk<N>> {
+    const { adapter } = this;
+    let loc: DOMLoc<N> | null = this.escapeIrrelevantNode(start);
+    while (loc !== null) {
+      const { node, offset } = loc;
+      if (isText(adapter, node) || isAttr(adapter, node)) {
+        const { length } = adapter.textOf(node);
+        if (forward) {
+          const end = node === this.max.node ?
+            Math.min(this.max.offset, length) : length;
+          yield { node, start: offset, end };
+          if (end < length) {
+            return;
+          }
+          loc = loc.newIfDifferent(node, end);
+        }
+        else {
+          const chunkStart = node === this.min.node ? this.min.offset : 0;
+          yield { node, start: chunkStart, end: offset };
+          if (chunkStart > 0) {
+            return;
+          }
+          loc = loc.newIfDifferent(node, 0);
+        }
+      }
+
+      const nextLoc: DOMLoc<N> | null =
+        forward ? this.next(loc) : this.previous(loc);
+      if (nextLoc !== null && this.crossesBlockBoundary(loc, nextLoc)) {
+        yield SEPARATOR_CHUNK;
+      }
+      loc = nextLoc;
+    }
+  }
+
+  /**
+   * Compute the location at the end of the next word.
+   *
+   * @param start The location from which to start. If it is inside a word, the
+   * location produced is the end of that word.
+   *
+   * @returns The location just after the last character of the next word, or
+   * ``null`` if there is no word between ``start`` and the end of the space.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  nextWord(start: DOMLoc<N>): DOMLoc<N> | null {
+    const chunks: TextChunk<N>[] = [];
+    // Segmenting the text anew for each chunk would take quadratic time when
+    // words are separated by many small nodes. So we segment only when the
+    // number of chunks has doubled, which takes linear time overall.
+    let checkAt = 1;
+    for (const chunk of this.textChunks(start, true)) {
+      if (chunks.push(chunk) === checkAt) {
+        checkAt *= 2;
+        const found = this.findWordEnd(chunks, false);
+        if (found !== null) {
+          return found;
+        }
+      }
+    }
+
+    return this.findWordEnd(chunks, true);
+  }
+
+  /**
+   * Compute the location at the start of the previous word.
+   *
+   * @param start The location from which to start. If it is inside a word, the
+   * location produced is the start of that word.
+   *
+   * @returns The location just before the first character of the previous
+   * word, or ``null`` if there is no word between the start of the space and
+   * ``start``.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  previousWord(start: DOMLoc<N>): DOMLoc<N> | null {
+    // The chunks are in reverse document order. (See [[nextWord]] for why we
+    // do not segment for each chunk.)
+    const chunks: TextChunk<N>[] = [];
+    let checkAt = 1;
+    for (const chunk of this.textChunks(start, false)) {
+      if (chunks.push(chunk) === checkAt) {
+        checkAt *= 2;
+        const found = this.findWordStart(chunks.slice().reverse(), false);
+        if (found !== null) {
+          return found;
+        }
+      }
+    }
+
+    return this.findWordStart(chunks.reverse(), true);
+  }
+
+  /**
+   * Find the end of the first word in a sequence of chunks.
+   *
+   * @param chunks The chunks in which to search.
+   *
+   * @param complete Whether the chunks are all the chunks there are. If not, a
+   * word that ends at the end of the last chunk does not count, because it may
+   * continue into the next chunk.
+   *
+   * @returns The location at the end of the word, or ``null`` if there is no
+   * word.
+   */
+  private findWordEnd(chunks: TextChunk<N>[],
+                      complete: boolean): DOMLoc<N> | null {
+    const text = new ChunkedText(chunks, this.adapter);
+    for (const { segment, index, isWordLike } of
+         this.wordSegmenter(text.text)) {
+      const end = index + segment.length;
+      if (isWordLike === true && (complete || end < text.text.length)) {
+        return text.locationOf(end, false);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the start of the last word in a sequence of chunks.
+   *
+   * @param chunks The chunks in which to search.
+   *
+   * @param complete Whether the chunks are all the chunks there are. If not, a
+   * word that starts at the start of the first chunk does not count, because
+   * it may continue into the previous chunk.
+   *
+   * @returns The location at the start of the word, or ``null`` if there is no
+   * word.
+   */
+  private findWordStart(chunks: TextChunk<N>[],
+                        complete: boolean): DOMLoc<N> | null {
+    const text = new ChunkedText(chunks, this.adapter);
+    let found: number | undefined;
+    for (const { index, isWordLike } of this.wordSegmenter(text.text)) {
+      if (isWordLike === true && (complete || index > 0)) {
+        found = index;
+      }
+    }
+
+    return found === undefined ? null : text.locationOf(found, true);
+  }
+
+  /**
+   * Determine whether a node is a block, according to
+   * [[DOMSpaceOptions.blockTest]].
+   *
+   * @param node The node to test.
+   *
+   * @returns Whether the node is a block element.
+   */
+  isBlock(node: N): boolean {
+    const { blockTest } = this.options;
+    const { adapter } = this;
+
+    return adapter.nodeTypeOf(node) === ELEMENT_NODE &&
+      (blockTest !== undefined ? blockTest(node) : isHtmlBlock(adapter, node));
+  }
+
+  /**
+   * Determine whether moving from one location to another, adjacent, location
+   * enters or exits a block.
+   *
+   * @param from The location we move from.
+   *
+   * @param to The location we move to.
+   *
+   * @returns Whether the movement crosses a block boundary.
+   */
+  private crossesBlockBoundary(from: DOMLoc<N>, to: DOMLoc<N>): boolean {
+    return this.blockCrossing(from, to) !== undefined;
+  }
+
+  /**
+   * Determine how moving forward from one location to the next location
+   * crosses a block boundary.
+   *
+   * @param from The earlier location.
+   *
+   * @param to The later location. It must be adjacent to ``from``.
+   *
+   * @returns ``"enter"`` if the movement enters a block, ``"exit"`` if it exits
+   * a block, and ``undefined`` if it does not cross a block boundary.
+   */
+  private blockCrossing(from: DOMLoc<N>, to: DOMLoc<N>): "enter" | "exit" |
+    undefined {
+    // Visible attributes are inside their element, for our purposes.
+    const { adapter } = this;
+    const fromNode = adapter.ownerOf(from.node) ?? from.node;
+    const toNode = adapter.ownerOf(to.node) ?? to.node;
+    if (this.parentOf(toNode) === fromNode) {
+      return this.isBlock(toNode) ? "enter" : undefined;
+    }
+
+    if (this.parentOf(fromNode) === toNode) {
+      return this.isBlock(fromNode) ? "exit" : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Compute the start of the paragraph that contains a location. Paragraphs are
+   * delimited by the boundaries of blocks. (See
+   * [[DOMSpaceOptions.blockTest]].)
+   *
+   * @param start The location from which to start.
+   *
+   * @returns The earliest location that can be reached from ``start`` without
+   * crossing a block boundary or leaving the space. This may be ``start``
+   * itself (escaped and normalized).
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  paragraphStart(start: DOMLoc<N>): DOMLoc<N> {
+    let current = this.escapeIrrelevantNode(start);
+    for (;;) {
+      const previous = this.previous(current);
+      if (previous === null || this.crossesBlockBoundary(current, previous)) {
+        return current;
+      }
+      current = previous;
+    }
+  }
+
+  /**
+   * Compute the end of the paragraph that contains a location. Paragraphs are
+   * delimited by the boundaries of blocks. (See
+   * [[DOMSpaceOptions.blockTest]].)
+   *
+   * @param start The location from which to start.
+   *
+   * @returns The latest location that can be reached from ``start`` without
+   * crossing a block boundary or leaving the space. This may be ``start``
+   * itself (escaped and normalized).
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  paragraphEnd(start: DOMLoc<N>): DOMLoc<N> {
+    let current = this.escapeIrrelevantNode(start);
+    for (;;) {
+      const next = this.next(current);
+      if (next === null || this.crossesBlockBoundary(current, next)) {
+        return current;
+      }
+      current = next;
+    }
+  }
+
+  /**
+   * Find the sentence that contains a location.
+   *
+   * @param start The location whose sentence we want.
+   *
+   * @returns The text of the paragraph that contains ``start``, and the
+   * sentence in that text that contains ``start``. The sentence is
+   * ``undefined`` if the paragraph contains no text.
+   */
+  private findSentence(start: DOMLoc<N>): {
+    text: ChunkedText<N>;
+    sentence: Segment | undefined;
+  } {
+    const chunks: TextChunk<N>[] = [];
+    for (const chunk of this.textChunks(this.paragraphStart(start), true)) {
+      if (chunk.node === null) {
+        break;
+      }
+      chunks.push(chunk);
+    }
+
+    const text = new ChunkedText(chunks, this.adapter);
+    const offset = text.offsetOf(this.escapeIrrelevantNode(start));
+    let sentence: Segment | undefined;
+    for (const segment of this.sentenceSegmenter(text.text)) {
+      sentence = segment;
+      if (offset < segment.index + segment.segment.length) {
+        break;
+      }
+    }
+
+    return { text, sentence };
+  }
+
+  /**
+   * Compute the start of the sentence that contains a location. Sentences do
+   * not span paragraphs.
+   *
+   * @param start The location from which to start.
+   *
+   * @returns The location just before the first character of the sentence that
+   * contains ``start``. If the paragraph that contains ``start`` has no text,
+   * the start of the paragraph.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  sentenceStart(start: DOMLoc<N>): DOMLoc<N> {
+    const { text, sentence } = this.findSentence(start);
+
+    return sentence === undefined ? this.paragraphStart(start) :
+      text.locationOf(sentence.index, true);
+  }
+
+  /**
+   * Compute the end of the sentence that contains a location. Sentences do not
+   * span paragraphs. The spaces that follow a sentence are not considered to be
+   * part of it.
+   *
+   * @param start The location from which to start.
+   *
+   * @returns The location just after the last character of the sentence that
+   * contains ``start``. If the paragraph that contains ``start`` has no text,
+   * the end of the paragraph.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  sentenceEnd(start: DOMLoc<N>): DOMLoc<N> {
+    const { text, sentence } = this.findSentence(start);
+    if (sentence === undefined) {
+      return this.paragraphEnd(start);
+    }
+
+    const { index, segment } = sentence;
+    const trimmed = segment.replace(/\s+$/, "");
+
+    return trimmed.length === 0 ? text.locationOf(index, true) :
+      text.locationOf(index + trimmed.length, false);
+  }
+
+  /**
+   * The segmenter to use for finding sentences. We create it only when
+   * needed.
+   */
+  private get sentenceSegmenter(): Segmenter {
+    let segmenter = this._sentenceSegmenter;
+    if (segmenter === undefined) {
+      segmenter = this._sentenceSegmenter = this.options.sentenceSegmenter ??
+        makeIntlSegmenter("sentence") ?? simpleSentenceSegmenter;
+    }
+
+    return segmenter;
+  }
+
+  /**
+   * The segmenter to use for moving by words. We create it only when needed.
+   */
+  private get wordSegmenter(): Segmenter {
+    let segmenter = this._wordSegmenter;
+    if (segmenter === undefined) {
+      segmenter = this._wordSegmenter = this.options.wordSegmenter ??
+        makeIntlSegmenter("word") ?? simpleWordSegmenter;
+    }
+
+    return segmenter;
+  }
+
+  /**
+   * Get a map between the locations of this space and offsets in its text. The
+   * map is built the first time it is requested with a given set of options,
+   * and is reused until the tree changes, as the ordinal index is. (See
+   * [[indexOf]].) A map that was returned earlier does not reflect changes
+   * made to the tree after it was built.
+   *
+   * @param options Options that determine how to produce the text.
+   *
+   * @returns The map.
+   */
+  textMap(options: TextMapOptions = {}): TextMap<N> {
+    this.checkTree();
+    const { blockSeparator = "" } = options;
+    let map = this.textMaps.get(blockSeparator);
+    if (map === undefined) {
+      map = new TextMap(this, { blockSeparator });
+      this.textMaps.set(blockSeparator, map);
+      this.observeShadowTrees();
+    }
+
+    return map;
+  }
+
+  /**
+   * Search the text of this space. The text searched is the text of the
+   * [[TextMap]] that [[textMap]] returns when block boundaries are represented
+   * by a newline. So matches may span nodes, like "little" in ``I am a
+   * <b>lit</b>tle teapot``, but span blocks only if the query matches a
+   * newline. The text of irrelevant nodes is skipped.
+   *
+   * @param query The text or regular expression to search for.
+   *
+   * @param options Options that determine where and how to search.
+   *
+   * @returns An iterable iterator over the matches, in the order in which they
+   * are found: document order when searching forward, reverse document order
+   * when searching backward. The matches do not overlap.
+   *
+   * @throws {DOMSpaceScopeError} If ``options.from`` is not within the space.
+   */
+  search(query: string | RegExp,
+         options: SearchOptions<N> = {}): IterableIterator<DOMRange<N>> {
+    const { from, backward = false, caseInsensitive = false } = options;
+    const map = this.textMap({ blockSeparator: BLOCK_SEPARATOR });
+    const fromOffset = from !== undefined ? map.offsetOf(from) :
+      backward ? map.text.length : 0;
+
+    let flags = query instanceof RegExp ? query.flags.replace(/[gy]/g, "") : "";
+    if (caseInsensitive && !flags.includes("i")) {
+      flags += "i";
+    }
+    const re = new RegExp(query instanceof RegExp ? query.source :
+                          escapeRegExp(query), `${flags}g`);
+
+    return this.matchesOf(map, re, fromOffset, backward);
+  }
+
+  /**
+   * Iterate over the matches of a search. (See [[search]].)
+   *
+   * @param map The map of the text to search.
+   *
+   * @param re The expression to search for. It must have the ``g`` flag.
+   *
+   * @param fromOffset The offset in the text where to start searching.
+   *
+   * @param backward Whether to search backward.
+   *
+   * @returns An iterable iterator over the matches.
+   */
+  private *matchesOf(map: TextMap<N>, re: RegExp, fromOffset: number,
+                     backward: boolean): IterableIterator<DOMRange<N>> {
+    const { text } = map;
+    const toRange = ({ index, 0: { length } }: RegExpExecArray) => {
+      const start = map.locationAt(index, true);
+
+      return length === 0 ? new DOMRange(start, start) :
+        new DOMRange(start, map.locationAt(index + length, false));
+    };
+
+    re.lastIndex = backward ? 0 : fromOffset;
+    const matches: RegExpExecArray[] = [];
+    let match: RegExpExecArray | null;
+    // tslint:disable-next-line:no-conditional-assignment
+    while ((match = re.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        // Avoid matching the empty string at the same position forever. With
+        // the u flag, we must not stop in the middle of a surrogate pair.
+        const codePoint = text.codePointAt(re.lastIndex);
+        re.lastIndex += re.unicode && codePoint !== undefined &&
+          codePoint > 0xFFFF ? 2 : 1;
+      }
+
+      if (!backward) {
+        yield toRange(match);
+      }
+      else if (match.index + match[0].length <= fromOffset) {
+        matches.push(match);
+      }
+      else {
+        break;
+      }
+    }
+
+    for (const found of matches.reverse()) {
+      yield toRange(found);
+    }
+  }
+
+  /**
+   * Determine whether moving between two adjacent locations passes over
+   * visible text. Moving over an atomic element counts as passing over text.
+   *
+   * @param from The earlier location.
+   *
+   * @param to The later location. It must be adjacent to ``from``.
+   *
+   * @returns Whether the movement passes over text that is rendered.
+   */
+  private consumesText(from: DOMLoc<N>, to: DOMLoc<N>): boolean {
+    const { node } = from;
+    const { adapter } = this;
+    if (isAttr(adapter, node) || isAttr(adapter, to.node)) {
+      return node === to.node && from.offset !== to.offset;
+    }
+
+    if (node === to.node && !isCharacterData(adapter, node)) {
+      const pointedNode = this.pointedNodeOf(from);
+
+      return to.offset === from.offset + 1 && pointedNode !== null &&
+        this.isRelevant(pointedNode) && this.isAtomic(pointedNode);
+    }
+
+    if (!isText(adapter, node) || !isText(adapter, to.node)) {
+      return false;
+    }
+
+    // Adjacent locations in different text nodes happen only when we jump
+    // over a grapheme cluster that spans text nodes.
+    if (node !== to.node) {
+      return true;
+    }
+
+    const collapsed = this.collapsedCharacters(node);
+    if (collapsed === undefined) {
+      return from.offset !== to.offset;
+    }
+
+    for (let ix = from.offset; ix < to.offset; ++ix) {
+      if (!collapsed[ix]) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Determine whether moving between two adjacent locations moves the caret
+   * visibly.
+   *
+   * Moving over visible text is visible. Otherwise, what matters are block
+   * boundaries. A run of movements that do not pass over text, and which lies
+   * between two pieces of text, moves the caret visibly once, if it crosses
+   * at least one block boundary: ``ab</p><p>cd`` has two block crossings but
+   * the caret moves only by one line. The crossing that counts is the first
+   * entry into a block in the run or, if there is no entry, the first exit. A
+   * run that reaches the start or end of the space never moves the caret
+   * visibly.
+   *
+   * @param from The earlier location.
+   *
+   * @param to The later location. It must be adjacent to ``from``.
+   *
+   * @returns Whether the movement is visible.
+   */
+  private isVisibleStep(from: DOMLoc<N>, to: DOMLoc<N>): boolean {
+    if (this.consumesText(from, to)) {
+      return true;
+    }
+
+    if (this.blockCrossing(from, to) === undefined) {
+      return false;
+    }
+
+    // Find the start of the run of movements that do not pass over text.
+    let current = from;
+    for (;;) {
+      const previous = this.previous(current);
+      if (previous === null) {
+        return false;
+      }
+
+      if (this.consumesText(previous, current)) {
+        break;
+      }
+      current = previous;
+    }
+
+    // Find the crossing that counts.
+    let firstEntry: DOMLoc<N> | undefined;
+    let firstExit: DOMLoc<N> | undefined;
+    for (;;) {
+      const next = this.next(current);
+      if (next === null) {
+        return false;
+      }
+
+      if (this.consumesText(current, next)) {
+        break;
+      }
+
+      const crossing = this.blockCrossing(current, next);
+      if (crossing === "enter" && firstEntry === undefined) {
+        firstEntry = current;
+      }
+      else if (crossing === "exit" && firstExit === undefined) {
+        firstExit = current;
+      }
+      current = next;
+    }
+
+    return from.equals(firstEntry ?? firstExit);
+  }
+
+  /**
+   * Find all the locations that are equivalent to a location. Two locations
+   * are equivalent if they render at the same caret position. For instance, in
+   * ``<p>I am a <b>little</b> teapot.</p>``, the locations ``(p, 1)``,
+   * ``(p.childNodes[0], 7)``, ``(b, 0)`` and ``(b.childNodes[0], 0)`` are
+   * equivalent.
+   *
+   * Equivalence is determined by the locations this space produces: the
+   * relevance tests, the movement by grapheme clusters, the collapsing of
+   * whitespace and the block test all have an effect.
+   *
+   * @param loc The location whose equivalents we want.
+   *
+   * @returns The locations equivalent to ``loc``, ``loc`` included (escaped and
+   * normalized), in document order.
+   *
+   * @throws {DOMSpaceScopeError} If ``loc`` is not within the space.
+   */
+  equivalents(loc: DOMLoc<N>): DOMLoc<N>[] {
+    const start = this.escapeIrrelevantNode(loc);
+    const before: DOMLoc<N>[] = [];
+    let current = start;
+    for (;;) {
+      const previous = this.previous(current);
+      if (previous === null || this.isVisibleStep(previous, current)) {
+        break;
+      }
+      before.push(previous);
+      current = previous;
+    }
+
+    const ret = before.reverse();
+    ret.push(start);
+    current = start;
+    for (;;) {
+      const next = this.next(current);
+      if (next === null || this.isVisibleStep(current, next)) {
+        break;
+      }
+      ret.push(next);
+      current = next;
+    }
+
+    return ret;
+  }
+
+  /**
+   * Find the canonical location among the locations equivalent to a
+   * location. (See [[equivalents]].)
+   *
+   * @param loc The location whose canonical equivalent we want.
+   *
+   * @param preference How to choose the canonical location.
+   *
+   * @returns The canonical location.
+   *
+   * @throws {DOMSpaceScopeError} If ``loc`` is not within the space.
+   */
+  canonical(loc: DOMLoc<N>,
+            preference: CanonicalPreference = "deepestText"): DOMLoc<N> {
+    const equivalents = this.equivalents(loc);
+    switch (preference) {
+      case "first":
+        return equivalents[0];
+      case "last":
+        return equivalents[equivalents.length - 1];
+      case "deepestText":
+        const { adapter } = this;
+        let best = equivalents[0];
+        let bestIsText = isText(adapter, best.node);
+        let bestDepth = depthOf(adapter, best.node);
+        for (const candidate of equivalents.slice(1)) {
+          const candidateIsText = isText(adapter, candidate.node);
+          const depth = depthOf(adapter, candidate.node);
+          if ((candidateIsText && !bestIsText) ||
+              (candidateIsText === bestIsText && depth > bestDepth)) {
+            best = candidate;
+            bestIsText = candidateIsText;
+            bestDepth = depth;
+          }
+        }
+
+        return best;
+      default:
+        throw new Error(`unknown preference: ${preference}`);
+    }
+  }
+
+  /**
+   * Compute the next location that is visually distinct from a location.
+   *
+   * @param start The location from which to start.
+   *
+   * @param preference How to choose the location to return among the
+   * equivalent locations. (See [[canonical]].)
+   *
+   * @returns The canonical location of the next set of equivalent locations,
+   * or ``null`` if there is no such set.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  nextDistinct(start: DOMLoc<N>,
+               preference: CanonicalPreference = "deepestText"):
+  DOMLoc<N> | null {
+    let current = this.escapeIrrelevantNode(start);
+    for (;;) {
+      const next = this.next(current);
+      if (next === null) {
+        return null;
+      }
+
+      if (this.isVisibleStep(current, next)) {
+        return this.canonical(next, preference);
+      }
+      current = next;
+    }
+  }
+
+  /**
+   * Compute the previous location that is visually distinct from a location.
+   *
+   * @param start The location from which to start.
+   *
+   * @param preference How to choose the location to return among the
+   * equivalent locations. (See [[canonical]].)
+   *
+   * @returns The canonical location of the previous set of equivalent
+   * locations, or ``null`` if there is no such set.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  previousDistinct(start: DOMLoc<N>,
+                   preference: CanonicalPreference = "deepestText"):
+  DOMLoc<N> | null {
+    let current = this.escapeIrrelevantNode(start);
+    for (;;) {
+      const previous = this.previous(current);
+      if (previous === null) {
+        return null;
+      }
+
+      if (this.isVisibleStep(previous, current)) {
+        return this.canonical(previous, preference);
+      }
+      current = previous;
+    }
+  }
+
+  /**
+   * Produce an iterable iterator that iterates in document order over the
+   * visually distinct locations of this space. Each set of equivalent
+   * locations is represented by its canonical location.
+   *
+   * @param preference How to choose the canonical locations.
+   */
+  *distinct(preference: CanonicalPreference = "deepestText"):
+  IterableIterator<DOMLoc<N>> {
+    let current: DOMLoc<N> | null = this.canonical(this.min, preference);
+    do {
+      yield current;
+      current = this.nextDistinct(current, preference);
+    } while (current !== null);
+  }
+
+  /**
+   * Produce an iterable iterator that iterates in reverse document order over
+   * the visually distinct locations of this space. Each set of equivalent
+   * locations is represented by its canonical location.
+   *
+   * @param preference How to choose the canonical locations.
+   */
+  *reversedDistinct(preference: CanonicalPreference = "deepestText"):
+  IterableIterator<DOMLoc<N>> {
+    let current: DOMLoc<N> | null = this.canonical(this.max, preference);
+    do {
+      yield current;
+      current = this.previousDistinct(current, preference);
+    } while (current !== null);
+  }
+
+  /**
+   * Create a cursor that moves through this space.
+   *
+   * @param start The location at which the cursor starts.
+   *
+   * @returns The cursor.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  cursor(start: DOMLoc<N> = this.min): DOMCursor<N> {
+    return new DOMCursor(this, start);
+  }
+
+  /**
+   * Produce an iterable iterator that iterates in document order, moving with
+   * [[nextShallow]].
+   *
+   * @param start The location from which to start.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  *shallow(start: DOMLoc<N> = this.min): IterableIterator<DOMLoc<N>> {
+    let current: DOMLoc<N> | null = this.escapeIrrelevantNode(start);
+    do {
+      yield current;
+      current = this.nextShallow(current);
+    } while (current !== null);
+  }
+
+  /**
+   * Produce an iterable iterator that iterates in reverse document order,
+   * moving with [[previousShallow]].
+   *
+   * @param start The location from which to start.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  *reversedShallow(start: DOMLoc<N> = this.max): IterableIterator<DOMLoc<N>> {
+    let current: DOMLoc<N> | null = this.escapeIrrelevantNode(start);
+    do {
+      yield current;
+      current = this.previousShallow(current);
+    } while (current !== null);
+  }
+
+  /**
+   * Stop observing the tree. A space observes the DOM tree under its root with
+   * a ``MutationObserver`` once it has built its ordinal index or a text map,
+   * and from its creation if [[DOMSpaceOptions.relevanceCache]] is
+   * ``"observe"``. The observer keeps the space alive as long as the tree is
+   * alive, so call this method when you are done with the space. It also
+   * forgets the ordinal index, the text maps and, if the relevance cache was
+   * observed, the cached relevance. The space remains usable, but using the
+   * ordinal index or a text map again observes the tree again, while the
+   * relevance cache is no longer observed: it is kept until
+   * [[invalidateRelevance]] is called, as with ``"manual"``. (See [[indexOf]]
+   * and [[textMap]].)
+   */
+  disconnect(): void {
+    this.treeObserver?.disconnect();
+    this.treeObserver = undefined;
+    this.forgetTreeIndexes();
+    const cache = this.relevanceCache;
+    if (cache?.observer !== undefined) {
+      cache.observer.disconnect();
+      cache.observer = undefined;
+      this.clearRelevanceCache();
+    }
+  }
+
+  /**
+   * Forget the ordinal index and the text maps of this space, so that they are
+   * rebuilt when they are next used. The space detects the changes to DOM
+   * trees by itself, but not the changes to other trees: call this method
+   * after changing a tree that is not a DOM tree. (See [[indexOf]] and
+   * [[textMap]].)
+   */
+  invalidateIndex(): void {
+    this.forgetTreeIndexes();
+  }
+
+  /**
+   * Forget the ordinal index and the text maps of this space.
+   */
+  private forgetTreeIndexes(): void {
+    this.locationIndex = undefined;
+    this.textMaps.clear();
+  }
+
+  /**
+   * Forget the ordinal index and the text maps of this space if the tree may
+   * have changed since they were built, and observe the tree if it is a DOM
+   * tree that is not observed yet. When the DOM implementation provides no
+   * ``MutationObserver``, they are forgotten every time. Those of a tree that
+   * is not a DOM tree are kept until [[invalidateIndex]] is called.
+   */
+  private checkTree(): void {
+    const { treeObserver } = this;
+    if (treeObserver !== undefined) {
+      if (treeObserver.takeRecords().length !== 0) {
+        this.forgetTreeIndexes();
+      }
+      return;
+    }
+
+    if (this.adapter !== domAdapter<N>()) {
+      return;
+    }
+
+    // The tree may have changed since we stopped observing it, if we ever did.
+    this.forgetTreeIndexes();
+    const { observerClass } = this;
+    if (observerClass !== undefined) {
+      this.treeObserver = new observerClass(() => {
+        this.forgetTreeIndexes();
+      });
+      // There is an observer only for DOM trees.
+      this.observeTree(this.root as unknown as Node);
+    }
+  }
+
+  /**
+   * Make the observer of [[checkTree]] observe a tree.
+   *
+   * @param target The root of the tree to observe.
+   */
+  private observeTree(target: Node): void {
+    this.treeObserver?.observe(target, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+    });
+  }
+
+  /**
+   * Make the observer of [[checkTree]] observe the shadow trees in the space,
+   * when the space is composed. Observing the root does not observe the shadow
+   * trees under it.
+   */
+  private observeShadowTrees(): void {
+    if (this.treeObserver === undefined || this.options.composed !== true) {
+      return;
+    }
+
+    const pending: N[] = [this.root];
+    while (pending.length !== 0) {
+      // tslint:disable-next-line:no-non-null-assertion
+      const current = pending.pop()!;
+      const { shadowRoot } = current as unknown as Element;
+      if (shadowRoot != null) {
+        this.observeTree(shadowRoot);
+      }
+      pending.push(...Array.from(this.childNodesOf(current)));
+    }
+  }
+
+  /**
+   * Get the ordinal index of the locations of this space, building it if it
+   * does not exist or if the tree changed since it was built. (See
+   * [[checkTree]].)
+   *
+   * @returns The index.
+   */
+  private getLocationIndex(): LocationIndex<N> {
+    this.checkTree();
+    const { locationIndex } = this;
+    if (locationIndex !== undefined) {
+      return locationIndex;
+    }
+
+    const locations: DOMLoc<N>[] = [];
+    const ordinals = new Map<N, Map<number, number>>();
+    for (const loc of this) {
+      const { node } = loc;
+      let offsets = ordinals.get(node);
+      if (offsets === undefined) {
+        offsets = new Map();
+        ordinals.set(node, offsets);
+        // Observing the root does not observe the shadow trees under it.
+        const { shadowRoot } = node as unknown as Element;
+        if (this.options.composed === true && shadowRoot != null) {
+          this.observeTree(shadowRoot);
+        }
+      }
+      offsets.set(loc.offset, locations.length);
+      locations.push(loc);
+    }
+
+    return this.locationIndex = { locations, ordinals };
+  }
+
+  /**
+   * Get the ordinal index of a location that must be one that this space
+   * produces.
+   *
+   * @param loc The location.
+   *
+   * @returns The index.
+   *
+   * @throws {DOMSpaceScopeError} If ``loc`` is not within the space.
+   *
+   * @throws {Error} If ``loc`` is not a location that this space produces.
+   */
+  private requireIndexOf(loc: DOMLoc<N>): number {
+    const index = this.indexOf(loc);
+    if (index === -1) {
+      throw new Error("location is not one that the space produces");
+    }
+
+    return index;
+  }
+
+  /**
+   * Compute the ordinal index of a location: its position in the sequence of
+   * locations that iterating over this space produces. The location is first
+   * escaped. (See [[escapeIrrelevantNode]].)
+   *
+   * The index is computed from a table of all the locations of the space,
+   * which is built on the first call and rebuilt only when the DOM tree under
+   * [[root]] changes. The table does not track changes to the state on which
+   * the tests passed to this space depend, apart from the DOM tree. The space
+   * observes the DOM tree to detect changes, until [[disconnect]] is called.
+   * If the DOM implementation provides no ``MutationObserver``, the table is
+   * rebuilt on every call. If the tree is not a DOM tree, the space cannot
+   * detect changes, and the table is rebuilt only after [[invalidateIndex]]
+   * is called.
+   *
+   * @param loc The location.
+   *
+   * @returns The index, or -1 if the location is not one that this space
+   * produces. For instance, a location in the middle of a grapheme cluster,
+   * when moving by graphemes.
+   *
+   * @throws {DOMSpaceScopeError} If ``loc`` is not within the space.
+   */
+  indexOf(loc: DOMLoc<N>): number {
+    const { node, offset } = this.escapeIrrelevantNode(loc);
+    const offsets = this.getLocationIndex().ordinals.get(node);
+    const index = offsets === undefined ? undefined : offsets.get(offset);
+
+    return index === undefined ? -1 : index;
+  }
+
+  /**
+   * Get the location that has a specific ordinal index. This is the inverse
+   * of [[indexOf]].
+   *
+   * @param index The index.
+   *
+   * @returns The location.
+   *
+   * @throws {RangeError} If there is no location with this index.
+   */
+  locationAt(index: number): DOMLoc<N> {
+    const { locations } = this.getLocationIndex();
+    if (!Number.isInteger(index) || index < 0 || index >= locations.length) {
+      throw new RangeError(`there is no location at index ${index}`);
+    }
+
+    return locations[index];
+  }
+
+  /**
+   * Compute the number of steps between two locations, where a step is a call
+   * to [[next]]. Both locations are first escaped.
+   *
+   * @param from The location from which to count.
+   *
+   * @param to The location to which to count.
+   *
+   * @returns The number of steps. It is negative if ``to`` is before ``from``.
+   *
+   * @throws {DOMSpaceScopeError} If either location is not within the space.
+   *
+   * @throws {Error} If either location is not one that this space produces.
+   */
+  distance(from: DOMLoc<N>, to: DOMLoc<N>): number {
+    return this.requireIndexOf(to) - this.requireIndexOf(from);
+  }
+
+  /**
+   * Move by a number of steps. This produces the same location as calling
+   * [[next]] ``n`` times, or [[previous]] ``-n`` times if ``n`` is negative.
+   *
+   * @param start The location from which to start. It is first escaped.
+   *
+   * @param n The number of steps. It must be an integer.
+   *
+   * @returns The location reached, or ``null`` if moving by ``n`` steps would
+   * go beyond the bounds of the space.
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   *
+   * @throws {Error} If ``start`` is not one that this space produces.
+   *
+   * @throws {RangeError} If ``n`` is not an integer.
+   */
+  advance(start: DOMLoc<N>, n: number): DOMLoc<N> | null {
+    if (!Number.isInteger(n)) {
+      throw new RangeError(`${n} is not an integer`);
+    }
+
+    const target = this.requireIndexOf(start) + n;
+    const { locations } = this.getLocationIndex();
+
+    return target >= 0 && target < locations.length ? locations[target] :
+      null;
+  }
+
+  /**
+   * Produce an iterable iterator that iterates in document order.
+   */
+  *[Symbol.iterator](): IterableIterator<DOMLoc<N>> {
+    // We start with min as it is, though the cursor escapes and normalizes it.
+    yield this.min;
+    const cursor = this.cursor(this.min);
+    let current = cursor.moveNext();
+    while (current !== null) {
+      yield current;
+      current = cursor.moveNext();
+    }
+  }
+
+  /**
+   * Produce an iterable iterator that iterates in reverse document order.
+   */
+  *reversed(): IterableIterator<DOMLoc<N>> {
+    // As when iterating forward, we start with max as it is.
+    yield this.max;
+    const cursor = this.cursor(this.max);
+    let current = cursor.movePrevious();
+    while (current !== null) {
+      yield current;
+      current = cursor.movePrevious();
+    }
+  }
+}
+
+/**
+ * Make a map from the ancestors of a node to the index of the child through
+ * which the node descends from each ancestor. An attribute descends from its
+ * owner element through the index -1, since its locations come before those of
+ * the element's content.
+ *
+ * @param node The node whose ancestors we want.
+ *
+ * @param space The space that determines the parents and children of nodes.
+ *
+ * @returns The map.
+ */
+function makeAncestorMap<N>(node: N, space: DOMSpace<N>): Map<N, number> {
+  const map = new Map<N, number>();
+  const owner = space.adapter.ownerOf(node);
+  if (owner !== null) {
+    node = owner;
+    map.set(node, -1);
+  }
+
+  let child = node;
+  for (let parent = space.parentOf(node); parent !== null;
+       parent = space.parentOf(parent)) {
+    map.set(parent, indexOf(space.childNodesOf(parent), child));
+    child = parent;
+  }
+
+  return map;
+}
+
+/**
+ * A cursor moves through the locations of a space, and produces the same
+ * locations as [[DOMSpace.next]] and [[DOMSpace.previous]]. While those methods
+ * examine the ancestors of the location from which they move, and compare the
+ * location they produce with the bounds of the space, a cursor keeps track of
+ * its ancestors and of its position relative to the bounds. So each movement
+ * takes constant time, amortized over a traversal.
+ *
+ * The cursor relies on the DOM tree not changing while it is used. If the tree
+ * changes, create a new cursor.
+ */
+export class DOMCursor<N = Node> {
+  /** The node of the current location. */
+  private node: N;
+
+  /** The offset of the current location. */
+  private offset: number;
+
+  /**
+   * For the node of the current location and each of its ancestors, the index
+   * of the node in its parent. The last element is for the node of the current
+   * location. Nodes without a parent have an index of -1. When the current
+   * location is in an attribute, the last element is for the attribute's owner
+   * element.
+   */
+  private readonly indexes: number[] = [];
+
+  /**
+   * The ancestors of the node of [[DOMSpace.min]]. (See [[makeAncestorMap]].)
+   */
+  private readonly minAncestors: Map<N, number>;
+
+  /**
+   * The ancestors of the node of [[DOMSpace.max]]. (See [[makeAncestorMap]].)
+   */
+  private readonly maxAncestors: Map<N, number>;
+
+  /**
+   * @param space The space in which the cursor moves.
+   *
+   * @param start The location at which the cursor starts. It is escaped and
+   * normalized. (See [[DOMSpace.escapeIrrelevantNode]].)
+   *
+   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   */
+  constructor(readonly space: DOMSpace<N>, start: DOMLoc<N>) {
+    ({ node: this.node, offset: this.offset } =
+     space.escapeIrrelevantNode(start));
+    const { indexes } = this;
+    for (let node: N | null = space.adapter.ownerOf(this.node) ?? this.node;
+         node !== null; node = space.parentOf(node)) {
+      const parentNode = space.parentOf(node);
+      indexes.unshift(parentNode === null ? -1 :
+                      indexOf(space.childNodesOf(parentNode), node));
+    }
+
+    this.minAncestors = makeAncestorMap(space.min.node, space);
+    this.maxAncestors = makeAncestorMap(space.max.node, space);
+  }
+
+  /**
+   * The current location of the cursor.
+   */
+  get location(): DOMLoc<N> {
+    return new DOMLoc(this.node, this.offset, this.space.adapter);
+  }
+
+  /**
+   * Move to the next location. The cursor does not move if there is no next
+   * location.
+   *
+   * @returns The new location, or ``null`` if there is no next location in the
+   * space.
+   */
+  moveNext(): DOMLoc<N> | null {
+    const { node, offset, space, indexes } = this;
+    const { adapter } = space;
+    const nodeType = adapter.nodeTypeOf(node);
+    switch (nodeType) {
+      case DOCUMENT_FRAGMENT_NODE:
+      case DOCUMENT_NODE:
+      case ELEMENT_NODE:
+        const pointedNode = space.childNodesOf(node)[offset];
+        if (pointedNode !== undefined) {
+          if (space.canEnter(pointedNode)) {
+            const [first] = space.visibleAttributesOf(pointedNode);
+            if (first !== undefined) {
+              // Attributes are rare enough that we let the space check the
+              // bounds.
+              if (!space.contains(new DOMLoc(first, 0, adapter))) {
+                return null;
+              }
+              indexes.push(offset);
+
+              return this.moveTo(first, 0);
+            }
+
+            const start = internalsOf(space).firstStopIn(pointedNode);
+            if (!this.notAfterMax(pointedNode, start, node, offset)) {
+              return null;
+            }
+            indexes.push(offset);
+
+            return this.moveTo(pointedNode, start);
+          }
+
+          return this.notAfterMax(node, offset + 1) ?
+            this.moveTo(node, offset + 1) : null;
+        }
+        break;
+      case TEXT_NODE:
+      case CDATA_SECTION_NODE:
+      case COMMENT_NODE:
+      case PROCESSING_INSTRUCTION_NODE:
+        const loc = space.nextInText(node, offset);
+        if (loc !== undefined) {
+          if (loc.node === node) {
+            return this.notAfterMax(node, loc.offset) ?
+              this.moveTo(node, loc.offset) : null;
+          }
+
+          // We moved to a following sibling.
+          let siblingIndex = indexes[indexes.length - 1];
+          for (let sibling: N | null = node; sibling !== loc.node;
+               // tslint:disable-next-line:no-non-null-assertion
+               sibling = space.nextSiblingOf(sibling!)) {
+            siblingIndex++;
+          }
+
+          // tslint:disable-next-line:no-non-null-assertion
+          if (!this.notAfterMax(loc.node, loc.offset, space.parentOf(node)!,
+                                siblingIndex)) {
+            return null;
+          }
+          indexes[indexes.length - 1] = siblingIndex;
+
+          return this.moveTo(loc.node, loc.offset);
+        }
+        break;
+      case ATTRIBUTE_NODE: {
+        // We stay in the owner element, whose index remains on top of the
+        // stack.
+        const next = space.next(this.location);
+        return next === null ? null : this.moveTo(next.node, next.offset);
+      }
+        /* istanbul ignore next: we cannot get there */
+      default:
+        // The cursor is always on a relevant node, so we cannot get here.
+        throw new Error(`internal error: unexpected type ${nodeType}`);
+    }
+
+    // We have to move to the sibling after our current node.
+    const parentNode = space.parentOf(node);
+    if (parentNode === null) {
+      return null;
+    }
+
+    const index = indexes[indexes.length - 1] + 1;
+    if (!this.notAfterMax(parentNode, index)) {
+      return null;
+    }
+    indexes.pop();
+
+    return this.moveTo(parentNode, index);
+  }
+
+  /**
+   * Move to the previous location. The cursor does not move if there is no
+   * previous location.
+   *
+   * @returns The new location, or ``null`` if there is no previous location in
+   * the space.
+   */
+  movePrevious(): DOMLoc<N> | null {
+    const { node, offset, space, indexes } = this;
+    const { adapter } = space;
+    const nodeType = adapter.nodeTypeOf(node);
+    switch (nodeType) {
+      case DOCUMENT_FRAGMENT_NODE:
+      case DOCUMENT_NODE:
+      case ELEMENT_NODE:
+        const pointedNode = space.childNodesOf(node)[offset - 1];
+        if (pointedNode !== undefined) {
+          if (space.canEnter(pointedNode)) {
+            const end = internalsOf(space).lastStopIn(pointedNode);
+            if (!this.notBeforeMin(pointedNode, end, node, offset - 1)) {
+              return null;
+            }
+            indexes.push(offset - 1);
+
+            return this.moveTo(pointedNode, end);
+          }
+
+          return this.notBeforeMin(node, offset - 1) ?
+            this.moveTo(node, offset - 1) : null;
+        }
 
-    switch (node.nodeType) {
-      case Node.DOCUMENT_NODE:
-      case Node.DOCUMENT_FRAGMENT_NODE:
-      case Node.ELEMENT_NODE: {
-        const { childNodes: { length } } = node;
+        if (offset === 0) {
+          const attrs = space.visibleAttributesOf(node);
+          const last = attrs[attrs.length - 1];
+          if (last !== undefined) {
+            const end = new DOMLoc(last, adapter.textOf(last).length, adapter);
+            return space.contains(end) ? this.moveTo(last, end.offset) : null;
+          }
+        }
+        break;
+      case TEXT_NODE:
+      case CDATA_SECTION_NODE:
+      case COMMENT_NODE:
+      case PROCESSING_INSTRUCTION_NODE:
+        const loc = space.previousInText(node, offset);
+        if (loc !== undefined) {
+          if (loc.node === node) {
+            return this.notBeforeMin(node, loc.offset) ?
+              this.moveTo(node, loc.offset) : null;
+          }
 
-        return offset > length ? length : offset;
-      }
-      case Node.TEXT_NODE: {
-        const { length } = node as Text;
+          // We moved to a preceding sibling.
+          let siblingIndex = indexes[indexes.length - 1];
+          for (let sibling: N | null = node; sibling !== loc.node;
+               // tslint:disable-next-line:no-non-null-assertion
+               sibling = space.previousSiblingOf(sibling!)) {
+            siblingIndex--;
+          }
 
-        return offset > length ? length : offset;
+          // tslint:disable-next-line:no-non-null-assertion
+          if (!this.notBeforeMin(loc.node, loc.offset, space.parentOf(node)!,
+                                 siblingIndex)) {
+            return null;
+          }
+          indexes[indexes.length - 1] = siblingIndex;
+
+          return this.moveTo(loc.node, loc.offset);
+        }
+        break;
+      case ATTRIBUTE_NODE: {
+        const previous = space.previous(this.location);
+        if (previous === null) {
+          return null;
+        }
+
+        if (!isAttr(adapter, previous.node)) {
+          // We left the owner element.
+          indexes.pop();
+        }
+
+        return this.moveTo(previous.node, previous.offset);
       }
+        /* istanbul ignore next: we cannot get there */
       default:
-        throw new Error(`cannot normalize offset in a node of type: \
-${node.nodeType}`);
+        // The cursor is always on a relevant node, so we cannot get here.
+        throw new Error(`internal error: unexpected type ${nodeType}`);
     }
-  }
 
-  /**
-   * ``true`` if the location is already normalized. ``false`` if not.
-   */
-  get isNormalized(): boolean {
-    return this.offset === this.normalizedOffset;
+    // We have to move to the sibling before our current node.
+    const parentNode = space.parentOf(node);
+    if (parentNode === null) {
+      return null;
+    }
+
+    const index = indexes[indexes.length - 1];
+    if (!this.notBeforeMin(parentNode, index)) {
+      return null;
+    }
+    indexes.pop();
+
+    return this.moveTo(parentNode, index);
   }
 
   /**
-   * Convert a location with an offset which is out of bounds, to a location
-   * with an offset within bounds.
+   * Set the current location.
    *
-   * An offset less than 0 will be normalized to 0. An offset pointing beyond
-   * the end of the node's data will be normalized to point at the end of the
-   * node.
+   * @param node The new node.
    *
-   * @returns A new [[Location]], if the offset was adjusted. Otherwise, it
-   * returns ``this``.
+   * @param offset The new offset.
+   *
+   * @returns The new location.
    */
-  normalizeOffset(): DOMLoc {
-    const normalized = this.normalizedOffset;
-    const { offset, node } = this;
+  private moveTo(node: N, offset: number): DOMLoc<N> {
+    this.node = node;
+    this.offset = offset;
 
-    return normalized === offset ? this : new DOMLoc(node, normalized);
+    return this.location;
   }
 
   /**
-   * Determine whether this location and another location are equal.
+   * Determine whether a location that the cursor moves to is not after the
+   * maximum of the space. The cursor moves only to locations adjacent to its
+   * current location, which is not after the maximum. A node which is neither
+   * the node of the maximum nor one of its ancestors is either completely
+   * before or completely after the maximum, and cannot be entered from a
+   * location before the maximum unless it is before the maximum. So we only
+   * have to look closely at the nodes that are the node of the maximum or its
+   * ancestors.
    *
-   * @returns Whether ``this`` and ``other`` are equal.
+   * @param node The node of the location.
+   *
+   * @param offset The offset of the location.
+   *
+   * @param parent If we move into ``node`` from its parent, or from a sibling,
+   * the parent.
+   *
+   * @param index If we move into ``node`` from its parent, or from a sibling,
+   * the index of ``node`` in its parent.
+   *
+   * @returns Whether the location is not after the maximum.
    */
-  equals(other: DOMLoc | undefined | null): boolean {
-    return other != null &&
-      (this === other || (this.node === other.node &&
-                          this.offset === other.offset));
+  private notAfterMax(node: N, offset: number, parent?: N,
+                      index?: number): boolean {
+    const { space: { max }, maxAncestors } = this;
+    if (node === max.node) {
+      return offset <= max.offset;
+    }
+
+    const towardsMax = maxAncestors.get(node);
+    if (towardsMax !== undefined) {
+      return offset <= towardsMax;
+    }
+
+    if (parent === undefined || index === undefined) {
+      return true;
+    }
+
+    if (parent === max.node) {
+      return index < max.offset;
+    }
+
+    const parentTowardsMax = maxAncestors.get(parent);
+
+    return parentTowardsMax === undefined || index < parentTowardsMax;
   }
 
   /**
-   * Compare this location with another in document order.
+   * Determine whether a location that the cursor moves to is not before the
+   * minimum of the space. This is the mirror image of [[notAfterMax]].
    *
-   * @param other The other location to compare.
+   * @param node The node of the location.
    *
-   * @returns -1 if ``this`` is earlier than ``other``, ``0`` if the two
-   * locations are equal, 1 if ``this`` is later than ``other``.
+   * @param offset The offset of the location.
    *
-   * @throws {ComparingDisconnectedNodes} If the two nodes are "disconnected"
-   * (i.e. do not belong to the same document).
+   * @param parent If we move into ``node`` from its parent, or from a sibling,
+   * the parent.
+   *
+   * @param index If we move into ``node`` from its parent, or from a sibling,
+   * the index of ``node`` in its parent.
+   *
+   * @returns Whether the location is not before the minimum.
    */
-  compare(other: DOMLoc): -1 | 0 | 1 {
-    if (this.equals(other)) {
-      return 0;
+  private notBeforeMin(node: N, offset: number, parent?: N,
+                       index?: number): boolean {
+    const { space: { min }, minAncestors } = this;
+    if (node === min.node) {
+      return offset >= min.offset;
     }
 
-    const { node, offset } = this;
-    const { node: otherNode, offset: otherOffset } = other;
-
-    if (node === otherNode) {
-      // The case where offset === otherOffset cannot happen here because it is
-      // covered above.
-      return offset - otherOffset < 0 ? -1 : 1;
+    const towardsMin = minAncestors.get(node);
+    if (towardsMin !== undefined) {
+      return offset > towardsMin;
     }
 
-    const result = node.compareDocumentPosition(otherNode);
-    // tslint:disable:no-bitwise
-    if ((result & Node.DOCUMENT_POSITION_DISCONNECTED) !== 0) {
-      throw new ComparingDisconnectedNodes();
+    if (parent === undefined || index === undefined) {
+      return true;
     }
 
-    if ((result & Node.DOCUMENT_POSITION_FOLLOWING) !== 0) {
-      // otherNode follows node.
-      return (result & Node.DOCUMENT_POSITION_CONTAINED_BY) !== 0 ?
-        // otherNode is contained by node but we still need to figure out the
-        // relative positions of the node pointed by [node, offset] and
-        // otherNode.
-        pointedCompare(node, offset, otherNode) :
-        // otherNode just follows node, no parent child relation
-        -1;
+    if (parent === min.node) {
+      return index >= min.offset;
     }
 
-    if ((result & Node.DOCUMENT_POSITION_PRECEDING) === 0) {
-      /* istanbul ignore next: there's no means to generate this error */
-      throw new Error("neither preceding nor following: this should not \
-happen");
-    }
+    const parentTowardsMin = minAncestors.get(parent);
 
-    // otherNode precedes node.
-    return ((result & Node.DOCUMENT_POSITION_CONTAINS) !== 0 &&
-            // otherNode contains node but we still need to figure out the
-            // relative positions of the node pointed by [otherNode,
-            // otherOffset] and node.
-            pointedCompare(otherNode, otherOffset, node) > 0) ? -1 : 1;
-    // tslint:enable:no-bitwise
+    return parentTowardsMin === undefined || index > parentTowardsMin;
   }
 }
 
-type NodeTest = (node: Node) => boolean;
+/**
+ * A location which is kept up to date by a [[LocationTracker]] when the DOM
+ * tree changes. Obtain one with [[LocationTracker.track]].
+ */
+export interface LiveLoc {
+  /**
+   * The tracker that keeps the location up to date.
+   */
+  readonly tracker: LocationTracker;
+
+  /**
+   * The current value of the location. Reading it first processes the
+   * mutations that the tracker has not processed yet.
+   */
+  readonly location: DOMLoc;
+
+  /**
+   * Whether the location is still valid. A location becomes invalid when the
+   * node it was in is removed. (See [[LocationTracker]].) Reading it first
+   * processes the mutations that the tracker has not processed yet.
+   */
+  readonly valid: boolean;
+}
+
+/**
+ * Adjust an offset into character data that was changed. The change is
+ * inferred from the old and new values of the data, by taking the longest
+ * common prefix and suffix as unchanged.
+ *
+ * @param offset The offset to adjust.
+ *
+ * @param oldValue The value of the data before the change.
+ *
+ * @param newValue The value of the data after the change.
+ *
+ * @returns The adjusted offset, computed like the DOM standard does for the
+ * boundary points of ranges when data is replaced.
+ */
+function adjustOffset(offset: number, oldValue: string,
+                      newValue: string): number {
+  const shortest = Math.min(oldValue.length, newValue.length);
+  let prefix = 0;
+  while (prefix < shortest && oldValue[prefix] === newValue[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (suffix < shortest - prefix &&
+         oldValue[oldValue.length - 1 - suffix] ===
+         newValue[newValue.length - 1 - suffix]) {
+    suffix++;
+  }
 
-// tslint:disable-next-line:no-any
-function indexOf(arrayLike: any, el: any): number {
-  return Array.prototype.indexOf.call(arrayLike, el);
+  const removed = oldValue.length - prefix - suffix;
+  const inserted = newValue.length - prefix - suffix;
+  if (offset <= prefix) {
+    return offset;
+  }
+
+  return offset <= prefix + removed ? prefix : offset + inserted - removed;
 }
 
 /**
- * A space delimits a part of a DOM tree in which one can obtain locations.
+ * A location tracked by a [[LocationTracker]].
  */
-export class DOMSpace implements Iterable<DOMLoc> {
+class TrackedLoc implements LiveLoc {
+  /** Whether the location is still valid. */
+  isValid: boolean = true;
+
   /**
-   * @param min The minimum location included in this space.
-   *
-   * @param max The maximum location included in this space.
+   * @param tracker The tracker that tracks this location.
    *
-   * @param relevanceTest A test to determine whether a node is relevant. This
-   * space does not produce locations into irrelevant nodes.
+   * @param node The node of the location.
    *
-   * @throws {CannotEscapeIrrelevantNode} If the container is irrelevant.
+   * @param offset The offset of the location, when ``node`` contains character
+   * data.
    *
-   * @throw {ReversedRangeError} If ``max`` is less than ``min``.
+   * @param after The child of ``node`` which immediately precedes the location,
+   * or ``null`` if the location is at the start of ``node``. This is used when
+   * ``node`` does not contain character data. We record the child rather than
+   * the offset so that we do not need to know the index of the nodes that are
+   * added or removed.
    */
-  constructor(readonly min: DOMLoc,
-              readonly max: DOMLoc,
-              readonly relevanceTest: NodeTest = () => true) {
-    if (!(this.isRelevant(min.node) && this.isRelevant(max.node))) {
-      throw new CannotEscapeIrrelevantNode();
-    }
+  constructor(readonly tracker: LocationTracker,
+              public node: Node,
+              public offset: number,
+              public after: Node | null) {}
 
-    // Man could be equal to min but it cannot be less than min.
-    if (max.compare(min) < 0) {
-      throw new ReversedRangeError();
-    }
+  get location(): DOMLoc {
+    this.tracker.sync();
+
+    return this.current;
   }
 
-  static makeSpanningNode(node: Node, relevanceTest?: NodeTest): DOMSpace {
-    return new DOMSpace(new DOMLoc(node, 0),
-                        new DOMLoc(node, node.childNodes.length),
-                        relevanceTest);
+  get valid(): boolean {
+    this.tracker.sync();
+
+    return this.isValid;
   }
 
   /**
-   * Test whether a node is contextually relevant. This method runs some stock
-   * tests and if necessary calls [[Space.relevanceTest]].
-   *
-   * @param node The node to test.
-   *
-   * @returns ``true`` if the node is contextually relevant, ``false`` if not.
+   * The location as it is, without processing pending mutations.
    */
-  isRelevant(node: Node): boolean {
-    const { nodeType } = node;
+  get current(): DOMLoc {
+    const { node, after } = this;
 
-    return (nodeType === Node.ELEMENT_NODE || nodeType === Node.TEXT_NODE ||
-            nodeType === Node.DOCUMENT_NODE ||
-            nodeType === Node.DOCUMENT_FRAGMENT_NODE) &&
-      this.relevanceTest(node);
+    return new DOMLoc(node, isCharacterData(DOM_ADAPTER, node) ? this.offset :
+                      after === null ? 0 :
+                      indexOf(node.childNodes, after) + 1);
   }
+}
 
+/**
+ * Options for [[LocationTracker]].
+ */
+export interface LocationTrackerOptions {
   /**
-   * Determine whether this space contains a location.
-   *
-   * @param loc The location to test.
-   *
-   * @returns Whether the location is inside the space.
+   * A function called with the locations that became invalid, whenever
+   * mutations are processed and some locations become invalid. (See
+   * [[LocationTracker]].)
    */
-  contains(loc: DOMLoc): boolean {
-    try {
-      return this.min.compare(loc) <= 0 && this.max.compare(loc) >= 0;
-    }
-    catch (ex) {
-      if (ex instanceof ComparingDisconnectedNodes) {
-        return false;
-      }
+  onInvalid?: (locations: LiveLoc[]) => void;
+}
 
-      /* istanbul ignore next: there's currently no way to get here */
-      throw ex;
-    }
-  }
+/**
+ * A tracker keeps [[LiveLoc]] objects up to date when the DOM tree changes,
+ * like the DOM updates the boundary points of ``Range`` objects:
+ *
+ * - When character data is changed, the offsets that follow the change are
+ *   shifted. The tracker cannot know exactly what was changed. It infers the
+ *   change from the old and new values of the data, so the result may differ
+ *   from that of a ``Range`` when the change is ambiguous: inserting "a" in
+ *   "aa" is seen as inserting it at the end.
+ *
+ * - When a node is removed, the locations inside it move to the location in
+ *   its parent where it used to be. These locations become invalid, because
+ *   the position they designated no longer exists, but they are still tracked.
+ *
+ * - When nodes are inserted, the locations in their parent that follow the
+ *   point of insertion are shifted. A location at the point of insertion ends
+ *   up before the nodes inserted.
+ *
+ * The tracker uses a ``MutationObserver`` on its root. Mutations are processed
+ * when the observer is notified, or earlier when [[sync]] is called or the
+ * value of a live location is read.
+ *
+ * The tracker reports the locations that become invalid. It also stops
+ * tracking, and reports as invalid, the locations that end up outside its root
+ * or with an offset out of bounds. This happens only if the DOM tree changed
+ * while the tracker was not observing it.
+ */
+export class LocationTracker {
+  /** The observer that notifies us of mutations. */
+  private readonly observer: MutationObserver;
+
+  /** The locations we track. */
+  private readonly tracked: Set<TrackedLoc> = new Set();
 
   /**
-   * Determine whether this space contains a node.
+   * @param root The node in which locations are tracked.
    *
-   * @param node The node to test.
+   * @param options Options for the tracker.
    *
-   * @returns Whether the node is inside the space.
+   * @throws {MutationObserverUnavailable} If the DOM implementation provides
+   * no ``MutationObserver``.
    */
-  containsNode(node: Node): boolean {
-    return node.parentNode !== null &&
-      this.contains(DOMLoc.makePointingTo(node));
+  constructor(readonly root: Node,
+              private readonly options: LocationTrackerOptions = {}) {
+    const observerClass = mutationObserverFor(root);
+    if (observerClass === undefined) {
+      throw new MutationObserverUnavailable(
+        "tracking locations requires MutationObserver");
+    }
+    this.observer = new observerClass(records => this.process(records));
+    this.observer.observe(root, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      characterDataOldValue: true,
+    });
   }
 
   /**
-   * If the current location is irrelevant node, then produce a new relevant
-   * location pointing to the contextually irrelevant node. This is "escaping"
-   * the node in the sense that the location provided by this method is pointing
-   * at the irrelevant node *from outside*.
-   *
-   * This method also normalizes the location.
+   * Start tracking a location.
    *
-   * @param location The location to escape.
+   * @param loc The location to track.
    *
-   * @returns If ``location`` was already relevant, and already normalized, then
-   * return ``location``. Otherwise, the new relevant location.
+   * @returns The live location that tracks ``loc``.
    *
-   * @throws {DOMSpaceScopeError} If ``location`` is not within the space.
+   * @throws {Error} If the location is not inside the root of the tracker, or
+   * has an offset that is out of bounds.
    */
-  escapeIrrelevantNode(location: DOMLoc): DOMLoc {
-    if (!this.contains(location)) {
-      throw new DOMSpaceScopeError();
-    }
-    const normalized = location.normalizeOffset();
-    let node: Node | null = normalized.node;
-    const ancestorsAndSelf: Node[] = [];
-    while (node !== null && this.containsNode(node)) {
-      ancestorsAndSelf.push(node);
-      node = node.parentNode;
-    }
+  track(loc: DOMLoc): LiveLoc {
+    // We must process the pending mutations before we record the location,
+    // because they happened before the location was created.
+    this.sync();
 
-    // We reverse the nodes to scan them form topmost node down to the original
-    // location.
-    const reversed = ancestorsAndSelf.reverse();
-    const first = reversed[0];
-    for (const candidate of reversed) {
-      if (!this.isRelevant(candidate)) {
-        // parentNode cannot be null, unless we are the first in the array.
-        // tslint:disable-next-line:no-non-null-assertion
-        const parentNode = candidate.parentNode!;
-
-        // If this is the first candidate, then the parent is outside the
-        // container, and we cannot use it. We don't have a good location to
-        // return. This should never happen because the container is required to
-        // be relevant.
-        if (candidate === first) {
-          /* istanbul ignore next: there's no means to generate this error */
-          throw new Error("internal error: we should always be able to escape \
-a location which is inside the space");
-        }
+    const { node, offset } = loc;
+    if (!this.isInRoot(node)) {
+      throw new Error("location is not inside the root of the tracker");
+    }
 
-        return new DOMLoc(parentNode,
-                          indexOf(parentNode.childNodes, candidate));
-      }
+    const length = isCharacterData(DOM_ADAPTER, node) ?
+      (node as CharacterData).length : node.childNodes.length;
+    if (offset > length) {
+      throw new Error("location has an offset that is out of bounds");
     }
 
-    // None of the ancestors or the node itself were irrelevant, so the original
-    // location was fine.
-    return normalized;
+    const tracked = isCharacterData(DOM_ADAPTER, node) ?
+      new TrackedLoc(this, node, offset, null) :
+      new TrackedLoc(this, node, 0,
+                     offset === 0 ? null : node.childNodes[offset - 1]);
+    this.tracked.add(tracked);
+
+    return tracked;
   }
 
   /**
-   * Compute the next relevant location from a starting point.
-   *
-   * @param start The location from which to start.
-   *
-   * @returns The next relevant location. Or ``null`` if there is no next
-   * relevant location within the space. Remember: the *location* is relevant,
-   * but can point to an irrelevant node.
-   *
-   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   * Stop tracking a location.
    *
-   * @throws {CannotEscapeIrrelevantNode} If ``start`` is irrelevant and cannot
-   * be escaped.
+   * @param live The location to stop tracking.
    */
-  next(start: DOMLoc): DOMLoc | null {
-    // tslint:disable-next-line:prefer-const
-    let { node, offset } = this.escapeIrrelevantNode(start);
-    let loc: DOMLoc | undefined;
-    switch (node.nodeType) {
-      case Node.DOCUMENT_FRAGMENT_NODE:
-      case Node.DOCUMENT_NODE:
-      case Node.ELEMENT_NODE:
-        const pointedNode = node.childNodes[offset++];
-        if (pointedNode !== undefined) {
-          loc = this.isRelevant(pointedNode) ?
-            new DOMLoc(pointedNode, 0) :
-            new DOMLoc(node, offset);
-        }
-        break;
-      case Node.TEXT_NODE:
-        if (++offset <= (node as Text).length) {
-          loc = new DOMLoc(node, offset);
-        }
-        break;
-        /* istanbul ignore next: we cannot get there */
-      default:
-        // Due to escapeIrrelevantNode, we should never get here.
-        throw new Error(`internal error: unexpected type ${node.nodeType}`);
-    }
-
-    if (loc === undefined) {
-      // If we get here, we have to move to the sibling after our starting node.
+  untrack(live: LiveLoc): void {
+    this.tracked.delete(live as TrackedLoc);
+  }
 
-      // Note that because of the escapeIrrelevantNode at the beginning of this
-      // function, the parent we encounter is necessarily relevant.
-      const { parentNode } = node;
-      if (parentNode === null) {
-        return null;
-      }
+  /**
+   * Process the mutations that have not been processed yet.
+   *
+   * @returns The locations that became invalid.
+   */
+  sync(): LiveLoc[] {
+    return this.process(this.observer.takeRecords());
+  }
 
-      loc = new DOMLoc(parentNode, indexOf(parentNode.childNodes, node) + 1);
-    }
+  /**
+   * Stop tracking all locations. The mutations not yet processed are processed
+   * first.
+   *
+   * @returns The locations that became invalid when processing the last
+   * mutations.
+   */
+  disconnect(): LiveLoc[] {
+    const invalid = this.sync();
+    this.observer.disconnect();
+    this.tracked.clear();
 
-    return this.contains(loc) ? loc : null;
+    return invalid;
   }
 
   /**
-   * Compute the previous relevant location from a starting point.
+   * Determine whether a node is inside the root of this tracker.
    *
-   * @param start The location from which to start.
+   * @param node The node to test.
    *
-   * @returns The previous relevant location. Or ``null`` if there is no
-   * previous relevant location inside the space. Remember: the *location* is
-   * relevant, but can point to an irrelevant node.
+   * @returns Whether the node is the root or one of its descendants.
+   */
+  private isInRoot(node: Node): boolean {
+    return node === this.root || this.root.contains(node);
+  }
+
+  /**
+   * Process mutation records.
    *
-   * @throws {DOMSpaceScopeError} If ``start`` is not within the space.
+   * @param records The records to process, in the order in which the mutations
+   * happened.
    *
-   * @throws {CannotEscapeIrrelevantNode} If ``start`` is irrelevant and cannot
-   * be escaped.
+   * @returns The locations that became invalid.
    */
-  previous(start: DOMLoc): DOMLoc | null {
-    // tslint:disable-next-line:prefer-const
-    let { node, offset } = this.escapeIrrelevantNode(start);
-    let loc: DOMLoc | undefined;
-    switch (node.nodeType) {
-      case Node.DOCUMENT_FRAGMENT_NODE:
-      case Node.DOCUMENT_NODE:
-      case Node.ELEMENT_NODE:
-        const pointedNode = node.childNodes[--offset];
-        if (pointedNode !== undefined) {
-          loc = this.isRelevant(pointedNode) ?
-            new DOMLoc(pointedNode,
-                       pointedNode.nodeType === Node.TEXT_NODE ?
-                       (pointedNode as Text).length :
-                       pointedNode.childNodes.length) :
-            new DOMLoc(node, offset);
-        }
-        break;
-      case Node.TEXT_NODE:
-        if (--offset >= 0) {
-          loc = new DOMLoc(node, offset);
-        }
-        break;
-        /* istanbul ignore next: we cannot get there */
-      default:
-        // Due to escapeIrrelevantNode, we should never get here.
-        throw new Error(`internal error: unexpected type ${node.nodeType}`);
+  private process(records: MutationRecord[]): LiveLoc[] {
+    if (records.length === 0) {
+      return [];
     }
 
-    if (loc === undefined) {
-      // If we get here, we have to move to the sibling before our starting
-      // node.
+    // For each character data mutation, find the value the data had after the
+    // mutation: the old value of the next mutation on the same node, or the
+    // current value.
+    const newValues: string[] = [];
+    const values = new Map<Node, string>();
+    for (let ix = records.length - 1; ix >= 0; --ix) {
+      const { type, target, oldValue } = records[ix];
+      if (type === "characterData") {
+        newValues[ix] = values.get(target) ?? (target as CharacterData).data;
+        values.set(target, oldValue ?? "");
+      }
+    }
 
-      // Note that because of the escapeIrrelevantNode at the beginning of this
-      // function, the parents we encounter are necessarily relevant.
-      const { parentNode } = node;
-      if (parentNode === null) {
-        return null;
+    const { tracked } = this;
+    const invalid = new Set<TrackedLoc>();
+    records.forEach((record, ix) => {
+      const { type, target, oldValue, removedNodes, previousSibling } = record;
+      if (type === "characterData") {
+        for (const loc of tracked) {
+          if (loc.node === target) {
+            loc.offset = adjustOffset(loc.offset, oldValue ?? "",
+                                      newValues[ix]);
+          }
+        }
       }
+      else if (type === "childList") {
+        for (const removed of Array.from(removedNodes)) {
+          for (const loc of tracked) {
+            if (removed.contains(loc.node)) {
+              loc.node = target;
+              loc.offset = 0;
+              loc.after = previousSibling;
+              if (loc.isValid) {
+                loc.isValid = false;
+                invalid.add(loc);
+              }
+            }
+            else if (loc.node === target && loc.after === removed) {
+              loc.after = previousSibling;
+            }
+          }
+        }
+      }
+    });
 
-      loc = new DOMLoc(parentNode, indexOf(parentNode.childNodes, node));
+    for (const loc of tracked) {
+      const { node, offset, after } = loc;
+      if (!this.isInRoot(node) ||
+          (isCharacterData(DOM_ADAPTER, node) ?
+           offset > (node as CharacterData).length :
+           (after !== null && after.parentNode !== node))) {
+        loc.isValid = false;
+        tracked.delete(loc);
+        invalid.add(loc);
+      }
     }
 
-    return this.contains(loc) ? loc : null;
-  }
-
-  /**
-   * Produce an iterable iterator that iterates in document order.
-   */
-  *[Symbol.iterator](): IterableIterator<DOMLoc> {
-    let current: DOMLoc | null = this.min;
-    do {
-      yield current;
-      current = this.next(current);
-    } while (current !== null);
-  }
+    const ret = Array.from(invalid);
+    const { onInvalid } = this.options;
+    if (ret.length !== 0 && onInvalid !== undefined) {
+      onInvalid(ret);
+    }
 
-  /**
-   * Produce an iterable iterator that iterates in reverse document order.
-   */
-  *reversed(): IterableIterator<DOMLoc> {
-    let current: DOMLoc | null = this.max;
-    do {
-      yield current;
-      current = this.previous(current);
-    } while (current !== null);
+    return ret;
   }
 }
@@ -6,9 +6,15 @@ import sinonChai from "sinon-chai";
 
 use(sinonChai);
 
-import { CannotEscapeIrrelevantNode, ComparingDisconnectedNodes, DOMLoc,
-         DOMSpace, DOMSpaceScopeError,
-         ReversedRangeError } from "../src/dom-movement";
+import { and, CannotEscapeIrrelevantNode, ComparingDisconnectedNodes, DOMLoc,
+         DOMMovementError, DOMRange, DOMSpace, DOMSpaceOptions,
+         DOMSpaceScopeError, HastNode, htmlAtomicTest, htmlBlockTest,
+         htmlMarkupRelevanceTest, htmlPreserveWhitespaceTest,
+         htmlRenderedRelevanceTest, LocationTracker, makeHastAdapter,
+         makeIntlSegmenter, MutationObserverUnavailable, nameTest, NodeTest,
+         not, or, PathResolutionError, ReversedRangeError, rule, Segment,
+         selectorTest, simpleGraphemeSegmenter, simpleSentenceSegmenter,
+         simpleWordSegmenter, TextMap, TextMapOptions, TreeAdapter } from "../src/dom-movement";
 
 function *generate<T>(length: number,
                       cb: (ix: number) => T): IterableIterator<T> {
@@ -86,6 +92,29 @@ describe("DOMLoc", () => {
     });
   });
 
+  describe(".fromBoundaryPoint()", () => {
+    it("makes a location from a boundary point", () => {
+      const div = doc.getElementsByTagName("div")[0];
+      expect(DOMLoc.fromBoundaryPoint(div, 1))
+        .to.deep.equal(new DOMLoc(div, 1));
+    });
+
+    it("escapes the location through a space", () => {
+      const p = doc.getElementsByTagName("p")[0];
+      const space = DOMSpace.makeSpanningNode(doc,
+                                              node => node.nodeName !== "b");
+      expect(DOMLoc.fromBoundaryPoint(p.childNodes[1].firstChild!, 2, space))
+        .to.deep.equal(new DOMLoc(p, 1));
+    });
+
+    it("throws if the location is outside the space", () => {
+      const p = doc.getElementsByTagName("p")[0];
+      const space = DOMSpace.makeSpanningNode(p);
+      expect(() => DOMLoc.fromBoundaryPoint(doc, 0, space))
+        .to.throw(DOMSpaceScopeError);
+    });
+  });
+
   describe("#newIfDifferent()", () => {
     let loc: DOMLoc;
 
@@ -161,7 +190,7 @@ describe("DOMLoc", () => {
         it("a normalized offset, if it is too large", () => {
           const loc = new DOMLoc(node, 300);
           expect(loc).to.have.property("normalizedOffset")
-            .equal(node.nodeType === Node.TEXT_NODE ? (node as Text).length :
+            .equal(node instanceof CharacterData ? node.length :
                    node.childNodes.length);
         });
       });
@@ -175,11 +204,18 @@ describe("DOMLoc", () => {
     makeTests("fragment", () => makeFragment(2));
     // tslint:disable-next-line:mocha-no-side-effect-code
     makeTests("text", () => doc.createTextNode("foo"));
+    // tslint:disable-next-line:mocha-no-side-effect-code
+    makeTests("CDATA", () => doc.createCDATASection("foo"));
+    // tslint:disable-next-line:mocha-no-side-effect-code
+    makeTests("comment", () => doc.createComment("foo"));
+    // tslint:disable-next-line:mocha-no-side-effect-code
+    makeTests("processing instruction",
+              () => doc.createProcessingInstruction("foo", "bar"));
 
     it("throws if trying to normalize an unsupported node", () => {
-      const node = doc.createComment("foo");
+      const node = doc.implementation.createDocumentType("foo", "", "");
       expect(() => new DOMLoc(node, 1000).normalizedOffset)
-        .to.throw(Error, "cannot normalize offset in a node of type: 8");
+        .to.throw(Error, "cannot normalize offset in a node of type: 10");
     });
   });
 
@@ -214,9 +250,9 @@ describe("DOMLoc", () => {
     makeTests("text", () => doc.createTextNode("foo"));
 
     it("throws if trying to normalize an unsupported node", () => {
-      const node = doc.createComment("foo");
+      const node = doc.implementation.createDocumentType("foo", "", "");
       expect(() => new DOMLoc(node, 1000).isNormalized)
-        .to.throw(Error, "cannot normalize offset in a node of type: 8");
+        .to.throw(Error, "cannot normalize offset in a node of type: 10");
     });
   });
 
@@ -261,9 +297,9 @@ describe("DOMLoc", () => {
     });
 
     it("throws if trying to normalize an unsupported node", () => {
-      const node = doc.createComment("foo");
+      const node = doc.implementation.createDocumentType("foo", "", "");
       expect(() => new DOMLoc(node, 1000).normalizeOffset())
-        .to.throw(Error, "cannot normalize offset in a node of type: 8");
+        .to.throw(Error, "cannot normalize offset in a node of type: 10");
     });
   });
 
@@ -295,6 +331,33 @@ describe("DOMLoc", () => {
     });
   });
 
+  describe("#describe()", () => {
+    it("describes a location in a document", () => {
+      expect(new DOMLoc(doc, 1).describe()).to.equal("/:1");
+      const text = doc.getElementsByTagName("b")[0].firstChild!;
+      expect(new DOMLoc(text, 2).describe())
+        .to.equal("/div[1]/div[1]/p[1]/b[1]/text()[1]:2");
+      expect(new DOMLoc(doc.getElementsByTagName("div")[2].firstChild!, 0)
+             .describe()).to.equal("/div[1]/div[2]/text()[1]:0");
+    });
+
+    it("describes a location in an attribute", () => {
+      const el = doc.createElement("p");
+      el.setAttribute("title", "abc");
+      expect(new DOMLoc(el.getAttributeNode("title")!, 1).describe())
+        .to.equal("p/@title:1");
+      expect(new DOMLoc(doc.createAttribute("title"), 0).describe())
+        .to.equal("@title:0");
+    });
+
+    it("describes a location in a tree that is not in a document", () => {
+      const el = makeElement(2);
+      expect(new DOMLoc(el.lastChild!, 0).describe()).to.equal("p/q[2]:0");
+      const frag = makeFragment(1);
+      expect(new DOMLoc(frag, 1).describe()).to.equal("node():1");
+    });
+  });
+
   describe("#compare()", () => {
     let loc: DOMLoc;
     let b: HTMLElement;
@@ -406,231 +469,1180 @@ describe("DOMLoc", () => {
         expect(loc.compare(parentAfterEnd)).to.equal(-1);
       });
     });
+
+    describe("in composed-tree order", () => {
+      let host: HTMLElement;
+      let light: Text;
+      let first: Text;
+      let slot: HTMLSlotElement;
+      let last: Text;
+
+      before(() => {
+        host = document.createElement("div");
+        light = document.createTextNode("light");
+        host.append(light);
+        document.body.append(host);
+        const shadow = host.attachShadow({ mode: "open" });
+        first = document.createTextNode("before");
+        slot = document.createElement("slot");
+        last = document.createTextNode("after");
+        shadow.append(first, slot, last);
+      });
+
+      after(() => {
+        document.body.removeChild(host);
+      });
+
+      it("orders locations across shadow boundaries", () => {
+        const inLight = new DOMLoc(light, 1);
+        expect(() => inLight.compare(new DOMLoc(first, 0)))
+          .to.throw(ComparingDisconnectedNodes);
+        expect(inLight.compare(new DOMLoc(first, 0), true)).to.equal(1);
+        expect(inLight.compare(new DOMLoc(last, 0), true)).to.equal(-1);
+        expect(new DOMLoc(last, 0).compare(inLight, true)).to.equal(1);
+      });
+
+      it("uses composed-tree offsets in hosts and slots", () => {
+        expect(new DOMLoc(host, 1).compare(new DOMLoc(first, 6), true))
+          .to.equal(1);
+        expect(new DOMLoc(host, 1).compare(new DOMLoc(light, 0), true))
+          .to.equal(-1);
+        expect(new DOMLoc(slot, 0).compare(new DOMLoc(light, 0), true))
+          .to.equal(-1);
+        expect(new DOMLoc(slot, 1).compare(new DOMLoc(light, 0), true))
+          .to.equal(1);
+        expect(new DOMLoc(host, 0).compare(new DOMLoc(slot, 1), true))
+          .to.equal(-1);
+      });
+
+      it("throws on nodes that are not in the composed tree", () => {
+        const unassigned = document.createElement("i");
+        unassigned.slot = "nowhere";
+        host.append(unassigned);
+        try {
+          expect(() => new DOMLoc(unassigned, 0)
+                 .compare(new DOMLoc(first, 0), true))
+            .to.throw(ComparingDisconnectedNodes);
+        }
+        finally {
+          host.removeChild(unassigned);
+        }
+      });
+    });
+
+    describe("with attributes", () => {
+      let p: Element;
+      let title: Attr;
+      let lang: Attr;
+
+      before(() => {
+        p = new DOMParser().parseFromString(
+          "<p title='t' lang='en'>a</p>", "text/xml").documentElement;
+        title = p.getAttributeNode("title")!;
+        lang = p.getAttributeNode("lang")!;
+      });
+
+      it("orders attributes after the location pointing to their owner", () => {
+        expect(new DOMLoc(title, 0).compare(new DOMLoc(p.ownerDocument!, 0)))
+          .to.equal(1);
+        expect(new DOMLoc(p.ownerDocument!, 0).compare(new DOMLoc(title, 1)))
+          .to.equal(-1);
+      });
+
+      it("orders attributes before the content of their element", () => {
+        expect(new DOMLoc(lang, 2).compare(new DOMLoc(p, 0))).to.equal(-1);
+        expect(new DOMLoc(p.firstChild!, 0).compare(new DOMLoc(lang, 2)))
+          .to.equal(1);
+      });
+
+      it("orders the attributes of an element in their order", () => {
+        expect(new DOMLoc(title, 1).compare(new DOMLoc(lang, 0)))
+          .to.equal(-1);
+        expect(new DOMLoc(lang, 0).compare(new DOMLoc(title, 1)))
+          .to.equal(1);
+        expect(new DOMLoc(lang, 1).compare(new DOMLoc(lang, 0))).to.equal(1);
+        expect(new DOMLoc(lang, 1).compare(new DOMLoc(lang, 1))).to.equal(0);
+      });
+
+      it("throws on attributes without an owner", () => {
+        const orphan = p.ownerDocument!.createAttribute("x");
+        expect(() => new DOMLoc(orphan, 0).compare(new DOMLoc(p, 0)))
+          .to.throw(ComparingDisconnectedNodes);
+      });
+    });
   });
 });
 
-interface DocInfo {
-  doc: Document;
-  expectedPositions: [Node, number][];
-}
-
-describe("DOMSpace", () => {
+describe("DOMRange", () => {
   let doc: Document;
-  let docs: Record<string, DocInfo>;
+  let p: Element;
+  let b: Element;
+  let first: Text;
+  let bText: Text;
+  let last: Text;
 
   before(() => {
     doc = new DOMParser().parseFromString(
-      `<div><div>A <p>paragraph with <b>text</b> and stuff</p></div>\
-<div>Another div.</div></div>`,
-      "text/xml");
+      "<p>I am a <b>little</b> teapot.</p>", "text/xml");
+    p = doc.documentElement;
+    b = p.childNodes[1] as Element;
+    first = p.firstChild as Text;
+    bText = b.firstChild as Text;
+    last = p.lastChild as Text;
+  });
 
-    {
-      docs = Object.create(null);
-      const local = new DOMParser().parseFromString(
-        `<div><div>A <p>paragraph with <b>text</b> and stuff</p></div>\
-<div>Another div.</div></div>`,
-        "text/xml");
+  function range(startNode: Node, startOffset: number,
+                 endNode: Node, endOffset: number): DOMRange {
+    return new DOMRange(new DOMLoc(startNode, startOffset),
+                        new DOMLoc(endNode, endOffset));
+  }
 
-      // tslint:disable:no-non-null-assertion
-      const topDiv = local.firstElementChild!;
-      const divDiv1 = local.querySelector("div>div")!;
-      const divDiv1P = local.querySelector("div>div>p")!;
-      const divDiv1PB = local.querySelector("div>div>p>b")!;
-      const divDiv2 = local.querySelectorAll("div>div")[1];
-      const expectedPositions: [Node, number][] = [
-        [local, 0],
-        [topDiv, 0],
-        [divDiv1, 0],
-        ...generateTextLocs(divDiv1.firstChild as Text),
-        [divDiv1, 1],
-        [divDiv1P, 0],
-        ...generateTextLocs(divDiv1P.firstChild as Text),
-        [divDiv1P, 1],
-        [divDiv1PB, 0],
-        ...generateTextLocs(divDiv1PB.firstChild as Text),
-        [divDiv1PB, 1],
-        [divDiv1P, 2],
-        ...generateTextLocs(divDiv1P.childNodes[2] as Text),
-        [divDiv1P, 3],
-        [divDiv1, 2],
-        [topDiv, 1],
-        [divDiv2, 0],
-        ...generateTextLocs(divDiv2.firstChild as Text),
-        [divDiv2, 1],
-        [topDiv, 2],
-        [local, 1],
-      ];
-      docs.allRelevant = { doc: local, expectedPositions };
-    }
+  describe("#constructor()", () => {
+    it("accepts a collapsed range", () => {
+      expect(() => range(p, 1, p, 1)).to.not.throw();
+    });
 
-    {
-      const local = new DOMParser().parseFromString(
-        `<div><div>A <p>paragraph <ig>foo</ig>with <b>text</b><ig>bar</ig> \
-and stuff<ig>baz</ig></p></div><!-- baz --><div>Another div.</div></div>`,
-        "text/xml");
+    it("throws if the range is reversed", () => {
+      expect(() => range(p, 2, p, 1)).to.throw(ReversedRangeError);
+    });
 
-      // tslint:disable:no-non-null-assertion
-      const topDiv = local.firstElementChild!;
-      const divDiv1 = local.querySelector("div>div")!;
-      const divDiv1P = local.querySelector("div>div>p")!;
-      const divDiv1PB = local.querySelector("div>div>p>b")!;
-      const divDiv2 = local.querySelectorAll("div>div")[1];
-      const expectedPositions: [Node, number][] = [
-        [local, 0],
-        [topDiv, 0],
-        [divDiv1, 0],
-        ...generateTextLocs(divDiv1.firstChild as Text),
-        [divDiv1, 1],
-        [divDiv1P, 0],
-        ...generateTextLocs(divDiv1P.firstChild as Text),
-        [divDiv1P, 1],
-        [divDiv1P, 2],
-        ...generateTextLocs(divDiv1P.childNodes[2] as Text),
-        [divDiv1P, 3],
-        [divDiv1PB, 0],
-        ...generateTextLocs(divDiv1PB.firstChild as Text),
-        [divDiv1PB, 1],
-        [divDiv1P, 4],
-        [divDiv1P, 5],
-        ...generateTextLocs(divDiv1P.childNodes[5] as Text),
-        [divDiv1P, 6],
-        [divDiv1P, 7],
-        [divDiv1, 2],
-        [topDiv, 1],
-        [topDiv, 2],
-        [divDiv2, 0],
-        ...generateTextLocs(divDiv2.firstChild as Text),
-        [divDiv2, 1],
-        [topDiv, 3],
-        [local, 1],
-      ];
+    it("throws if the locations are disconnected", () => {
+      const other = doc.createElement("q");
+      expect(() => range(p, 0, other, 0))
+        .to.throw(ComparingDisconnectedNodes);
+    });
+  });
 
-      docs.irrelevant = { doc: local, expectedPositions };
-    }
+  describe(".fromUnordered()", () => {
+    it("orders the locations", () => {
+      const a = new DOMLoc(p, 2);
+      const z = new DOMLoc(first, 1);
+      expect(DOMRange.fromUnordered(a, z))
+        .to.deep.equal(new DOMRange(z, a));
+      expect(DOMRange.fromUnordered(z, a))
+        .to.deep.equal(new DOMRange(z, a));
+    });
   });
 
-  describe("#constructor()", () => {
-    it("constructs without test", () => {
-      new DOMSpace(new DOMLoc(doc, 0), new DOMLoc(doc, 1));
+  describe(".makeSpanningNode()", () => {
+    it("spans the contents of the node", () => {
+      expect(DOMRange.makeSpanningNode(p)).to.deep.equal(range(p, 0, p, 3));
     });
+  });
 
-    it("constructs with test", () => {
-      new DOMSpace(new DOMLoc(doc, 0), new DOMLoc(doc, 1), () => true);
+  describe("#collapsed", () => {
+    it("is true for a collapsed range", () => {
+      expect(range(p, 1, p, 1)).to.have.property("collapsed").true;
     });
 
-    it("throws if min is irrelevant", () => {
-      expect(() => new DOMSpace(
-        new DOMLoc(doc, 0),
-        new DOMLoc(doc.getElementsByTagName("div")[0], 0), x => x === doc))
-        .to.throw(CannotEscapeIrrelevantNode,
-                  "location is irrelevant and cannot be escaped");
+    it("is false for a range that is not collapsed", () => {
+      expect(range(p, 1, p, 2)).to.have.property("collapsed").false;
+      // These locations are equivalent, but they are not the same.
+      expect(range(first, 7, p, 1)).to.have.property("collapsed").false;
     });
+  });
 
-    it("throws if max is irrelevant", () => {
-      const div = doc.getElementsByTagName("div")[0];
-      expect(() => new DOMSpace(new DOMLoc(doc, 0), new DOMLoc(div, 0),
-                                x => x === div))
-        .to.throw(CannotEscapeIrrelevantNode,
-                  "location is irrelevant and cannot be escaped");
+  describe("#equals()", () => {
+    it("returns true for equal ranges", () => {
+      const r = range(p, 1, p, 2);
+      expect(r.equals(r)).to.be.true;
+      expect(r.equals(range(p, 1, p, 2))).to.be.true;
     });
 
-    it("throws if max is less than min", () => {
-      expect(() => new DOMSpace(
-        new DOMLoc(doc.getElementsByTagName("div")[0], 0),
-        new DOMLoc(doc, 0)))
-        .to.throw(ReversedRangeError, "tried to use a reversed range");
+    it("returns false for different ranges", () => {
+      const r = range(p, 1, p, 2);
+      expect(r.equals(range(p, 1, p, 3))).to.be.false;
+      expect(r.equals(null)).to.be.false;
+      expect(r.equals(undefined)).to.be.false;
+    });
+  });
+
+  describe("#contains()", () => {
+    it("returns true for locations in the range", () => {
+      const r = range(first, 2, last, 2);
+      expect(r.contains(new DOMLoc(first, 2))).to.be.true;
+      expect(r.contains(new DOMLoc(bText, 3))).to.be.true;
+      expect(r.contains(new DOMLoc(p, 1))).to.be.true;
+      expect(r.contains(new DOMLoc(last, 2))).to.be.true;
     });
 
-    it("constructs with min equal to max", () => {
-      new DOMSpace(new DOMLoc(doc, 0), new DOMLoc(doc, 0));
+    it("returns false for locations outside the range", () => {
+      const r = range(first, 2, last, 2);
+      expect(r.contains(new DOMLoc(first, 1))).to.be.false;
+      expect(r.contains(new DOMLoc(p, 0))).to.be.false;
+      expect(r.contains(new DOMLoc(last, 3))).to.be.false;
     });
   });
 
-  describe(".makeSpanningNode", () => {
-    it("makes a space that spans the node", () => {
-      const space = DOMSpace.makeSpanningNode(doc);
-      expect(space).to.have.nested.property("min.node").equal(doc);
-      expect(space).to.have.nested.property("min.offset").equal(0);
-      expect(space).to.have.nested.property("max.node").equal(doc);
-      expect(space).to.have.nested.property("max.offset")
-        .equal(doc.childNodes.length);
+  describe("#containsRange()", () => {
+    it("returns true for ranges inside the range", () => {
+      const r = range(first, 2, last, 2);
+      expect(r.containsRange(r)).to.be.true;
+      expect(r.containsRange(range(b, 0, b, 1))).to.be.true;
+    });
+
+    it("returns false for ranges that extend outside the range", () => {
+      const r = range(first, 2, last, 2);
+      expect(r.containsRange(range(first, 1, first, 3))).to.be.false;
+      expect(r.containsRange(range(last, 1, last, 3))).to.be.false;
     });
   });
 
-  describe("#isRelevant()", () => {
-    describe("(when ``relevanceTest`` not provided)", () => {
-      for (const { name, getNode } of [
-        { name: "a document", getNode: () => doc },
-        // tslint:disable-next-line:mocha-no-side-effect-code
-        { name: "an element", getNode: () => doc.createElement("p") },
-        { name: "a document fragment",
-          // tslint:disable-next-line:mocha-no-side-effect-code
-          getNode: () => doc.createDocumentFragment() },
-        // tslint:disable-next-line:mocha-no-side-effect-code
-        { name: "a text node", getNode: () => doc.createTextNode("") },
-      ]) {
-        it(`returns true on ${name}`, () => {
-          // tslint:disable-next-line:chai-vague-errors
-          expect(DOMSpace.makeSpanningNode(doc).isRelevant(getNode()))
-            .to.be.true;
-        });
-      }
+  describe("#intersects() and #intersection()", () => {
+    it("handle overlapping ranges", () => {
+      const r1 = range(first, 2, bText, 3);
+      const r2 = range(b, 0, last, 2);
+      expect(r1.intersects(r2)).to.be.true;
+      expect(r2.intersects(r1)).to.be.true;
+      expect(r1.intersection(r2)).to.deep.equal(range(b, 0, bText, 3));
+      expect(r2.intersection(r1)).to.deep.equal(range(b, 0, bText, 3));
+    });
 
-      for (const { name, getNode } of [
-        // tslint:disable-next-line:mocha-no-side-effect-code
-        { name: "an attribute", getNode: () => doc.createAttribute("x") },
-        // tslint:disable-next-line:mocha-no-side-effect-code
-        { name: "an comment", getNode: () => doc.createComment("") },
-        // tslint:disable-next-line:mocha-no-side-effect-code
-        { name: "a CData section", getNode: () => doc.createCDATASection("") },
-        { name: "a PI",
-          // tslint:disable-next-line:mocha-no-side-effect-code
-          getNode: () => doc.createProcessingInstruction("a", "b") },
-        // There does not seem to be a way to simple create a
-        // document type node.
-        // { name: "a document type", getNode: () => ??? },
-      ]) {
-        it(`returns false on ${name}`, () => {
-          // tslint:disable-next-line:chai-vague-errors
-          expect(DOMSpace.makeSpanningNode(doc).isRelevant(getNode()))
-            .to.be.false;
-        });
-      }
+    it("handle nested ranges", () => {
+      const r1 = range(first, 2, last, 2);
+      const r2 = range(b, 0, b, 1);
+      expect(r1.intersection(r2)).to.deep.equal(r2);
+      expect(r2.intersection(r1)).to.deep.equal(r2);
     });
 
-    describe("(when ``relevanceTest`` provided)", () => {
-      it("calls ``relevanceTest`` with node passing built-in tests", () => {
-        const stub = sinon.stub();
-        stub.returns(true);
-        const space = DOMSpace.makeSpanningNode(doc, stub);
-        stub.resetHistory();
-        // tslint:disable-next-line:chai-vague-errors
-        expect(space.isRelevant(doc)).to.be.true;
-        expect(stub).to.have.been.calledOnce.and.been.calledWith(doc);
-      });
+    it("handle ranges that share only one location", () => {
+      const r1 = range(first, 2, p, 1);
+      const r2 = range(p, 1, last, 2);
+      expect(r1.intersects(r2)).to.be.true;
+      expect(r1.intersection(r2)).to.deep.equal(range(p, 1, p, 1));
+    });
 
-      it("returns ``relevanceTest``'s return value with node passing \
-built-in tests",
-         () => {
-           const p = doc.getElementsByTagName("p")[0];
-           const stub = sinon.stub();
-           stub.returns(true);
-           const space = DOMSpace.makeSpanningNode(doc, stub);
-           stub.resetHistory();
-           // tslint:disable-next-line:chai-vague-errors
-           expect(space.isRelevant(p)).to.be.true;
-           expect(stub).to.have.been.calledOnce.and.been.calledWith(p);
-           // tslint:disable-next-line:chai-vague-errors
-           expect(DOMSpace.makeSpanningNode(doc, node => node !== p)
-                  .isRelevant(p)).to.be.false;
-         });
+    it("handle disjoint ranges", () => {
+      const r1 = range(first, 2, first, 7);
+      const r2 = range(p, 1, last, 2);
+      expect(r1.intersects(r2)).to.be.false;
+      expect(r2.intersects(r1)).to.be.false;
+      expect(r1.intersection(r2)).to.be.null;
+    });
+  });
 
-      it("does not call ``relevanceTest`` with node failing built-in tests",
-         () => {
-           const stub = sinon.stub();
-           stub.returns(true);
-           const clone = doc.cloneNode(true);
-           const comment = doc.createComment("Q");
+  describe("#isAdjacentTo()", () => {
+    it("returns true if one range ends where the other starts", () => {
+      const r1 = range(first, 2, p, 1);
+      const r2 = range(p, 1, last, 2);
+      expect(r1.isAdjacentTo(r2)).to.be.true;
+      expect(r2.isAdjacentTo(r1)).to.be.true;
+    });
+
+    it("returns false if there is a gap between the ranges", () => {
+      const r1 = range(first, 2, first, 7);
+      const r2 = range(p, 1, last, 2);
+      expect(r1.isAdjacentTo(r2)).to.be.false;
+      expect(r2.isAdjacentTo(r1)).to.be.false;
+    });
+
+    it("uses the space to find adjacent locations", () => {
+      const space = DOMSpace.makeSpanningNode(doc);
+      const r1 = range(first, 2, first, 7);
+      const r2 = range(p, 1, last, 2);
+      expect(r1.isAdjacentTo(r2, space)).to.be.true;
+      expect(r2.isAdjacentTo(r1, space)).to.be.true;
+      expect(r1.isAdjacentTo(range(b, 0, last, 2), space)).to.be.false;
+    });
+  });
+
+  describe("#union()", () => {
+    it("unites intersecting ranges", () => {
+      const r1 = range(first, 2, bText, 3);
+      const r2 = range(b, 0, last, 2);
+      expect(r1.union(r2)).to.deep.equal(range(first, 2, last, 2));
+      expect(r2.union(r1)).to.deep.equal(range(first, 2, last, 2));
+    });
+
+    it("unites adjacent ranges", () => {
+      const space = DOMSpace.makeSpanningNode(doc);
+      const r1 = range(first, 2, first, 7);
+      const r2 = range(p, 1, last, 2);
+      expect(r1.union(r2, space)).to.deep.equal(range(first, 2, last, 2));
+    });
+
+    it("returns null for disjoint ranges", () => {
+      const r1 = range(first, 2, first, 7);
+      const r2 = range(p, 1, last, 2);
+      expect(r1.union(r2)).to.be.null;
+    });
+  });
+
+  describe("#locations()", () => {
+    it("iterates over the locations of the range", () => {
+      const space = DOMSpace.makeSpanningNode(doc);
+      expect(Array.from(range(first, 6, b, 1).locations(space)))
+        .to.deep.equal([
+          new DOMLoc(first, 6),
+          new DOMLoc(first, 7),
+          new DOMLoc(p, 1),
+          new DOMLoc(b, 0),
+          ...Array.from(generateTextLocs(bText))
+            .map(([node, offset]) => new DOMLoc(node, offset)),
+          new DOMLoc(b, 1),
+        ]);
+    });
+
+    it("skips irrelevant nodes", () => {
+      const space = DOMSpace.makeSpanningNode(doc,
+                                              node => node.nodeName !== "b");
+      expect(Array.from(range(bText, 2, last, 0).locations(space)))
+        .to.deep.equal([new DOMLoc(p, 2), new DOMLoc(last, 0)]);
+    });
+
+    it("throws if the start is outside the space", () => {
+      const space = DOMSpace.makeSpanningNode(b);
+      expect(() => Array.from(range(first, 6, b, 1).locations(space)))
+        .to.throw(DOMSpaceScopeError);
+    });
+  });
+
+  describe("#reversedLocations()", () => {
+    it("iterates over the locations of the range", () => {
+      const space = DOMSpace.makeSpanningNode(doc);
+      const r = range(first, 6, b, 1);
+      expect(Array.from(r.reversedLocations(space)))
+        .to.deep.equal(Array.from(r.locations(space)).reverse());
+    });
+
+    it("skips irrelevant nodes", () => {
+      const space = DOMSpace.makeSpanningNode(doc,
+                                              node => node.nodeName !== "b");
+      expect(Array.from(range(first, 6, bText, 2).reversedLocations(space)))
+        .to.deep.equal([new DOMLoc(p, 1), new DOMLoc(first, 7),
+                        new DOMLoc(first, 6)]);
+    });
+  });
+  describe("conversions", () => {
+    let live: HTMLElement;
+    let liveText: Text;
+    let liveB: HTMLElement;
+
+    beforeEach(() => {
+      live = document.createElement("div");
+      liveText = document.createTextNode("Some ");
+      liveB = document.createElement("b");
+      liveB.textContent = "bold";
+      live.append(liveText, liveB, " text");
+      document.body.appendChild(live);
+    });
+
+    afterEach(() => {
+      document.getSelection()!.removeAllRanges();
+      document.body.removeChild(live);
+    });
+
+    describe(".fromRange()", () => {
+      it("converts a Range", () => {
+        const native = document.createRange();
+        native.setStart(liveText, 2);
+        native.setEnd(live, 2);
+        expect(DOMRange.fromRange(native))
+          .to.deep.equal(range(liveText, 2, live, 2));
+      });
+
+      it("converts a StaticRange", () => {
+        const native = new StaticRange({
+          startContainer: liveText,
+          startOffset: 2,
+          endContainer: live,
+          endOffset: 2,
+        });
+        expect(DOMRange.fromRange(native))
+          .to.deep.equal(range(liveText, 2, live, 2));
+      });
+
+      it("escapes the boundary points through a space", () => {
+        const native = document.createRange();
+        native.setStart(liveB.firstChild!, 1);
+        native.setEnd(live, 3);
+        const space = DOMSpace.makeSpanningNode(live,
+                                                node => node !== liveB);
+        expect(DOMRange.fromRange(native, space))
+          .to.deep.equal(range(live, 1, live, 3));
+      });
+
+      it("throws if a boundary point is outside the space", () => {
+        const native = document.createRange();
+        native.setStart(live, 0);
+        native.setEnd(live, 3);
+        expect(() => DOMRange.fromRange(native,
+                                        DOMSpace.makeSpanningNode(liveB)))
+          .to.throw(DOMSpaceScopeError);
+      });
+    });
+
+    describe(".fromSelection()", () => {
+      it("returns null if the selection is empty", () => {
+        expect(DOMRange.fromSelection(document.getSelection()!)).to.be.null;
+      });
+
+      it("converts a forward selection", () => {
+        const selection = document.getSelection()!;
+        selection.setBaseAndExtent(liveText, 1, liveB, 1);
+        expect(DOMRange.fromSelection(selection))
+          .to.deep.equal(range(liveText, 1, liveB, 1));
+      });
+
+      it("converts a backward selection", () => {
+        const selection = document.getSelection()!;
+        selection.setBaseAndExtent(liveB, 1, liveText, 1);
+        expect(DOMRange.fromSelection(selection))
+          .to.deep.equal(range(liveText, 1, liveB, 1));
+      });
+
+      it("throws if a boundary point is outside the space", () => {
+        const selection = document.getSelection()!;
+        selection.setBaseAndExtent(liveText, 1, liveB, 1);
+        expect(() => DOMRange.fromSelection(selection,
+                                            DOMSpace.makeSpanningNode(liveB)))
+          .to.throw(DOMSpaceScopeError);
+      });
+    });
+
+    describe("#toRange()", () => {
+      it("converts to a Range", () => {
+        const native = range(liveText, 2, live, 2).toRange();
+        expect(native).to.be.instanceOf(Range);
+        expect(native).to.have.property("startContainer").equal(liveText);
+        expect(native).to.have.property("startOffset").equal(2);
+        expect(native).to.have.property("endContainer").equal(live);
+        expect(native).to.have.property("endOffset").equal(2);
+      });
+
+      it("throws if the range is outside the space", () => {
+        expect(() => range(liveText, 2, live, 2)
+               .toRange(DOMSpace.makeSpanningNode(liveB)))
+          .to.throw(DOMSpaceScopeError);
+      });
+    });
+
+    describe("#toStaticRange()", () => {
+      it("converts to a StaticRange", () => {
+        const native = range(liveText, 2, live, 2).toStaticRange();
+        expect(native).to.be.instanceOf(StaticRange);
+        expect(native).to.have.property("startContainer").equal(liveText);
+        expect(native).to.have.property("startOffset").equal(2);
+        expect(native).to.have.property("endContainer").equal(live);
+        expect(native).to.have.property("endOffset").equal(2);
+      });
+
+      it("throws if the range is outside the space", () => {
+        expect(() => range(liveText, 2, live, 2)
+               .toStaticRange(DOMSpace.makeSpanningNode(liveB)))
+          .to.throw(DOMSpaceScopeError);
+      });
+    });
+
+    describe("#select()", () => {
+      it("selects the range", () => {
+        const selection = document.getSelection()!;
+        range(liveText, 2, live, 2).select(selection);
+        expect(selection).to.have.property("anchorNode").equal(liveText);
+        expect(selection).to.have.property("anchorOffset").equal(2);
+        expect(selection).to.have.property("focusNode").equal(live);
+        expect(selection).to.have.property("focusOffset").equal(2);
+      });
+
+      it("selects the range backward", () => {
+        const selection = document.getSelection()!;
+        range(liveText, 2, live, 2).select(selection, undefined, true);
+        expect(selection).to.have.property("anchorNode").equal(live);
+        expect(selection).to.have.property("anchorOffset").equal(2);
+        expect(selection).to.have.property("focusNode").equal(liveText);
+        expect(selection).to.have.property("focusOffset").equal(2);
+      });
+
+      it("throws if the range is outside the space", () => {
+        expect(() => range(liveText, 2, live, 2)
+               .select(document.getSelection()!,
+                       DOMSpace.makeSpanningNode(liveB)))
+          .to.throw(DOMSpaceScopeError);
+      });
+    });
+  });
+});
+
+describe("DOMMovementError", () => {
+  let doc: Document;
+  let p: Element;
+  let text: Text;
+
+  beforeEach(() => {
+    doc = new DOMParser().parseFromString("<div><p>abc</p><p>def</p></div>",
+                                          "text/xml");
+    p = doc.getElementsByTagName("p")[1];
+    text = p.firstChild as Text;
+  });
+
+  it("is the base class of the errors of the library", () => {
+    const loc = new DOMLoc(text, 1);
+    const other = new DOMLoc(doc.createElement("q"), 0);
+    const errors = [new DOMSpaceScopeError(loc),
+                    new CannotEscapeIrrelevantNode(loc),
+                    new ReversedRangeError(loc, loc),
+                    new ComparingDisconnectedNodes(loc, other),
+                    new PathResolutionError("/x", "reason"),
+                    new MutationObserverUnavailable("reason")];
+    for (const error of errors) {
+      expect(error).to.be.instanceOf(DOMMovementError);
+      expect(error).to.be.instanceOf(Error);
+    }
+    expect(errors.map(error => error.code)).to.deep.equal([
+      "LOCATION_OUTSIDE_SPACE",
+      "CANNOT_ESCAPE_IRRELEVANT_NODE",
+      "REVERSED_RANGE",
+      "DISCONNECTED_NODES",
+      "UNRESOLVABLE_PATH",
+      "NO_MUTATION_OBSERVER",
+    ]);
+  });
+
+  it("keeps its message when it has no locations", () => {
+    const error = new DOMSpaceScopeError();
+    expect(error).to.have.property("message")
+      .equal("location is not within the space");
+    expect(error).to.have.property("locations").deep.equal([]);
+    expect(error).to.have.property("bounds").undefined;
+  });
+
+  it("reports a location outside a space", () => {
+    const space = DOMSpace.makeSpanningNode(doc.getElementsByTagName("p")[0]);
+    const loc = new DOMLoc(text, 1);
+    let error: unknown;
+    try {
+      space.escapeIrrelevantNode(loc);
+    }
+    catch (ex) {
+      error = ex;
+    }
+    expect(error).to.be.instanceOf(DOMSpaceScopeError);
+    expect(error).to.have.property("locations").deep.equal([loc]);
+    expect(error).to.have.property("bounds")
+      .deep.equal({ min: space.min, max: space.max });
+    expect(error).to.have.property("message")
+      .equal("location is not within the space: /div[1]/p[2]/text()[1]:1 \
+(space from /div[1]/p[1]:0 to /div[1]/p[1]:1)");
+  });
+
+  it("reports the location that cannot be escaped", () => {
+    const min = new DOMLoc(doc, 0);
+    const max = new DOMLoc(p, 0);
+    expect(() => new DOMSpace(min, max, node => node !== p))
+      .to.throw(CannotEscapeIrrelevantNode,
+                "location is irrelevant and cannot be escaped: \
+/div[1]/p[2]:0 (space from /:0 to /div[1]/p[2]:0)")
+      .with.property("locations").deep.equal([max]);
+  });
+
+  it("reports the locations of a reversed range", () => {
+    const start = new DOMLoc(text, 2);
+    const end = new DOMLoc(text, 1);
+    expect(() => new DOMRange(start, end))
+      .to.throw(ReversedRangeError, "tried to use a reversed range: \
+/div[1]/p[2]/text()[1]:2 and /div[1]/p[2]/text()[1]:1")
+      .with.property("locations").deep.equal([start, end]);
+  });
+
+  it("reports the locations of disconnected nodes", () => {
+    const loc = new DOMLoc(text, 0);
+    const other = new DOMLoc(doc.createElement("q"), 0);
+    expect(() => loc.compare(other))
+      .to.throw(ComparingDisconnectedNodes, "cannot compare disconnected \
+nodes: /div[1]/p[2]/text()[1]:0 and q:0")
+      .with.property("locations").deep.equal([loc, other]);
+  });
+
+  it("reports the bounds of the space in which a path is resolved", () => {
+    const space = DOMSpace.makeSpanningNode(p);
+    expect(() => space.locationFromPath("/x[1]:0"))
+      .to.throw(PathResolutionError,
+                "cannot resolve path /x[1]:0: there is no x[1] in / \
+(space from /div[1]/p[2]:0 to /div[1]/p[2]:1)")
+      .with.property("bounds").deep.equal({ min: space.min, max: space.max });
+  });
+});
+
+describe("simpleGraphemeSegmenter", () => {
+  function segment(text: string): string[] {
+    return Array.from(simpleGraphemeSegmenter(text), x => x.segment);
+  }
+
+  it("segments plain text by code units", () => {
+    expect(segment("abc")).to.deep.equal(["a", "b", "c"]);
+  });
+
+  it("keeps CR LF together", () => {
+    expect(segment("a\r\nb")).to.deep.equal(["a", "\r\n", "b"]);
+  });
+
+  it("keeps surrogate pairs together", () => {
+    expect(segment("a\ud83d\ude00b"))
+      .to.deep.equal(["a", "\ud83d\ude00", "b"]);
+  });
+
+  it("keeps combining marks with their base", () => {
+    expect(segment("e\u0301\u0302a")).to.deep.equal(["e\u0301\u0302", "a"]);
+  });
+
+  it("keeps emoji ZWJ sequences and modifiers together", () => {
+    // Woman, medium skin tone, ZWJ, laptop.
+    const worker = "\ud83d\udc69\ud83c\udffd\u200d\ud83d\udcbb";
+    expect(segment(`a${worker}b`)).to.deep.equal(["a", worker, "b"]);
+  });
+
+  it("keeps pairs of regional indicators together", () => {
+    const flag = "\ud83c\udde8\ud83c\udde6";
+    expect(segment(`${flag}${flag}`)).to.deep.equal([flag, flag]);
+  });
+
+  it("reports the index of the segments", () => {
+    expect(Array.from(simpleGraphemeSegmenter("e\u0301a"), x => x.index))
+      .to.deep.equal([0, 2]);
+  });
+});
+
+describe("simpleWordSegmenter", () => {
+  function words(text: string): string[] {
+    return Array.from(simpleWordSegmenter(text))
+      .filter(x => x.isWordLike === true).map(x => x.segment);
+  }
+
+  it("finds words separated by spaces and punctuation", () => {
+    expect(words("I am a (little) teapot, short and stout."))
+      .to.deep.equal(["I", "am", "a", "little", "teapot", "short", "and",
+                      "stout"]);
+  });
+
+  it("keeps apostrophes inside words", () => {
+    expect(words("don't 'quote' l\u2019eau"))
+      .to.deep.equal(["don't", "quote", "l\u2019eau"]);
+  });
+
+  it("covers the whole string", () => {
+    expect(Array.from(simpleWordSegmenter("a, b"), x => x.segment))
+      .to.deep.equal(["a", ",", " ", "b"]);
+  });
+});
+
+describe("simpleSentenceSegmenter", () => {
+  function sentences(text: string): string[] {
+    return Array.from(simpleSentenceSegmenter(text), x => x.segment);
+  }
+
+  it("splits after sentence-ending punctuation", () => {
+    expect(sentences("One. Two! Three? Four"))
+      .to.deep.equal(["One. ", "Two! ", "Three? ", "Four"]);
+  });
+
+  it("keeps closing quotes in the sentence", () => {
+    expect(sentences("He said \"stop.\" Then he left."))
+      .to.deep.equal(["He said \"stop.\" ", "Then he left."]);
+  });
+
+  it("produces nothing for an empty string", () => {
+    expect(sentences("")).to.deep.equal([]);
+  });
+});
+
+describe("htmlBlockTest", () => {
+  let doc: Document;
+
+  before(() => {
+    doc = new DOMParser().parseFromString("<div/>", "text/xml");
+  });
+
+  it("returns true for block elements", () => {
+    expect(htmlBlockTest(doc.createElement("p"))).to.be.true;
+    expect(htmlBlockTest(doc.createElement("LI"))).to.be.true;
+  });
+
+  it("returns false for inline elements", () => {
+    expect(htmlBlockTest(doc.createElement("b"))).to.be.false;
+  });
+
+  it("returns false for nodes that are not elements", () => {
+    expect(htmlBlockTest(doc.createTextNode("p"))).to.be.false;
+  });
+});
+
+describe("htmlAtomicTest", () => {
+  let doc: Document;
+
+  before(() => {
+    doc = new DOMParser().parseFromString("<div/>", "text/xml");
+  });
+
+  it("returns true for atomic elements", () => {
+    expect(htmlAtomicTest(doc.createElement("img"))).to.be.true;
+    expect(htmlAtomicTest(doc.createElement("BR"))).to.be.true;
+    expect(htmlAtomicTest(doc.createElement("math"))).to.be.true;
+  });
+
+  it("returns false for other elements", () => {
+    expect(htmlAtomicTest(doc.createElement("b"))).to.be.false;
+  });
+
+  it("returns false for nodes that are not elements", () => {
+    expect(htmlAtomicTest(doc.createTextNode("img"))).to.be.false;
+  });
+});
+
+describe("htmlMarkupRelevanceTest", () => {
+  let doc: Document;
+
+  before(() => {
+    doc = new DOMParser().parseFromString(
+      "<div><p hidden=''/><p aria-hidden='true'/><p aria-hidden='false'/>\
+</div>", "text/xml");
+  });
+
+  it("returns false for elements whose content is not rendered", () => {
+    expect(htmlMarkupRelevanceTest(doc.createElement("script"))).to.be.false;
+    expect(htmlMarkupRelevanceTest(doc.createElement("STYLE"))).to.be.false;
+    expect(htmlMarkupRelevanceTest(doc.createElement("template"))).to.be.false;
+  });
+
+  it("returns false for elements that are hidden by attributes", () => {
+    const [hidden, ariaHidden] = Array.from(doc.getElementsByTagName("p"));
+    expect(htmlMarkupRelevanceTest(hidden)).to.be.false;
+    expect(htmlMarkupRelevanceTest(ariaHidden)).to.be.false;
+  });
+
+  it("returns false for elements that are hidden by inline style", () => {
+    const none = document.createElement("span");
+    none.style.display = "none";
+    expect(htmlMarkupRelevanceTest(none)).to.be.false;
+    const invisible = document.createElement("span");
+    invisible.style.visibility = "hidden";
+    expect(htmlMarkupRelevanceTest(invisible)).to.be.false;
+  });
+
+  it("returns true for other elements", () => {
+    expect(htmlMarkupRelevanceTest(doc.getElementsByTagName("p")[2]))
+      .to.be.true;
+    expect(htmlMarkupRelevanceTest(document.createElement("span"))).to.be.true;
+  });
+
+  it("returns true for nodes that are not elements", () => {
+    expect(htmlMarkupRelevanceTest(doc.createTextNode("script"))).to.be.true;
+  });
+});
+
+describe("htmlRenderedRelevanceTest", () => {
+  let div: HTMLElement;
+  let style: HTMLStyleElement;
+
+  before(() => {
+    div = document.createElement("div");
+    // tslint:disable-next-line:no-inner-html
+    div.innerHTML = "<span class='gone'></span><span class='invisible'></span>\
+<span class='collapsed'></span><span aria-hidden='true'></span><span></span>";
+    document.body.append(div);
+    style = document.createElement("style");
+    style.textContent = ".gone { display: none; } \
+.invisible { visibility: hidden; } .collapsed { visibility: collapse; }";
+    document.head.append(style);
+  });
+
+  after(() => {
+    document.body.removeChild(div);
+    document.head.removeChild(style);
+  });
+
+  it("returns false for elements that are not rendered", () => {
+    const [gone, invisible, collapsed] = Array.from(div.children);
+    expect(htmlRenderedRelevanceTest(gone)).to.be.false;
+    expect(htmlRenderedRelevanceTest(invisible)).to.be.false;
+    expect(htmlRenderedRelevanceTest(collapsed)).to.be.false;
+  });
+
+  it("returns false for elements hidden by markup", () => {
+    expect(htmlRenderedRelevanceTest(div.children[3])).to.be.false;
+  });
+
+  it("returns true for rendered elements", () => {
+    expect(htmlRenderedRelevanceTest(div.children[4])).to.be.true;
+  });
+
+  it("returns true for nodes that are not elements", () => {
+    expect(htmlRenderedRelevanceTest(document.createTextNode("a"))).to.be.true;
+  });
+
+  it("uses markup alone in documents without a window", () => {
+    const other = new DOMParser().parseFromString(
+      "<div><p/><p hidden=''/></div>", "text/xml");
+    const [shown, hidden] = Array.from(other.getElementsByTagName("p"));
+    expect(htmlRenderedRelevanceTest(shown)).to.be.true;
+    expect(htmlRenderedRelevanceTest(hidden)).to.be.false;
+  });
+
+  it("makes a space skip hidden content", () => {
+    const space = DOMSpace.makeSpanningNode(div, htmlRenderedRelevanceTest);
+    expect(Array.from(space)).to.deep.equal([
+      new DOMLoc(div, 0),
+      new DOMLoc(div, 1),
+      new DOMLoc(div, 2),
+      new DOMLoc(div, 3),
+      new DOMLoc(div, 4),
+      new DOMLoc(div.children[4], 0),
+      new DOMLoc(div, 5),
+    ]);
+  });
+});
+
+describe("relevance test builders", () => {
+  let doc: Document;
+  let note: Element;
+  let plain: Element;
+  let foreign: Element;
+
+  before(() => {
+    doc = new DOMParser().parseFromString(
+      "<div xmlns:f='urn:foreign'><p class='note'/><p/><f:p/></div>",
+      "text/xml");
+    [note, plain] = Array.from(doc.getElementsByTagName("p"));
+    foreign = doc.getElementsByTagNameNS("urn:foreign", "p")[0];
+  });
+
+  describe("selectorTest", () => {
+    it("passes the elements that match the selectors", () => {
+      const test = selectorTest(".note, .sr-only");
+      expect(test(note)).to.be.true;
+      expect(test(plain)).to.be.false;
+      expect(test(doc.createTextNode("a"))).to.be.false;
+      expect(test.description).to.equal("matches \".note, .sr-only\"");
+    });
+  });
+
+  describe("nameTest", () => {
+    it("passes the elements with the namespace and local name", () => {
+      const test = nameTest("urn:foreign", "p");
+      expect(test(foreign)).to.be.true;
+      expect(test(plain)).to.be.false;
+      expect(test(doc.createTextNode("p"))).to.be.false;
+      expect(test.description).to.equal("is {urn:foreign}p");
+      expect(nameTest(null, "p")(plain)).to.be.true;
+      expect(nameTest(null, "p").description).to.equal("is {}p");
+    });
+  });
+
+  describe("and", () => {
+    it("passes the nodes that pass all the tests", () => {
+      const test = and(nameTest(null, "p"), not(selectorTest(".note")));
+      expect(test(plain)).to.be.true;
+      expect(test(note)).to.be.false;
+      expect(test(foreign)).to.be.false;
+      expect(test.description)
+        .to.equal("(is {}p and not matches \".note\")");
+    });
+  });
+
+  describe("or", () => {
+    it("passes the nodes that pass any of the tests", () => {
+      const test = or(nameTest("urn:foreign", "p"), selectorTest(".note"));
+      expect(test(note)).to.be.true;
+      expect(test(foreign)).to.be.true;
+      expect(test(plain)).to.be.false;
+      expect(test.description)
+        .to.equal("(is {urn:foreign}p or matches \".note\")");
+    });
+  });
+
+  describe("not", () => {
+    it("passes the nodes that fail the test", () => {
+      const test = not(selectorTest(".note"));
+      expect(test(note)).to.be.false;
+      expect(test(plain)).to.be.true;
+    });
+
+    it("describes tests that have no description by their name", () => {
+      expect(not(htmlBlockTest).description).to.equal("not htmlBlockTest");
+      expect(not(() => true).description).to.equal("not anonymous test");
+    });
+  });
+
+  describe("rule", () => {
+    it("describes a test", () => {
+      const test = rule("no notes", not(selectorTest(".note")));
+      expect(test(note)).to.be.false;
+      expect(test(plain)).to.be.true;
+      expect(test.description).to.equal("no notes");
+    });
+  });
+});
+
+describe("htmlPreserveWhitespaceTest", () => {
+  let doc: Document;
+
+  before(() => {
+    doc = new DOMParser().parseFromString(
+      "<div xmlns:xml='http://www.w3.org/XML/1998/namespace'>\
+<p xml:space='preserve'/><q xml:space='default'/></div>", "text/xml");
+  });
+
+  it("returns true for pre", () => {
+    expect(htmlPreserveWhitespaceTest(doc.createElement("pre"))).to.be.true;
+  });
+
+  it("returns true for elements with xml:space set to preserve", () => {
+    expect(htmlPreserveWhitespaceTest(doc.getElementsByTagName("p")[0]))
+      .to.be.true;
+  });
+
+  it("returns false for other elements", () => {
+    expect(htmlPreserveWhitespaceTest(doc.getElementsByTagName("q")[0]))
+      .to.be.false;
+    expect(htmlPreserveWhitespaceTest(doc.documentElement)).to.be.false;
+  });
+
+  it("returns false for nodes that are not elements", () => {
+    expect(htmlPreserveWhitespaceTest(doc.createTextNode("pre")))
+      .to.be.false;
+  });
+});
+
+describe("makeIntlSegmenter", () => {
+  // tslint:disable-next-line:no-any mocha-no-side-effect-code
+  const available = (Intl as any).Segmenter !== undefined;
+
+  // tslint:disable-next-line:mocha-no-side-effect-code
+  if (available) {
+    it("makes a segmenter", () => {
+      const segmenter = makeIntlSegmenter("grapheme")!;
+      expect(Array.from(segmenter("e\u0301a"), x => x.segment))
+        .to.deep.equal(["e\u0301", "a"]);
+    });
+  }
+  else {
+    it("returns undefined", () => {
+      expect(makeIntlSegmenter("grapheme")).to.be.undefined;
+    });
+  }
+});
+
+interface DocInfo {
+  doc: Document;
+  expectedPositions: [Node, number][];
+}
+
+describe("DOMSpace", () => {
+  let doc: Document;
+  let docs: Record<string, DocInfo>;
+
+  before(() => {
+    doc = new DOMParser().parseFromString(
+      `<div><div>A <p>paragraph with <b>text</b> and stuff</p></div>\
+<div>Another div.</div></div>`,
+      "text/xml");
+
+    {
+      docs = Object.create(null);
+      const local = new DOMParser().parseFromString(
+        `<div><div>A <p>paragraph with <b>text</b> and stuff</p></div>\
+<div>Another div.</div></div>`,
+        "text/xml");
+
+      // tslint:disable:no-non-null-assertion
+      const topDiv = local.firstElementChild!;
+      const divDiv1 = local.querySelector("div>div")!;
+      const divDiv1P = local.querySelector("div>div>p")!;
+      const divDiv1PB = local.querySelector("div>div>p>b")!;
+      const divDiv2 = local.querySelectorAll("div>div")[1];
+      const expectedPositions: [Node, number][] = [
+        [local, 0],
+        [topDiv, 0],
+        [divDiv1, 0],
+        ...generateTextLocs(divDiv1.firstChild as Text),
+        [divDiv1, 1],
+        [divDiv1P, 0],
+        ...generateTextLocs(divDiv1P.firstChild as Text),
+        [divDiv1P, 1],
+        [divDiv1PB, 0],
+        ...generateTextLocs(divDiv1PB.firstChild as Text),
+        [divDiv1PB, 1],
+        [divDiv1P, 2],
+        ...generateTextLocs(divDiv1P.childNodes[2] as Text),
+        [divDiv1P, 3],
+        [divDiv1, 2],
+        [topDiv, 1],
+        [divDiv2, 0],
+        ...generateTextLocs(divDiv2.firstChild as Text),
+        [divDiv2, 1],
+        [topDiv, 2],
+        [local, 1],
+      ];
+      docs.allRelevant = { doc: local, expectedPositions };
+    }
+
+    {
+      const local = new DOMParser().parseFromString(
+        `<div><div>A <p>paragraph <ig>foo</ig>with <b>text</b><ig>bar</ig> \
+and stuff<ig>baz</ig></p></div><!-- baz --><div>Another div.</div></div>`,
+        "text/xml");
+
+      // tslint:disable:no-non-null-assertion
+      const topDiv = local.firstElementChild!;
+      const divDiv1 = local.querySelector("div>div")!;
+      const divDiv1P = local.querySelector("div>div>p")!;
+      const divDiv1PB = local.querySelector("div>div>p>b")!;
+      const divDiv2 = local.querySelectorAll("div>div")[1];
+      const expectedPositions: [Node, number][] = [
+        [local, 0],
+        [topDiv, 0],
+        [divDiv1, 0],
+        ...generateTextLocs(divDiv1.firstChild as Text),
+        [divDiv1, 1],
+        [divDiv1P, 0],
+        ...generateTextLocs(divDiv1P.firstChild as Text),
+        [divDiv1P, 1],
+        [divDiv1P, 2],
+        ...generateTextLocs(divDiv1P.childNodes[2] as Text),
+        [divDiv1P, 3],
+        [divDiv1PB, 0],
+        ...generateTextLocs(divDiv1PB.firstChild as Text),
+        [divDiv1PB, 1],
+        [divDiv1P, 4],
+        [divDiv1P, 5],
+        ...generateTextLocs(divDiv1P.childNodes[5] as Text),
+        [divDiv1P, 6],
+        [divDiv1P, 7],
+        [divDiv1, 2],
+        [topDiv, 1],
+        [topDiv, 2],
+        [divDiv2, 0],
+        ...generateTextLocs(divDiv2.firstChild as Text),
+        [divDiv2, 1],
+        [topDiv, 3],
+        [local, 1],
+      ];
+
+      docs.irrelevant = { doc: local, expectedPositions };
+    }
+  });
+
+  describe("#constructor()", () => {
+    it("constructs without test", () => {
+      new DOMSpace(new DOMLoc(doc, 0), new DOMLoc(doc, 1));
+    });
+
+    it("constructs with test", () => {
+      new DOMSpace(new DOMLoc(doc, 0), new DOMLoc(doc, 1), () => true);
+    });
+
+    it("throws if min is irrelevant", () => {
+      expect(() => new DOMSpace(
+        new DOMLoc(doc, 0),
+        new DOMLoc(doc.getElementsByTagName("div")[0], 0), x => x === doc))
+        .to.throw(CannotEscapeIrrelevantNode,
+                  "location is irrelevant and cannot be escaped");
+    });
+
+    it("throws if max is irrelevant", () => {
+      const div = doc.getElementsByTagName("div")[0];
+      expect(() => new DOMSpace(new DOMLoc(doc, 0), new DOMLoc(div, 0),
+                                x => x === div))
+        .to.throw(CannotEscapeIrrelevantNode,
+                  "location is irrelevant and cannot be escaped");
+    });
+
+    it("throws if max is less than min", () => {
+      expect(() => new DOMSpace(
+        new DOMLoc(doc.getElementsByTagName("div")[0], 0),
+        new DOMLoc(doc, 0)))
+        .to.throw(ReversedRangeError, "tried to use a reversed range");
+    });
+
+    it("constructs with min equal to max", () => {
+      new DOMSpace(new DOMLoc(doc, 0), new DOMLoc(doc, 0));
+    });
+  });
+
+  describe(".makeSpanningNode", () => {
+    it("makes a space that spans the node", () => {
+      const space = DOMSpace.makeSpanningNode(doc);
+      expect(space).to.have.nested.property("min.node").equal(doc);
+      expect(space).to.have.nested.property("min.offset").equal(0);
+      expect(space).to.have.nested.property("max.node").equal(doc);
+      expect(space).to.have.nested.property("max.offset")
+        .equal(doc.childNodes.length);
+    });
+  });
+
+  describe("#isRelevant()", () => {
+    describe("(when ``relevanceTest`` not provided)", () => {
+      for (const { name, getNode } of [
+        { name: "a document", getNode: () => doc },
+        // tslint:disable-next-line:mocha-no-side-effect-code
+        { name: "an element", getNode: () => doc.createElement("p") },
+        { name: "a document fragment",
+          // tslint:disable-next-line:mocha-no-side-effect-code
+          getNode: () => doc.createDocumentFragment() },
+        // tslint:disable-next-line:mocha-no-side-effect-code
+        { name: "a text node", getNode: () => doc.createTextNode("") },
+      ]) {
+        it(`returns true on ${name}`, () => {
+          // tslint:disable-next-line:chai-vague-errors
+          expect(DOMSpace.makeSpanningNode(doc).isRelevant(getNode()))
+            .to.be.true;
+        });
+      }
+
+      for (const { name, getNode } of [
+        // tslint:disable-next-line:mocha-no-side-effect-code
+        { name: "an attribute", getNode: () => doc.createAttribute("x") },
+        // tslint:disable-next-line:mocha-no-side-effect-code
+        { name: "an comment", getNode: () => doc.createComment("") },
+        // tslint:disable-next-line:mocha-no-side-effect-code
+        { name: "a CData section", getNode: () => doc.createCDATASection("") },
+        { name: "a PI",
+          // tslint:disable-next-line:mocha-no-side-effect-code
+          getNode: () => doc.createProcessingInstruction("a", "b") },
+        // There does not seem to be a way to simple create a
+        // document type node.
+        // { name: "a document type", getNode: () => ??? },
+      ]) {
+        it(`returns false on ${name}`, () => {
+          // tslint:disable-next-line:chai-vague-errors
+          expect(DOMSpace.makeSpanningNode(doc).isRelevant(getNode()))
+            .to.be.false;
+        });
+      }
+    });
+
+    describe("(when ``relevanceTest`` provided)", () => {
+      it("calls ``relevanceTest`` with node passing built-in tests", () => {
+        const stub = sinon.stub();
+        stub.returns(true);
+        const space = DOMSpace.makeSpanningNode(doc, stub);
+        stub.resetHistory();
+        // tslint:disable-next-line:chai-vague-errors
+        expect(space.isRelevant(doc)).to.be.true;
+        expect(stub).to.have.been.calledOnce.and.been.calledWith(doc);
+      });
+
+      it("returns ``relevanceTest``'s return value with node passing \
+built-in tests",
+         () => {
+           const p = doc.getElementsByTagName("p")[0];
+           const stub = sinon.stub();
+           stub.returns(true);
+           const space = DOMSpace.makeSpanningNode(doc, stub);
+           stub.resetHistory();
+           // tslint:disable-next-line:chai-vague-errors
+           expect(space.isRelevant(p)).to.be.true;
+           expect(stub).to.have.been.calledOnce.and.been.calledWith(p);
+           // tslint:disable-next-line:chai-vague-errors
+           expect(DOMSpace.makeSpanningNode(doc, node => node !== p)
+                  .isRelevant(p)).to.be.false;
+         });
+
+      it("does not call ``relevanceTest`` with node failing built-in tests",
+         () => {
+           const stub = sinon.stub();
+           stub.returns(true);
+           const clone = doc.cloneNode(true);
+           const comment = doc.createComment("Q");
            clone.firstChild!.appendChild(comment);
            const space = DOMSpace.makeSpanningNode(doc, stub);
            stub.resetHistory();
@@ -641,276 +1653,3032 @@ built-in tests",
     });
   });
 
-  describe("#contains()", () => {
-    it("returns true if the location is contained", () => {
-      // tslint:disable-next-line:chai-vague-errors
-      expect(DOMSpace.makeSpanningNode(doc).contains(new DOMLoc(doc, 0)))
-        .to.be.true;
+  describe("relevant node types", () => {
+    let local: Document;
+    let p: Element;
+    let text: Text;
+    let cdata: CDATASection;
+    let comment: Comment;
+    let pi: ProcessingInstruction;
+
+    const allTypes = [
+      Node.ELEMENT_NODE,
+      Node.TEXT_NODE,
+      Node.CDATA_SECTION_NODE,
+      Node.COMMENT_NODE,
+      Node.PROCESSING_INSTRUCTION_NODE,
+      Node.DOCUMENT_NODE,
+    ];
+
+    before(() => {
+      local = new DOMParser().parseFromString(
+        "<p>a<![CDATA[bc]]><!--d--><?pi e?></p>", "text/xml");
+      p = local.documentElement;
+      text = p.childNodes[0] as Text;
+      cdata = p.childNodes[1] as CDATASection;
+      comment = p.childNodes[2] as Comment;
+      pi = p.childNodes[3] as ProcessingInstruction;
+    });
+
+    function makeSpace(relevantNodeTypes: number[] = allTypes,
+                       options: DOMSpaceOptions = {}): DOMSpace {
+      return DOMSpace.makeSpanningNode(local, undefined,
+                                       { ...options, relevantNodeTypes });
+    }
+
+    it("defaults to elements, text, documents and fragments", () => {
+      const space = DOMSpace.makeSpanningNode(local);
+      expect(space.isRelevant(text)).to.be.true;
+      expect(space.isRelevant(cdata)).to.be.false;
+      expect(space.isRelevant(comment)).to.be.false;
+      expect(space.isRelevant(pi)).to.be.false;
+    });
+
+    it("makes the specified types relevant", () => {
+      const space = makeSpace([Node.ELEMENT_NODE, Node.TEXT_NODE,
+                               Node.COMMENT_NODE, Node.DOCUMENT_NODE]);
+      expect(space.isRelevant(comment)).to.be.true;
+      expect(space.isRelevant(cdata)).to.be.false;
+    });
+
+    it("throws on types that cannot be relevant", () => {
+      expect(() => makeSpace([...allTypes, Node.ATTRIBUTE_NODE]))
+        .to.throw(Error, "nodes of type 2 cannot be relevant");
+    });
+
+    it("moves through character data", () => {
+      const space = makeSpace();
+      const expected = [
+        new DOMLoc(local, 0),
+        new DOMLoc(p, 0),
+        new DOMLoc(text, 0),
+        new DOMLoc(text, 1),
+        new DOMLoc(p, 1),
+        new DOMLoc(cdata, 0),
+        new DOMLoc(cdata, 1),
+        new DOMLoc(cdata, 2),
+        new DOMLoc(p, 2),
+        new DOMLoc(comment, 0),
+        new DOMLoc(comment, 1),
+        new DOMLoc(p, 3),
+        new DOMLoc(pi, 0),
+        new DOMLoc(pi, 1),
+        new DOMLoc(p, 4),
+        new DOMLoc(local, 1),
+      ];
+      for (let ix = 0; ix < expected.length - 1; ++ix) {
+        expect(space.next(expected[ix])).to.deep.equal(expected[ix + 1]);
+        expect(space.previous(expected[ix + 1])).to.deep.equal(expected[ix]);
+      }
+      expect(Array.from(space)).to.deep.equal(expected);
+      expect(Array.from(space.reversed()))
+        .to.deep.equal(expected.slice().reverse());
+    });
+
+    it("escapes locations in character data that is not relevant", () => {
+      const space = DOMSpace.makeSpanningNode(local);
+      expect(space.escapeIrrelevantNode(new DOMLoc(comment, 1)))
+        .to.deep.equal(new DOMLoc(p, 2));
+      expect(space.next(new DOMLoc(p, 2))).to.deep.equal(new DOMLoc(p, 3));
+    });
+
+    it("treats CDATA sections as text, but not comments or PIs", () => {
+      expect(makeSpace().textMap().text).to.equal("abc");
+    });
+
+    it("segments text and CDATA sections together", () => {
+      const other = new DOMParser().parseFromString(
+        "<p>e<![CDATA[\u0301f]]></p>", "text/xml");
+      const first = other.documentElement.firstChild!;
+      const space = DOMSpace.makeSpanningNode(other, undefined, {
+        graphemes: simpleGraphemeSegmenter,
+        relevantNodeTypes: allTypes,
+      });
+      expect(space.next(new DOMLoc(first, 0)))
+        .to.deep.equal(new DOMLoc(first.nextSibling!, 1));
+    });
+
+    it("resolves paths into character data", () => {
+      const space = makeSpace();
+      expect(space.locationFromPath("/p[1]/comment()[1]:1"))
+        .to.deep.equal(new DOMLoc(comment, 1));
+      expect(space.locationToPath(new DOMLoc(pi, 1)))
+        .to.equal("/p[1]/processing-instruction()[1]:1");
+    });
+  });
+
+  describe("visible attributes", () => {
+    let local: Document;
+    let p: Element;
+    let title: Attr;
+    let alt: Attr;
+    let text: Text;
+    let space: DOMSpace;
+    let expected: DOMLoc[];
+
+    before(() => {
+      local = new DOMParser().parseFromString(
+        "<div><p title='ab' lang='en' alt='c'>d</p></div>", "text/xml");
+      p = local.getElementsByTagName("p")[0];
+      title = p.getAttributeNode("title")!;
+      alt = p.getAttributeNode("alt")!;
+      text = p.firstChild as Text;
+      space = DOMSpace.makeSpanningNode(local.documentElement, undefined, {
+        visibleAttributes: ["title", "alt"],
+      });
+      const div = local.documentElement;
+      expected = [
+        new DOMLoc(div, 0),
+        new DOMLoc(title, 0),
+        new DOMLoc(title, 1),
+        new DOMLoc(title, 2),
+        new DOMLoc(alt, 0),
+        new DOMLoc(alt, 1),
+        new DOMLoc(p, 0),
+        new DOMLoc(text, 0),
+        new DOMLoc(text, 1),
+        new DOMLoc(p, 1),
+        new DOMLoc(div, 1),
+      ];
+    });
+
+    it("lists the visible attributes of an element", () => {
+      expect(space.visibleAttributesOf(p)).to.deep.equal([title, alt]);
+      expect(space.visibleAttributesOf(text)).to.deep.equal([]);
+      expect(DOMSpace.makeSpanningNode(local).visibleAttributesOf(p))
+        .to.deep.equal([]);
+    });
+
+    it("moves through the values of visible attributes", () => {
+      for (let ix = 0; ix < expected.length - 1; ++ix) {
+        expect(space.next(expected[ix])).to.deep.equal(expected[ix + 1]);
+        expect(space.previous(expected[ix + 1])).to.deep.equal(expected[ix]);
+      }
+      expect(Array.from(space)).to.deep.equal(expected);
+      expect(Array.from(space.reversed()))
+        .to.deep.equal(expected.slice().reverse());
+    });
+
+    it("moves through attributes with a cursor from any location", () => {
+      expected.forEach((start, ix) => {
+        const forward = space.cursor(start);
+        for (const loc of expected.slice(ix + 1)) {
+          expect(forward.moveNext()).to.deep.equal(loc);
+        }
+        expect(forward.moveNext()).to.be.null;
+
+        const backward = space.cursor(start);
+        for (const loc of expected.slice(0, ix).reverse()) {
+          expect(backward.movePrevious()).to.deep.equal(loc);
+        }
+        expect(backward.movePrevious()).to.be.null;
+      });
+    });
+
+    it("moves shallowly over attributes", () => {
+      expect(space.nextShallow(new DOMLoc(title, 1)))
+        .to.deep.equal(new DOMLoc(alt, 0));
+      expect(space.nextShallow(new DOMLoc(alt, 0)))
+        .to.deep.equal(new DOMLoc(p, 0));
+      expect(space.previousShallow(new DOMLoc(alt, 1)))
+        .to.deep.equal(new DOMLoc(title, 2));
+      expect(space.previousShallow(new DOMLoc(title, 1)))
+        .to.deep.equal(new DOMLoc(local.documentElement, 0));
+    });
+
+    it("escapes locations in attributes that are not visible", () => {
+      const lang = p.getAttributeNode("lang")!;
+      expect(space.escapeIrrelevantNode(new DOMLoc(lang, 1)))
+        .to.deep.equal(new DOMLoc(p, 0));
+      expect(space.escapeIrrelevantNode(new DOMLoc(title, 9)))
+        .to.deep.equal(new DOMLoc(title, 2));
+    });
+
+    it("includes the values of visible attributes in the text", () => {
+      const map = space.textMap();
+      expect(map.text).to.equal("abcd");
+      expect(map.offsetOf(new DOMLoc(alt, 1))).to.equal(3);
+      expect(map.locationAt(1)).to.deep.equal(new DOMLoc(title, 1));
+    });
+
+    it("does not count attribute values as crossing blocks", () => {
+      expect(space.textMap({ blockSeparator: "\n" }).text).to.equal("abcd");
+    });
+
+    it("produces and resolves paths into visible attributes", () => {
+      const loc = new DOMLoc(alt, 1);
+      const path = space.locationToPath(loc);
+      expect(path).to.equal("/p[1]/@alt:1");
+      expect(space.locationFromPath(path)).to.deep.equal(loc);
+    });
+
+    it("rejects paths into attributes that are missing or not visible", () => {
+      expect(() => space.locationFromPath("/p[1]/@id:0"))
+        .to.throw(PathResolutionError, "there is no @id in /p[1]");
+      expect(() => space.locationFromPath("/p[1]/@lang:0"))
+        .to.throw(PathResolutionError, "@lang is not a visible attribute");
+    });
+  });
+
+  describe("relevance cache", () => {
+    let local: Document;
+    let div: Element;
+    let p: Element;
+    let text: Text;
+
+    beforeEach(() => {
+      local = new DOMParser().parseFromString(
+        "<div><p>a</p><q>b</q></div>", "text/xml");
+      div = local.documentElement;
+      p = div.firstChild as Element;
+      text = p.firstChild as Text;
+    });
+
+    function makeSpace(relevanceCache: DOMSpaceOptions["relevanceCache"],
+                       test: NodeTest = node => !(node as Element).matches?.(
+                         "[hidden]")): [DOMSpace, sinon.SinonSpy] {
+      const spy = sinon.spy(test);
+      const space = DOMSpace.makeSpanningNode(div, spy, { relevanceCache });
+      spy.resetHistory();
+
+      return [space, spy];
+    }
+
+    it("does not cache by default", () => {
+      const [space, spy] = makeSpace(undefined);
+      space.isRelevant(p);
+      space.isRelevant(p);
+      expect(spy).to.have.been.calledTwice;
+    });
+
+    it("calls the relevance test once per node", () => {
+      const [space, spy] = makeSpace("manual");
+      const locations = Array.from(space);
+      const { callCount } = spy;
+      expect(Array.from(space)).to.deep.equal(locations);
+      expect(spy).to.have.callCount(callCount);
+      space.isRelevant(p);
+      expect(spy).to.have.callCount(callCount);
+    });
+
+    it("caches contextual relevance", () => {
+      const [space, spy] = makeSpace("manual");
+      p.setAttribute("hidden", "");
+      space.invalidateRelevance();
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.isContextuallyRelevant(text)).to.be.false;
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.isRelevant(text)).to.be.true;
+      spy.resetHistory();
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.isContextuallyRelevant(text)).to.be.false;
+      expect(spy).to.not.have.been.called;
+    });
+
+    it("forgets what it is told to forget", () => {
+      const [space, spy] = makeSpace("manual");
+      Array.from(space);
+      p.setAttribute("hidden", "");
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.isRelevant(p)).to.be.true;
+      space.invalidateRelevance(p);
+      spy.resetHistory();
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.isRelevant(p)).to.be.false;
+      space.isRelevant(text);
+      space.isRelevant(div);
+      expect(spy).to.have.been.calledTwice
+        .and.been.calledWith(p).and.been.calledWith(text);
+    });
+
+    it("forgets the text maps", () => {
+      const [space] = makeSpace("manual");
+      const map = space.textMap();
+      expect(map.text).to.equal("ab");
+      p.setAttribute("hidden", "");
+      space.invalidateRelevance();
+      expect(space.textMap()).to.not.equal(map);
+      expect(space.textMap().text).to.equal("b");
+    });
+
+    it("forgets everything when the subtree outgrows the cache", () => {
+      const [space, spy] = makeSpace("manual");
+      space.isRelevant(text);
+      space.invalidateRelevance(div);
+      spy.resetHistory();
+      space.isRelevant(text);
+      expect(spy).to.have.been.calledOnceWith(text);
+    });
+
+    it("stops observing when disconnected", () => {
+      const [space, spy] = makeSpace("observe");
+      const disconnect = sinon.spy(MutationObserver.prototype, "disconnect");
+      try {
+        space.disconnect();
+        expect(disconnect).to.have.been.calledOnce;
+      }
+      finally {
+        disconnect.restore();
+      }
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.isRelevant(p)).to.be.true;
+      p.setAttribute("hidden", "");
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.isRelevant(p)).to.be.true;
+      expect(spy).to.have.been.calledOnce;
+      space.invalidateRelevance();
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.isRelevant(p)).to.be.false;
+    });
+
+    it("forgets what changed, when observing", () => {
+      const [space, spy] = makeSpace("observe");
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.isRelevant(p)).to.be.true;
+      p.setAttribute("hidden", "");
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.isRelevant(p)).to.be.false;
+      spy.resetHistory();
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.isRelevant(p)).to.be.false;
+      expect(spy).to.not.have.been.called;
+    });
+  });
+
+  describe("#explainIrrelevance()", () => {
+    let local: Document;
+    let div: Element;
+    let note: Element;
+    let comment: Comment;
+    let blank: Text;
+
+    before(() => {
+      local = new DOMParser().parseFromString(
+        "<div> <p class='note'>a</p><p class='aside'>b</p><!--c--></div>",
+        "text/xml");
+      div = local.documentElement;
+      note = div.childNodes[1] as Element;
+      blank = div.firstChild as Text;
+      comment = div.lastChild as Comment;
+    });
+
+    function makeSpace(relevanceTest?: NodeTest): DOMSpace {
+      return DOMSpace.makeSpanningNode(div, relevanceTest, {
+        collapseWhitespace: true,
+      });
+    }
+
+    it("returns null for relevant nodes", () => {
+      expect(makeSpace().explainIrrelevance(note.firstChild!)).to.be.null;
+    });
+
+    it("reports node types that are not relevant", () => {
+      expect(makeSpace().explainIrrelevance(comment)).to.deep.equal({
+        node: comment,
+        cause: "nodeType",
+        reason: "nodes of type 8 are not relevant",
+      });
+    });
+
+    it("reports text that contains only collapsed whitespace", () => {
+      expect(makeSpace().explainIrrelevance(blank)).to.deep.equal({
+        node: blank,
+        cause: "collapsedWhitespace",
+        reason: "the text node contains only collapsed whitespace",
+      });
+    });
+
+    it("reports the rule of the relevance test that fails", () => {
+      const space = makeSpace(and(rule("no notes", not(selectorTest(".note"))),
+                                  not(selectorTest(".aside"))));
+      expect(space.explainIrrelevance(note)).to.deep.equal({
+        node: note,
+        cause: "relevanceTest",
+        reason: "no notes",
+      });
+      expect(space.explainIrrelevance(div.childNodes[2])).to.deep.equal({
+        node: div.childNodes[2],
+        cause: "relevanceTest",
+        reason: "not matches \".aside\"",
+      });
+    });
+
+    it("reports the ancestor that makes a node irrelevant", () => {
+      const space = makeSpace(not(selectorTest(".note")));
+      expect(space.explainIrrelevance(note.firstChild!)).to.deep.equal({
+        node: note,
+        cause: "relevanceTest",
+        reason: "not matches \".note\"",
+      });
+    });
+  });
+
+  describe("#contains()", () => {
+    it("returns true if the location is contained", () => {
+      // tslint:disable-next-line:chai-vague-errors
+      expect(DOMSpace.makeSpanningNode(doc).contains(new DOMLoc(doc, 0)))
+        .to.be.true;
+    });
+
+    it("returns false if the location is less than min", () => {
+      const div = doc.getElementsByTagName("div")[0];
+      const space = DOMSpace.makeSpanningNode(div);
+      const loc = new DOMLoc(doc, 0);
+      expect(space.min.compare(loc)).to.equal(1);
+      expect(space.max.compare(loc)).to.equal(1);
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.contains(loc)).to.be.false;
+    });
+
+    it("returns false if the location is more than max", () => {
+      const div = doc.getElementsByTagName("div")[0];
+      const space = DOMSpace.makeSpanningNode(div);
+      const loc = new DOMLoc(doc, 1);
+      expect(space.min.compare(loc)).to.equal(-1);
+      expect(space.max.compare(loc)).to.equal(-1);
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.contains(loc)).to.be.false;
+    });
+
+    it("returns false if the node is disconnected", () => {
+      // tslint:disable-next-line:chai-vague-errors
+      expect(DOMSpace.makeSpanningNode(doc).contains(new DOMLoc(document, 0)))
+        .to.be.false;
+    });
+  });
+
+  describe("#escapeIrrelevantNode()", () => {
+    let b: Element;
+    let loc: DOMLoc;
+
+    before(() => {
+      b = doc.getElementsByTagName("b")[0];
+      loc = new DOMLoc(b, 0);
+    });
+
+    describe("when start is not in a contextually irrelevant node", () => {
+      it("and start is normalized, returns the same location", () => {
+        expect(DOMSpace.makeSpanningNode(doc).escapeIrrelevantNode(loc))
+          .to.equal(loc);
+      });
+
+      it("and start is not normalized, returns a normalized location", () => {
+        const denormalized = new DOMLoc(b, 9999);
+        const normalized = DOMSpace.makeSpanningNode(doc)
+          .escapeIrrelevantNode(denormalized);
+        expect(normalized).to.have.property("node").equal(b);
+        expect(normalized).to.have.property("offset").equal(1);
+      });
+
+      it("but the node is not in the space, raise an exception", () => {
+        const outside = new DOMLoc(doc.createTextNode("foo"), 0);
+        expect(() => DOMSpace.makeSpanningNode(doc)
+               .escapeIrrelevantNode(outside))
+          .to.throw(DOMSpaceScopeError, "location is not within the space");
+      });
+    });
+
+    describe("when start is in a contextually irrelevant node", () => {
+      it("returns the parent of the topmost irrelevant ancestor", () => {
+        const p = doc.getElementsByTagName("p")[0];
+        const div = doc.querySelector("div>div");
+        // tslint:disable-next-line:chai-vague-errors
+        expect(div).to.not.be.null;
+
+        // We use two kind of relevance tests.
+
+        // The first test makes it so that the p element and all the nodes in it
+        // are individually flagged as irrelevant.
+        let escaped = DOMSpace.makeSpanningNode(doc, node => !p.contains(node))
+          .escapeIrrelevantNode(loc);
+        expect(escaped).to.have.property("node").equal(div);
+        expect(escaped).to.have.property("offset").equal(1);
+
+        // The second test makes it so that **only** the p elment is flagged as
+        // irrelevant. The nodes in it would pass the relevance test but are
+        // ultimately irrelevant because their parent is.
+        escaped = DOMSpace.makeSpanningNode(doc, node => node !== p)
+          .escapeIrrelevantNode(loc);
+        expect(escaped).to.have.property("node").equal(div);
+        expect(escaped).to.have.property("offset").equal(1);
+      });
+
+      it("escapes a child of the node spanned by the space", () => {
+        const p = doc.getElementsByTagName("p")[0];
+        const bold = p.getElementsByTagName("b")[0];
+        const escaped = DOMSpace.makeSpanningNode(p, node => node !== bold)
+          .escapeIrrelevantNode(new DOMLoc(bold.firstChild!, 1));
+        expect(escaped).to.have.property("node").equal(p);
+        expect(escaped).to.have.property("offset").equal(1);
+      });
+
+      it("escapes the topmost node within the space", () => {
+        const local = new DOMParser().parseFromString(
+          "<div><ig>foo</ig><p>x</p></div>", "text/xml");
+        const div = local.documentElement;
+        const ig = div.firstChild!;
+        const space = new DOMSpace(new DOMLoc(div, 0), new DOMLoc(div, 2),
+                                   node => node !== ig);
+        const inIg = new DOMLoc(ig.firstChild!, 1);
+        expect(space.escapeIrrelevantNode(inIg))
+          .to.deep.equal(new DOMLoc(div, 0));
+        expect(space.next(inIg)).to.deep.equal(new DOMLoc(div, 1));
+        expect(space.previous(inIg)).to.be.null;
+      });
+    });
+  });
+
+  describe("clamping and snapping", () => {
+    let local: Document;
+    let ps: Element[];
+    let i: Element;
+
+    before(() => {
+      local = new DOMParser().parseFromString(
+        "<div><p>ab<i>c</i></p><p>de</p><p><q/></p><p>fg</p></div>",
+        "text/xml");
+      ps = Array.from(local.documentElement.childNodes) as Element[];
+      i = local.getElementsByTagName("i")[0];
+    });
+
+    describe("#clamp()", () => {
+      it("maps a location before the space to min", () => {
+        const space = DOMSpace.makeSpanningNode(ps[1]);
+        expect(space.clamp(new DOMLoc(ps[0].firstChild!, 1)))
+          .to.deep.equal(new DOMLoc(ps[1], 0));
+      });
+
+      it("maps a location after the space to max", () => {
+        const space = DOMSpace.makeSpanningNode(ps[1]);
+        expect(space.clamp(new DOMLoc(ps[3].firstChild!, 0)))
+          .to.deep.equal(new DOMLoc(ps[1], 1));
+        expect(space.clamp(new DOMLoc(local, 1)))
+          .to.deep.equal(new DOMLoc(ps[1], 1));
+      });
+
+      it("escapes a location within the space", () => {
+        const space = DOMSpace.makeSpanningNode(local, node => node !== i);
+        expect(space.clamp(new DOMLoc(i.firstChild!, 1)))
+          .to.deep.equal(new DOMLoc(ps[0], 1));
+        expect(space.clamp(new DOMLoc(ps[1].firstChild!, 1)))
+          .to.deep.equal(new DOMLoc(ps[1].firstChild!, 1));
+      });
+
+      it("throws on a location in another tree", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(() => space.clamp(new DOMLoc(local.createElement("p"), 0)))
+          .to.throw(ComparingDisconnectedNodes,
+                    "cannot compare disconnected nodes");
+      });
+    });
+
+    describe("#snap()", () => {
+      it("moves forward to the closest text node", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.snap(new DOMLoc(ps[0], 0), "forward"))
+          .to.deep.equal(new DOMLoc(ps[0].firstChild!, 0));
+        expect(space.snap(new DOMLoc(ps[2], 0), "forward"))
+          .to.deep.equal(new DOMLoc(ps[3].firstChild!, 0));
+      });
+
+      it("moves backward to the closest text node", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.snap(new DOMLoc(ps[2], 0), "backward"))
+          .to.deep.equal(new DOMLoc(ps[1].firstChild!, 2));
+        expect(space.snap(new DOMLoc(ps[1], 0), "backward"))
+          .to.deep.equal(new DOMLoc(i.firstChild!, 1));
+      });
+
+      it("does not move a location inside a text node", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        const loc = new DOMLoc(ps[1].firstChild!, 1);
+        expect(space.snap(loc, "forward")).to.deep.equal(loc);
+        expect(space.snap(loc, "backward")).to.deep.equal(loc);
+      });
+
+      it("escapes the location first", () => {
+        const space = DOMSpace.makeSpanningNode(local, node => node !== i);
+        expect(space.snap(new DOMLoc(i.firstChild!, 0), "forward"))
+          .to.deep.equal(new DOMLoc(ps[1].firstChild!, 0));
+      });
+
+      it("returns null if there is no text node in the direction", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        // tslint:disable-next-line:chai-vague-errors
+        expect(space.snap(new DOMLoc(ps[0], 0), "backward")).to.be.null;
+        // tslint:disable-next-line:chai-vague-errors
+        expect(space.snap(new DOMLoc(local, 1), "forward")).to.be.null;
+      });
+
+      it("throws if the location is not within the space", () => {
+        const space = DOMSpace.makeSpanningNode(ps[1]);
+        expect(() => space.snap(new DOMLoc(ps[0], 0), "forward"))
+          .to.throw(DOMSpaceScopeError, "location is not within the space");
+      });
+    });
+  });
+
+  describe("paths", () => {
+    let local: Document;
+    let top: Element;
+    let p2: Element;
+    let p2Text2: Text;
+
+    before(() => {
+      local = new DOMParser().parseFromString(
+        "<div><p>a</p><!-- c --><p>b<i>c</i>d<![CDATA[e]]>f</p><?pi x?></div>",
+        "text/xml");
+      top = local.documentElement;
+      p2 = top.childNodes[2] as Element;
+      p2Text2 = p2.childNodes[2] as Text;
+    });
+
+    describe("#root", () => {
+      it("is the node spanned by the space", () => {
+        expect(DOMSpace.makeSpanningNode(p2)).to.have.property("root")
+          .equal(p2);
+      });
+
+      it("is the common ancestor of min and max", () => {
+        expect(new DOMSpace(new DOMLoc(top.firstChild!.firstChild!, 0),
+                            new DOMLoc(p2, 1)))
+          .to.have.property("root").equal(top);
+      });
+    });
+
+    describe("#locationToPath()", () => {
+      it("serializes locations", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.locationToPath(new DOMLoc(local, 1))).to.equal("/:1");
+        expect(space.locationToPath(new DOMLoc(top, 3)))
+          .to.equal("/div[1]:3");
+        expect(space.locationToPath(new DOMLoc(p2Text2, 1)))
+          .to.equal("/div[1]/p[2]/text()[2]:1");
+        expect(space.locationToPath(new DOMLoc(p2.childNodes[1], 0)))
+          .to.equal("/div[1]/p[2]/i[1]:0");
+      });
+
+      it("uses the appropriate node tests", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.locationToPath(new DOMLoc(top.childNodes[1], 0)))
+          .to.equal("/div[1]/comment()[1]:0");
+        expect(space.locationToPath(new DOMLoc(top.childNodes[3], 0)))
+          .to.equal("/div[1]/processing-instruction()[1]:0");
+        expect(space.locationToPath(new DOMLoc(p2.childNodes[3], 0)))
+          .to.equal("/div[1]/p[2]/node()[4]:0");
+      });
+
+      it("serializes relative to the root", () => {
+        const space = DOMSpace.makeSpanningNode(p2);
+        expect(space.locationToPath(new DOMLoc(p2Text2, 1)))
+          .to.equal("/text()[2]:1");
+      });
+
+      it("throws if the location is outside the space", () => {
+        const space = DOMSpace.makeSpanningNode(p2);
+        expect(() => space.locationToPath(new DOMLoc(top, 0)))
+          .to.throw(DOMSpaceScopeError);
+      });
+    });
+
+    describe("#locationFromPath()", () => {
+      it("resolves paths", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        for (const loc of space) {
+          expect(space.locationFromPath(space.locationToPath(loc)))
+            .to.deep.equal(loc);
+        }
+      });
+
+      it("resolves paths in another copy of the document", () => {
+        const copy = new DOMParser().parseFromString(
+          new XMLSerializer().serializeToString(local), "text/xml");
+        const path = DOMSpace.makeSpanningNode(local)
+          .locationToPath(new DOMLoc(p2Text2, 1));
+        expect(DOMSpace.makeSpanningNode(copy).locationFromPath(path))
+          .to.deep.equal(new DOMLoc(copy.documentElement.childNodes[2]
+                                    .childNodes[2], 1));
+      });
+
+      function expectError(space: DOMSpace, path: string,
+                           reason: string): void {
+        expect(() => space.locationFromPath(path))
+          .to.throw(PathResolutionError, `cannot resolve path ${path}: \
+${reason}`)
+          .with.property("path", path);
+      }
+
+      it("throws on malformed paths", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expectError(space, "div[1]:0", "the path is malformed");
+        expectError(space, "/div[1]", "the path is malformed");
+        expectError(space, "/div[0]:0", "the step div[0] is malformed");
+        expectError(space, "/div:0", "the step div is malformed");
+        expectError(space, "/div[1]//p[1]:0", "the step  is malformed");
+      });
+
+      it("throws on steps that do not resolve", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expectError(space, "/div[1]/p[3]:0", "there is no p[3] in /div[1]");
+        expectError(space, "/div[1]/p[1]/text()[2]:0",
+                    "there is no text()[2] in /div[1]/p[1]");
+      });
+
+      it("throws on nodes that cannot contain a location", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expectError(space, "/div[1]/comment()[1]:0",
+                    "/div[1]/comment()[1] is not a node that can contain a \
+location");
+      });
+
+      it("throws on offsets that are out of bounds", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expectError(space, "/div[1]/p[1]/text()[1]:2",
+                    "the offset 2 is beyond the end of /div[1]/p[1]/text()[1]");
+      });
+
+      it("throws on locations outside the space", () => {
+        const space = new DOMSpace(new DOMLoc(top, 0), new DOMLoc(top, 2));
+        expectError(space, "/p[2]:0", "the location is not within the space");
+      });
+    });
+  });
+
+  describe("#search()", () => {
+    let local: Document;
+    let p1Text: Text;
+    let bText: Text;
+    let p1Text2: Text;
+    let p2: Element;
+    let p2Text: Text;
+    let p2Text2: Text;
+    let space: DOMSpace;
+
+    before(() => {
+      local = new DOMParser().parseFromString(
+        "<div><p>I am a <b>lit</b>tle teapot.</p>\
+<p>A Little <ig>little</ig> tea.</p></div>", "text/xml");
+      const [p1, p2El] = Array.from(local.documentElement.childNodes);
+      p2 = p2El as Element;
+      p1Text = p1.firstChild as Text;
+      bText = p1.childNodes[1].firstChild as Text;
+      p1Text2 = p1.lastChild as Text;
+      p2Text = p2.firstChild as Text;
+      p2Text2 = p2.lastChild as Text;
+      space = DOMSpace.makeSpanningNode(local,
+                                        node => node.nodeName !== "ig");
+    });
+
+    function range(startNode: Node, startOffset: number,
+                   endNode: Node, endOffset: number): DOMRange {
+      return new DOMRange(new DOMLoc(startNode, startOffset),
+                          new DOMLoc(endNode, endOffset));
+    }
+
+    it("finds strings across nodes", () => {
+      expect(Array.from(space.search("little"))).to.deep.equal([
+        range(bText, 0, p1Text2, 3),
+      ]);
+    });
+
+    it("skips irrelevant nodes", () => {
+      expect(Array.from(space.search("Little  tea"))).to.deep.equal([
+        range(p2Text, 2, p2Text2, 4),
+      ]);
+    });
+
+    it("finds matches case-insensitively", () => {
+      expect(Array.from(space.search("little", { caseInsensitive: true })))
+        .to.deep.equal([
+          range(bText, 0, p1Text2, 3),
+          range(p2Text, 2, p2Text, 8),
+        ]);
+    });
+
+    it("finds regular expressions", () => {
+      expect(Array.from(space.search(/te+a/g))).to.deep.equal([
+        range(p1Text2, 4, p1Text2, 7),
+        range(p2Text2, 1, p2Text2, 4),
+      ]);
+      expect(Array.from(space.search(/LITTLE/, { caseInsensitive: true })))
+        .to.have.lengthOf(2);
+    });
+
+    it("does not match across blocks unless the query matches newlines",
+       () => {
+         expect(Array.from(space.search(".A"))).to.deep.equal([]);
+         expect(Array.from(space.search(/\.\sA/))).to.deep.equal([
+           range(p1Text2, 10, p2Text, 1),
+         ]);
+       });
+
+    it("handles empty matches", () => {
+      expect(Array.from(space.search(/^/g))).to.deep.equal([
+        range(p1Text, 0, p1Text, 0),
+      ]);
+      expect(Array.from(space.search(/x*/g))).to.have.lengthOf(37);
+    });
+
+    it("does not split surrogate pairs on empty matches with the u flag",
+       () => {
+         const emoji = new DOMParser().parseFromString("<p>a\u{1F600}b</p>",
+                                                       "text/xml");
+         expect(Array.from(DOMSpace.makeSpanningNode(emoji).search(/(?:)/u))
+           .map(({ start: { offset } }) => offset))
+           .to.deep.equal([0, 1, 3, 4]);
+       });
+
+    it("searches forward from a location", () => {
+      expect(Array.from(space.search("tea", {
+        from: new DOMLoc(p1Text2, 5),
+      }))).to.deep.equal([
+        range(p2Text2, 1, p2Text2, 4),
+      ]);
+    });
+
+    it("searches backward", () => {
+      expect(Array.from(space.search("tea", { backward: true })))
+        .to.deep.equal([
+          range(p2Text2, 1, p2Text2, 4),
+          range(p1Text2, 4, p1Text2, 7),
+        ]);
+      expect(Array.from(space.search("tea", {
+        backward: true,
+        from: new DOMLoc(p2Text2, 3),
+      }))).to.deep.equal([
+        range(p1Text2, 4, p1Text2, 7),
+      ]);
+    });
+
+    it("throws if the starting location is outside the space", () => {
+      const inner = DOMSpace.makeSpanningNode(p2);
+      expect(() => inner.search("tea", {
+        from: new DOMLoc(p1Text, 0),
+      })).to.throw(DOMSpaceScopeError);
+    });
+  });
+
+  describe("atomic elements", () => {
+    let local: Document;
+    let p: Element;
+    let first: Text;
+    let ref: Element;
+    let refText: Text;
+    let last: Text;
+
+    before(() => {
+      local = new DOMParser().parseFromString(
+        "<p>a<ref>xy</ref>b</p>", "text/xml");
+      p = local.documentElement;
+      first = p.firstChild as Text;
+      ref = p.childNodes[1] as Element;
+      refText = ref.firstChild as Text;
+      last = p.lastChild as Text;
+    });
+
+    function makeSpace(): DOMSpace {
+      return DOMSpace.makeSpanningNode(local, undefined, {
+        atomicTest: node => node.nodeName === "ref",
+      });
+    }
+
+    describe("#isAtomic()", () => {
+      it("returns false when there is no atomicTest", () => {
+        expect(DOMSpace.makeSpanningNode(local).isAtomic(ref)).to.be.false;
+      });
+
+      it("returns the result of atomicTest for elements", () => {
+        const space = makeSpace();
+        expect(space.isAtomic(ref)).to.be.true;
+        expect(space.isAtomic(p)).to.be.false;
+      });
+
+      it("returns false for nodes that are not elements", () => {
+        const space = DOMSpace.makeSpanningNode(local, undefined, {
+          atomicTest: () => true,
+        });
+        expect(space.isAtomic(first)).to.be.false;
+        expect(space.isAtomic(local)).to.be.false;
+      });
+    });
+
+    describe("#canEnter()", () => {
+      it("returns false for atomic and irrelevant nodes", () => {
+        const space = DOMSpace.makeSpanningNode(
+          local, node => node !== last,
+          { atomicTest: node => node.nodeName === "ref" });
+        expect(space.canEnter(p)).to.be.true;
+        expect(space.canEnter(first)).to.be.true;
+        expect(space.canEnter(ref)).to.be.false;
+        expect(space.canEnter(last)).to.be.false;
+      });
+    });
+
+    it("escapes locations inside atomic elements", () => {
+      const space = makeSpace();
+      expect(space.escapeIrrelevantNode(new DOMLoc(refText, 1)))
+        .to.deep.equal(new DOMLoc(p, 1));
+      expect(space.escapeIrrelevantNode(new DOMLoc(ref, 0)))
+        .to.deep.equal(new DOMLoc(p, 1));
+    });
+
+    it("allows a space inside an atomic element", () => {
+      const space = DOMSpace.makeSpanningNode(ref, undefined, {
+        atomicTest: node => node.nodeName === "ref",
+      });
+      expect(space.next(new DOMLoc(ref, 0)))
+        .to.deep.equal(new DOMLoc(refText, 0));
+    });
+
+    it("#next() moves over atomic elements", () => {
+      const space = makeSpace();
+      expect(space.next(new DOMLoc(p, 1))).to.deep.equal(new DOMLoc(p, 2));
+      expect(space.next(new DOMLoc(refText, 1)))
+        .to.deep.equal(new DOMLoc(p, 2));
+    });
+
+    it("#previous() moves over atomic elements", () => {
+      const space = makeSpace();
+      expect(space.previous(new DOMLoc(p, 2)))
+        .to.deep.equal(new DOMLoc(p, 1));
+      expect(space.previous(new DOMLoc(refText, 1)))
+        .to.deep.equal(new DOMLoc(first, 1));
+    });
+
+    it("iterates without entering atomic elements", () => {
+      const space = makeSpace();
+      const expected = [
+        new DOMLoc(local, 0),
+        new DOMLoc(p, 0),
+        new DOMLoc(first, 0),
+        new DOMLoc(first, 1),
+        new DOMLoc(p, 1),
+        new DOMLoc(p, 2),
+        new DOMLoc(last, 0),
+        new DOMLoc(last, 1),
+        new DOMLoc(p, 3),
+        new DOMLoc(local, 1),
+      ];
+      expect(Array.from(space)).to.deep.equal(expected);
+      expect(Array.from(space.reversed())).to.deep.equal(expected.reverse());
+    });
+
+    it("treats moving over an atomic element as a visible movement", () => {
+      const space = makeSpace();
+      const equivalents = space.equivalents(new DOMLoc(p, 1));
+      expect(equivalents).to.deep.include(new DOMLoc(first, 1));
+      expect(equivalents).to.not.deep.include(new DOMLoc(p, 2));
+      expect(space.nextDistinct(new DOMLoc(first, 1)))
+        .to.deep.equal(new DOMLoc(last, 0));
+    });
+
+    it("treats atomic elements as text when collapsing whitespace", () => {
+      const other = new DOMParser().parseFromString(
+        "<div><p>a <ref/> b</p></div>", "text/xml");
+      const para = other.documentElement.firstChild as Element;
+      const text = para.lastChild as Text;
+      const withAtoms = DOMSpace.makeSpanningNode(other, undefined, {
+        collapseWhitespace: true,
+        atomicTest: node => node.nodeName === "ref",
+      });
+      expect(withAtoms.equivalents(new DOMLoc(text, 1)))
+        .to.not.deep.include(new DOMLoc(para, 2));
+      const withoutAtoms = DOMSpace.makeSpanningNode(other, undefined, {
+        collapseWhitespace: true,
+      });
+      expect(withoutAtoms.equivalents(new DOMLoc(text, 1)))
+        .to.deep.include(new DOMLoc(para, 2));
+    });
+  });
+
+  describe("(composed)", () => {
+    let host: HTMLElement;
+    let span: HTMLElement;
+    let spanText: Text;
+    let bold: HTMLElement;
+    let boldText: Text;
+    let unassigned: HTMLElement;
+    let p: HTMLElement;
+    let first: Text;
+    let named: HTMLSlotElement;
+    let fallback: Text;
+    let middle: Text;
+    let unnamed: HTMLSlotElement;
+    let expected: DOMLoc[];
+
+    function makeElement(name: string, text: string): HTMLElement {
+      const el = document.createElement(name);
+      el.textContent = text;
+
+      return el;
+    }
+
+    before(() => {
+      host = document.createElement("div");
+      span = makeElement("span", "A");
+      span.slot = "a";
+      spanText = span.firstChild as Text;
+      bold = makeElement("b", "B");
+      boldText = bold.firstChild as Text;
+      unassigned = makeElement("i", "U");
+      unassigned.slot = "nowhere";
+      host.append(span, bold, unassigned);
+      document.body.append(host);
+
+      const shadow = host.attachShadow({ mode: "open" });
+      p = document.createElement("p");
+      first = document.createTextNode("1");
+      named = makeElement("slot", "x") as HTMLSlotElement;
+      named.name = "a";
+      fallback = named.firstChild as Text;
+      middle = document.createTextNode("2");
+      unnamed = makeElement("slot", "fb") as HTMLSlotElement;
+      p.append(first, named, middle, unnamed);
+      shadow.append(p);
+
+      expected = [
+        new DOMLoc(host, 0),
+        new DOMLoc(p, 0),
+        new DOMLoc(first, 0),
+        new DOMLoc(first, 1),
+        new DOMLoc(p, 1),
+        new DOMLoc(named, 0),
+        new DOMLoc(span, 0),
+        new DOMLoc(spanText, 0),
+        new DOMLoc(spanText, 1),
+        new DOMLoc(span, 1),
+        new DOMLoc(named, 1),
+        new DOMLoc(p, 2),
+        new DOMLoc(middle, 0),
+        new DOMLoc(middle, 1),
+        new DOMLoc(p, 3),
+        new DOMLoc(unnamed, 0),
+        new DOMLoc(bold, 0),
+        new DOMLoc(boldText, 0),
+        new DOMLoc(boldText, 1),
+        new DOMLoc(bold, 1),
+        new DOMLoc(unnamed, 1),
+        new DOMLoc(p, 4),
+        new DOMLoc(host, 1),
+      ];
+    });
+
+    after(() => {
+      document.body.removeChild(host);
+    });
+
+    function makeSpace(): DOMSpace {
+      return DOMSpace.makeSpanningNode(host, undefined, { composed: true });
+    }
+
+    it("spans the composed children of a node", () => {
+      const space = makeSpace();
+      expect(space.max).to.deep.equal(new DOMLoc(host, 1));
+      expect(space.root).to.equal(host);
+    });
+
+    it("moves through the composed tree", () => {
+      const space = makeSpace();
+      for (let ix = 0; ix < expected.length - 1; ++ix) {
+        expect(space.next(expected[ix])).to.deep.equal(expected[ix + 1]);
+        expect(space.previous(expected[ix + 1])).to.deep.equal(expected[ix]);
+      }
+      expect(space.next(space.max)).to.be.null;
+      expect(space.previous(space.min)).to.be.null;
+    });
+
+    it("iterates through the composed tree", () => {
+      const space = makeSpace();
+      expect(Array.from(space)).to.deep.equal(expected);
+      expect(Array.from(space.reversed()))
+        .to.deep.equal(expected.slice().reverse());
+    });
+
+    it("follows grapheme clusters across slots", () => {
+      const local = document.createElement("div");
+      const [start, end] = [document.createTextNode("ae"),
+                            document.createTextNode("\u0301b")];
+      const other = makeElement("i", "x");
+      other.slot = "other";
+      local.append(start, other, end);
+      const otherSlot = document.createElement("slot");
+      otherSlot.name = "other";
+      local.attachShadow({ mode: "open" })
+        .append(document.createElement("slot"), otherSlot);
+      document.body.append(local);
+      try {
+        const space = DOMSpace.makeSpanningNode(local, undefined, {
+          composed: true,
+          graphemes: simpleGraphemeSegmenter,
+        });
+        expect(space.next(new DOMLoc(start, 1)))
+          .to.deep.equal(new DOMLoc(end, 1));
+        expect(space.cursor(new DOMLoc(start, 1)).moveNext())
+          .to.deep.equal(new DOMLoc(end, 1));
+        expect(space.previous(new DOMLoc(end, 1)))
+          .to.deep.equal(new DOMLoc(start, 1));
+        expect(space.cursor(new DOMLoc(end, 1)).movePrevious())
+          .to.deep.equal(new DOMLoc(start, 1));
+      }
+      finally {
+        document.body.removeChild(local);
+      }
+    });
+
+    it("does not enter shadow roots when not composed", () => {
+      const space = DOMSpace.makeSpanningNode(host);
+      expect(space.next(new DOMLoc(host, 0)))
+        .to.deep.equal(new DOMLoc(span, 0));
+    });
+
+    it("excludes the content that is not rendered", () => {
+      const space = makeSpace();
+      expect(space.contains(new DOMLoc(unassigned, 0))).to.be.false;
+      expect(space.contains(new DOMLoc(fallback, 0))).to.be.false;
+      expect(() => space.next(new DOMLoc(unassigned.firstChild!, 0)))
+        .to.throw(DOMSpaceScopeError);
+    });
+
+    it("escapes through the composed tree", () => {
+      const space = DOMSpace.makeSpanningNode(host, node => node !== span,
+                                              { composed: true });
+      expect(space.escapeIrrelevantNode(new DOMLoc(spanText, 1)))
+        .to.deep.equal(new DOMLoc(named, 0));
+      expect(space.next(new DOMLoc(named, 0)))
+        .to.deep.equal(new DOMLoc(named, 1));
+    });
+
+    it("moves shallowly through the composed tree", () => {
+      const space = makeSpace();
+      expect(space.nextShallow(new DOMLoc(spanText, 0)))
+        .to.deep.equal(new DOMLoc(span, 1));
+      expect(space.nextShallow(new DOMLoc(span, 1)))
+        .to.deep.equal(new DOMLoc(named, 1));
+      expect(space.previousShallow(new DOMLoc(bold, 0)))
+        .to.deep.equal(new DOMLoc(unnamed, 0));
+    });
+
+    it("serializes locations through the composed tree", () => {
+      const space = makeSpace();
+      const loc = new DOMLoc(boldText, 1);
+      const path = space.locationToPath(loc);
+      expect(path).to.equal("/P[1]/SLOT[2]/B[1]/text()[1]:1");
+      expect(space.locationFromPath(path)).to.deep.equal(loc);
+    });
+  });
+
+  describe("shallow movement", () => {
+    let local: Document;
+    let div: Element;
+    let p: Element;
+    let first: Text;
+    let b: Element;
+    let bText: Text;
+    let last: Text;
+
+    before(() => {
+      local = new DOMParser().parseFromString(
+        "<div><p>I am a <b>little</b> teapot.<ig>x</ig></p></div>",
+        "text/xml");
+      div = local.documentElement;
+      p = div.firstChild as Element;
+      first = p.firstChild as Text;
+      b = p.childNodes[1] as Element;
+      bText = b.firstChild as Text;
+      last = p.childNodes[2] as Text;
+    });
+
+    function makeSpace(): DOMSpace {
+      return DOMSpace.makeSpanningNode(local,
+                                       node => node.nodeName !== "ig");
+    }
+
+    describe("#nextShallow()", () => {
+      it("moves over the pointed node", () => {
+        const space = makeSpace();
+        expect(space.nextShallow(new DOMLoc(p, 1)))
+          .to.deep.equal(new DOMLoc(p, 2));
+        expect(space.nextShallow(new DOMLoc(local, 0)))
+          .to.deep.equal(new DOMLoc(local, 1));
+      });
+
+      it("moves over the text node from a location in it", () => {
+        const space = makeSpace();
+        expect(space.nextShallow(new DOMLoc(bText, 2)))
+          .to.deep.equal(new DOMLoc(b, 1));
+      });
+
+      it("moves over irrelevant nodes", () => {
+        const space = makeSpace();
+        expect(space.nextShallow(new DOMLoc(p, 3)))
+          .to.deep.equal(new DOMLoc(p, 4));
+      });
+
+      it("moves out of the node when at its end", () => {
+        const space = makeSpace();
+        expect(space.nextShallow(new DOMLoc(b, 1)))
+          .to.deep.equal(new DOMLoc(p, 2));
+      });
+
+      it("escapes the starting location", () => {
+        const space = makeSpace();
+        expect(space.nextShallow(new DOMLoc(p.lastChild!.firstChild!, 0)))
+          .to.deep.equal(new DOMLoc(p, 4));
+      });
+
+      it("respects the bounds of the space", () => {
+        const space = new DOMSpace(new DOMLoc(p, 0), new DOMLoc(bText, 3));
+        expect(space.nextShallow(new DOMLoc(p, 1))).to.be.null;
+        expect(makeSpace().nextShallow(new DOMLoc(local, 1))).to.be.null;
+      });
+
+      it("throws if the location is outside the space", () => {
+        const space = DOMSpace.makeSpanningNode(b);
+        expect(() => space.nextShallow(new DOMLoc(p, 0)))
+          .to.throw(DOMSpaceScopeError);
+      });
+    });
+
+    describe("#previousShallow()", () => {
+      it("moves over the preceding node", () => {
+        const space = makeSpace();
+        expect(space.previousShallow(new DOMLoc(p, 2)))
+          .to.deep.equal(new DOMLoc(p, 1));
+        expect(space.previousShallow(new DOMLoc(local, 1)))
+          .to.deep.equal(new DOMLoc(local, 0));
+      });
+
+      it("moves over the text node from a location in it", () => {
+        const space = makeSpace();
+        expect(space.previousShallow(new DOMLoc(last, 3)))
+          .to.deep.equal(new DOMLoc(p, 2));
+      });
+
+      it("moves out of the node when at its start", () => {
+        const space = makeSpace();
+        expect(space.previousShallow(new DOMLoc(b, 0)))
+          .to.deep.equal(new DOMLoc(p, 1));
+      });
+
+      it("respects the bounds of the space", () => {
+        const space = new DOMSpace(new DOMLoc(bText, 3), new DOMLoc(p, 3));
+        expect(space.previousShallow(new DOMLoc(p, 2))).to.be.null;
+        expect(makeSpace().previousShallow(new DOMLoc(local, 0))).to.be.null;
+      });
+    });
+
+    describe("#shallow()", () => {
+      it("iterates without entering nodes", () => {
+        const space = makeSpace();
+        expect(Array.from(space.shallow())).to.deep.equal([
+          new DOMLoc(local, 0),
+          new DOMLoc(local, 1),
+        ]);
+        expect(Array.from(space.shallow(new DOMLoc(first, 3))))
+          .to.deep.equal([
+            new DOMLoc(first, 3),
+            new DOMLoc(p, 1),
+            new DOMLoc(p, 2),
+            new DOMLoc(p, 3),
+            new DOMLoc(p, 4),
+            new DOMLoc(div, 1),
+            new DOMLoc(local, 1),
+          ]);
+      });
+    });
+
+    describe("#reversedShallow()", () => {
+      it("iterates without entering nodes", () => {
+        const space = makeSpace();
+        expect(Array.from(space.reversedShallow())).to.deep.equal([
+          new DOMLoc(local, 1),
+          new DOMLoc(local, 0),
+        ]);
+        expect(Array.from(space.reversedShallow(new DOMLoc(bText, 3))))
+          .to.deep.equal([
+            new DOMLoc(bText, 3),
+            new DOMLoc(b, 0),
+            new DOMLoc(p, 1),
+            new DOMLoc(p, 0),
+            new DOMLoc(div, 0),
+            new DOMLoc(local, 0),
+          ]);
+      });
+    });
+  });
+
+  function expectPositions(span: Document | { min: DOMLoc; max: DOMLoc },
+                           method: "next" | "previous",
+                           expectedPositions: [Node, number][],
+                           relevanceTest?: (node: Node) => boolean,
+                           options?: DOMSpaceOptions): void {
+    const space = span instanceof Document ?
+      DOMSpace.makeSpanningNode(span, relevanceTest, options) :
+      new DOMSpace(span.min, span.max, relevanceTest, options);
+    // tslint:disable-next-line:no-non-null-assertion
+    let cur = new DOMLoc(...expectedPositions[0]);
+    for (let ix = 1; ix < expectedPositions.length; ++ix) {
+      const next = new DOMLoc(...expectedPositions[ix]);
+      expect(space[method](cur), `at ${ix}`).to.deep.equal(next);
+      cur = next;
+    }
+
+    // tslint:disable-next-line:chai-vague-errors
+    expect(space[method](cur)).to.be.null;
+  }
+
+  describe("#next()", () => {
+    it("moves forward (whole document)", () => {
+      const { doc: local, expectedPositions } = docs.allRelevant;
+      expectPositions(local, "next", expectedPositions);
+    });
+
+    it("moves forward (arbitrary span)", () => {
+      const { doc: local, expectedPositions } = docs.allRelevant;
+      const divDiv1P = local.querySelector("div>div>p")!;
+      const divDiv2 = local.querySelectorAll("div>div")[1];
+      const min = new DOMLoc(divDiv1P, 0);
+      const max = new DOMLoc(divDiv2.firstChild!, 3);
+      const minIndex = expectedPositions
+        .findIndex(([node, offset]) => node === min.node &&
+                   offset === min.offset);
+      const maxIndex = expectedPositions
+        .findIndex(([node, offset]) => node === max.node &&
+                   offset === max.offset);
+      expect(minIndex).to.be.greaterThan(-1);
+      expect(maxIndex).to.be.greaterThan(minIndex);
+      expectPositions({ min, max }, "next",
+                      expectedPositions.slice(minIndex, maxIndex + 1));
+    });
+
+    it("moves forward in document fragment", () => {
+      const frag = doc.createDocumentFragment();
+      const space = DOMSpace.makeSpanningNode(frag, () => true);
+      const loc = new DOMLoc(frag, 0);
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.next(loc)).to.be.null;
+    });
+
+    it("moves forward over contextually irrelevant nodes", () => {
+      const { doc: local, expectedPositions } = docs.irrelevant;
+      expectPositions(local, "next", expectedPositions,
+                      node => (node as Element).tagName !== "ig");
+    });
+
+    it("moves forward outside contextually irrelevant nodes", () => {
+      const local = docs.irrelevant.doc;
+
+      const igs = local.getElementsByTagName("ig");
+      const divDiv1P = local.querySelector("div>div>p")!;
+
+      const space =
+        DOMSpace.makeSpanningNode(local,
+                                  node => (node as Element).tagName !== "ig");
+      const afterIg1 = new DOMLoc(divDiv1P, 2);
+      for (const pair of [
+        [igs[0], 0],
+        [igs[0], 1],
+        [igs[0].firstChild!, 0],
+        [igs[0].firstChild!, (igs[0].firstChild! as Text).data.length],
+      ]  as [Node, number][]) {
+        expect(space.next(new DOMLoc(...pair))).to.deep.equal(afterIg1);
+      }
+
+      const afterIg2 = new DOMLoc(divDiv1P, 5);
+      for (const pair of [
+        [igs[1], 0],
+        [igs[1], 1],
+        [igs[1].firstChild!, 0],
+        [igs[1].firstChild!, (igs[1].firstChild! as Text).data.length],
+      ]  as [Node, number][]) {
+        expect(space.next(new DOMLoc(...pair))).to.deep.equal(afterIg2);
+      }
+    });
+
+    it("when passed a node outside the space, raises an exception", () => {
+      // tslint:disable-next-line:chai-vague-errors
+      expect(() => DOMSpace.makeSpanningNode(doc)
+             .next(new DOMLoc(doc.createTextNode("foo"), 0)))
+        .to.throw(DOMSpaceScopeError, "location is not within the space");
+    });
+  });
+
+  describe("#previous()", () => {
+    it("moves backwards (whole document)", () => {
+      const { doc: local, expectedPositions } = docs.allRelevant;
+      expectPositions(local, "previous", expectedPositions.slice().reverse());
+    });
+
+    it("moves backwards (arbitrary span)", () => {
+      const { doc: local, expectedPositions } = docs.allRelevant;
+      const divDiv1P = local.querySelector("div>div>p")!;
+      const divDiv2 = local.querySelectorAll("div>div")[1];
+      const min = new DOMLoc(divDiv1P, 0);
+      const max = new DOMLoc(divDiv2.firstChild!, 3);
+      const minIndex = expectedPositions
+        .findIndex(([node, offset]) => node === min.node &&
+                   offset === min.offset);
+      const maxIndex = expectedPositions
+        .findIndex(([node, offset]) => node === max.node &&
+                   offset === max.offset);
+      expect(minIndex).to.be.greaterThan(-1);
+      expect(maxIndex).to.be.greaterThan(minIndex);
+      expectPositions({ min, max }, "previous",
+                      expectedPositions.slice(minIndex, maxIndex + 1)
+                      .reverse());
+    });
+
+    it("moves backwards in document fragment", () => {
+      const frag = doc.createDocumentFragment();
+      const space = DOMSpace.makeSpanningNode(frag, () => true);
+      const loc = new DOMLoc(frag, 0);
+      // tslint:disable-next-line:chai-vague-errors
+      expect(space.previous(loc)).to.be.null;
+    });
+
+    it("moves backwards over contextually irrelevant nodes", () => {
+      const { doc: local, expectedPositions } = docs.irrelevant;
+      expectPositions(local, "previous", expectedPositions.slice().reverse(),
+                      node => (node as Element).tagName !== "ig");
+    });
+
+    it("when passed a node outside the space, raises an exception", () => {
+      // tslint:disable-next-line:chai-vague-errors
+      expect(() => DOMSpace.makeSpanningNode(doc)
+             .previous(new DOMLoc(doc.createTextNode("foo"), 0)))
+        .to.throw(DOMSpaceScopeError, "location is not within the space");
+    });
+  });
+
+  describe("(with graphemes)", () => {
+    let local: Document;
+    let p: Element;
+    let expectedPositions: [Node, number][];
+
+    before(() => {
+      local = new DOMParser().parseFromString("<p/>", "text/xml");
+      p = local.documentElement;
+      // The second cluster is made of a letter followed by a combining mark,
+      // which we split between two text nodes.
+      const first = local.createTextNode("a\ud83d\ude00e");
+      const second = local.createTextNode("\u0301b");
+      p.appendChild(first);
+      p.appendChild(second);
+      expectedPositions = [
+        [local, 0],
+        [p, 0],
+        [first, 0],
+        [first, 1],
+        [first, 3],
+        [second, 1],
+        [second, 2],
+        [p, 2],
+        [local, 1],
+      ];
+    });
+
+    it("moves forward by grapheme clusters", () => {
+      expectPositions(local, "next", expectedPositions, undefined,
+                      { graphemes: true });
+    });
+
+    it("moves backwards by grapheme clusters", () => {
+      expectPositions(local, "previous", expectedPositions.slice().reverse(),
+                      undefined, { graphemes: true });
+    });
+
+    it("moves by the clusters of a custom segmenter", () => {
+      const text = local.createTextNode("abcd");
+      const el = local.createElement("el");
+      el.appendChild(text);
+      // This segmenter makes clusters of two code units.
+      const space = DOMSpace.makeSpanningNode(el, undefined, {
+        *graphemes(str: string): IterableIterator<Segment> {
+          for (let index = 0; index < str.length; index += 2) {
+            yield { segment: str.slice(index, index + 2), index };
+          }
+        },
+      });
+      expect(space.next(new DOMLoc(text, 0))).to.deep
+        .equal(new DOMLoc(text, 2));
+      expect(space.next(new DOMLoc(text, 1))).to.deep
+        .equal(new DOMLoc(text, 2));
+      expect(space.previous(new DOMLoc(text, 4))).to.deep
+        .equal(new DOMLoc(text, 2));
+      expect(space.previous(new DOMLoc(text, 3))).to.deep
+        .equal(new DOMLoc(text, 2));
+    });
+
+    it("moves by code units when ``graphemes`` is false", () => {
+      const space = DOMSpace.makeSpanningNode(local, undefined,
+                                              { graphemes: false });
+      const first = p.firstChild!;
+      expect(space.next(new DOMLoc(first, 1))).to.deep
+        .equal(new DOMLoc(first, 2));
+    });
+
+    it("does not join clusters across irrelevant text nodes", () => {
+      const second = p.childNodes[1];
+      const space = DOMSpace.makeSpanningNode(local, node => node !== second,
+                                              { graphemes: true });
+      const first = p.firstChild!;
+      expect(space.next(new DOMLoc(first, 3))).to.deep
+        .equal(new DOMLoc(first, 4));
+    });
+
+    it("segments a run once, until its text changes", () => {
+      const para = local.createElement("p");
+      para.append("ab", "cd");
+      const ab = para.firstChild as Text;
+      const graphemes = sinon.spy(simpleGraphemeSegmenter);
+      const space = DOMSpace.makeSpanningNode(para, undefined, { graphemes });
+      expect(Array.from(space)).to.have.lengthOf(9);
+      expect(graphemes).to.have.been.calledOnce;
+      ab.appendData("\u0301");
+      expect(space.next(new DOMLoc(ab, 1)))
+        .to.deep.equal(new DOMLoc(ab, 3));
+      expect(graphemes).to.have.been.calledTwice;
+      para.insertBefore(local.createTextNode("e"), ab);
+      expect(space.previous(new DOMLoc(ab, 1)))
+        .to.deep.equal(new DOMLoc(ab, 0));
+      expect(graphemes).to.have.been.calledThrice;
+    });
+  });
+
+  describe("word movement", () => {
+    let local: Document;
+    let text1: Text;
+    let bText: Text;
+    let text2: Text;
+    let wordEnds: [Node, number][];
+    let wordStarts: [Node, number][];
+
+    before(() => {
+      local = new DOMParser().parseFromString(
+        "<p>I am a <b>lit</b>tle teapot.</p>", "text/xml");
+      const p = local.documentElement;
+      text1 = p.firstChild as Text;
+      bText = p.childNodes[1].firstChild as Text;
+      text2 = p.childNodes[2] as Text;
+      wordEnds = [
+        [text1, 1],
+        [text1, 4],
+        [text1, 6],
+        [text2, 3],
+        [text2, 10],
+      ];
+      wordStarts = [
+        [text2, 4],
+        [bText, 0],
+        [text1, 5],
+        [text1, 2],
+        [text1, 0],
+      ];
+    });
+
+    function expectWords(space: DOMSpace, method: "nextWord" | "previousWord",
+                         start: DOMLoc, expected: [Node, number][]): void {
+      let cur = start;
+      for (let ix = 0; ix < expected.length; ++ix) {
+        const next = new DOMLoc(...expected[ix]);
+        expect(space[method](cur), `at ${ix}`).to.deep.equal(next);
+        cur = next;
+      }
+
+      expect(space[method](cur)).to.be.null;
+    }
+
+    describe("#nextWord()", () => {
+      it("moves to the end of words, across elements", () => {
+        expectWords(DOMSpace.makeSpanningNode(local), "nextWord",
+                    new DOMLoc(local, 0), wordEnds);
+      });
+
+      it("moves to the end of the current word", () => {
+        expect(DOMSpace.makeSpanningNode(local)
+               .nextWord(new DOMLoc(bText, 1)))
+          .to.deep.equal(new DOMLoc(text2, 3));
+      });
+
+      it("uses the word segmenter passed in the options", () => {
+        // This segmenter considers every character to be a word.
+        const space = DOMSpace.makeSpanningNode(local, undefined, {
+          *wordSegmenter(str: string): IterableIterator<Segment> {
+            for (let index = 0; index < str.length; ++index) {
+              yield { segment: str[index], index, isWordLike: true };
+            }
+          },
+        });
+        expect(space.nextWord(new DOMLoc(text1, 1)))
+          .to.deep.equal(new DOMLoc(text1, 2));
+      });
+
+      it("skips irrelevant nodes", () => {
+        const space = DOMSpace.makeSpanningNode(local,
+                                                node => node.nodeName !== "b");
+        expect(space.nextWord(new DOMLoc(text1, 6)))
+          .to.deep.equal(new DOMLoc(text2, 3));
+        expect(space.nextWord(new DOMLoc(text1, 7)))
+          .to.deep.equal(new DOMLoc(text2, 3));
+      });
+
+      it("stops at the end of the space", () => {
+        const space = new DOMSpace(new DOMLoc(local, 0), new DOMLoc(text1, 3));
+        expect(space.nextWord(new DOMLoc(text1, 1)))
+          .to.deep.equal(new DOMLoc(text1, 3));
+        expect(space.nextWord(new DOMLoc(text1, 3))).to.be.null;
+      });
+
+      it("when passed a node outside the space, raises an exception", () => {
+        expect(() => DOMSpace.makeSpanningNode(local)
+               .nextWord(new DOMLoc(local.createTextNode("foo"), 0)))
+          .to.throw(DOMSpaceScopeError, "location is not within the space");
+      });
+    });
+
+    describe("#nextWord() with blocks", () => {
+      it("does not join words across blocks", () => {
+        const blocks = new DOMParser().parseFromString(
+          "<div><p>foo</p><p>bar</p></div>", "text/xml");
+        const foo = blocks.getElementsByTagName("p")[0].firstChild!;
+        const bar = blocks.getElementsByTagName("p")[1].firstChild!;
+        const space = DOMSpace.makeSpanningNode(blocks);
+        expect(space.nextWord(new DOMLoc(foo, 1)))
+          .to.deep.equal(new DOMLoc(foo, 3));
+        expect(space.previousWord(new DOMLoc(bar, 2)))
+          .to.deep.equal(new DOMLoc(bar, 0));
+      });
+    });
+
+    describe("word movement across many nodes", () => {
+      let many: Document;
+      let first: Text;
+      let last: Text;
+      let segmented: number;
+      let space: DOMSpace;
+
+      before(() => {
+        many = new DOMParser().parseFromString(
+          `<p>a${"<s> </s>".repeat(500)}b</p>`, "text/xml");
+        first = many.documentElement.firstChild as Text;
+        last = many.documentElement.lastChild as Text;
+        space = DOMSpace.makeSpanningNode(many, undefined, {
+          wordSegmenter: (text: string) => {
+            segmented += text.length;
+
+            return simpleWordSegmenter(text);
+          },
+        });
+      });
+
+      beforeEach(() => {
+        segmented = 0;
+      });
+
+      it("does not segment the text for each node", () => {
+        expect(space.nextWord(new DOMLoc(first, 1)))
+          .to.deep.equal(new DOMLoc(last, 1));
+        expect(segmented).to.be.below(2500);
+      });
+
+      it("does not segment the text for each node backwards", () => {
+        expect(space.previousWord(new DOMLoc(last, 0)))
+          .to.deep.equal(new DOMLoc(first, 0));
+        expect(segmented).to.be.below(2500);
+      });
+    });
+
+    describe("#previousWord()", () => {
+      it("moves to the start of words, across elements", () => {
+        expectWords(DOMSpace.makeSpanningNode(local), "previousWord",
+                    new DOMLoc(local, 1), wordStarts);
+      });
+
+      it("moves to the start of the current word", () => {
+        expect(DOMSpace.makeSpanningNode(local)
+               .previousWord(new DOMLoc(text2, 2)))
+          .to.deep.equal(new DOMLoc(bText, 0));
+      });
+
+      it("skips irrelevant nodes", () => {
+        const space = DOMSpace.makeSpanningNode(local,
+                                                node => node.nodeName !== "b");
+        expect(space.previousWord(new DOMLoc(text2, 4)))
+          .to.deep.equal(new DOMLoc(text2, 0));
+      });
+
+      it("stops at the start of the space", () => {
+        const space = new DOMSpace(new DOMLoc(text1, 3), new DOMLoc(local, 1));
+        expect(space.previousWord(new DOMLoc(text1, 4)))
+          .to.deep.equal(new DOMLoc(text1, 3));
+        expect(space.previousWord(new DOMLoc(text1, 3))).to.be.null;
+      });
+
+      it("when passed a node outside the space, raises an exception", () => {
+        expect(() => DOMSpace.makeSpanningNode(local)
+               .previousWord(new DOMLoc(local.createTextNode("foo"), 0)))
+          .to.throw(DOMSpaceScopeError, "location is not within the space");
+      });
+    });
+  });
+
+  describe("paragraph and sentence movement", () => {
+    let local: Document;
+    let div: Element;
+    let p1: Element;
+    let p2: Element;
+    let p1Text: Text;
+    let p2Text1: Text;
+    let p2BText: Text;
+    let tail: Text;
+    let options: DOMSpaceOptions;
+
+    before(() => {
+      local = new DOMParser().parseFromString(
+        "<div><p>First sentence. Second one! Third</p>\
+<p>Other <b>sentence. Yes</b>. Bye</p>tail</div>", "text/xml");
+      div = local.documentElement;
+      [p1, p2] = Array.from(local.getElementsByTagName("p"));
+      p1Text = p1.firstChild as Text;
+      p2Text1 = p2.firstChild as Text;
+      p2BText = p2.childNodes[1].firstChild as Text;
+      tail = div.lastChild as Text;
+      options = { sentenceSegmenter: simpleSentenceSegmenter };
+    });
+
+    describe("#isBlock()", () => {
+      it("uses htmlBlockTest by default", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.isBlock(p1)).to.be.true;
+        expect(space.isBlock(p2.childNodes[1])).to.be.false;
+      });
+
+      it("uses the block test passed in the options", () => {
+        const space = DOMSpace.makeSpanningNode(local, undefined, {
+          blockTest: node => node.nodeName === "b",
+        });
+        expect(space.isBlock(p1)).to.be.false;
+        expect(space.isBlock(p2.childNodes[1])).to.be.true;
+      });
+
+      it("returns false for nodes that are not elements", () => {
+        const space = DOMSpace.makeSpanningNode(local, undefined, {
+          blockTest: () => true,
+        });
+        expect(space.isBlock(p1Text)).to.be.false;
+      });
+    });
+
+    describe("#paragraphStart()", () => {
+      it("moves to the start of the block", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.paragraphStart(new DOMLoc(p1Text, 20)))
+          .to.deep.equal(new DOMLoc(p1, 0));
+        expect(space.paragraphStart(new DOMLoc(p2BText, 2)))
+          .to.deep.equal(new DOMLoc(p2, 0));
+      });
+
+      it("stops at the end of a preceding block", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.paragraphStart(new DOMLoc(tail, 2)))
+          .to.deep.equal(new DOMLoc(div, 2));
+      });
+
+      it("stops at the start of the space", () => {
+        const space = DOMSpace.makeSpanningNode(p1);
+        expect(space.paragraphStart(new DOMLoc(p1Text, 20)))
+          .to.deep.equal(new DOMLoc(p1, 0));
+      });
+
+      it("uses the block test passed in the options", () => {
+        const space = DOMSpace.makeSpanningNode(local, undefined, {
+          blockTest: node => node.nodeName === "div",
+        });
+        expect(space.paragraphStart(new DOMLoc(tail, 2)))
+          .to.deep.equal(new DOMLoc(div, 0));
+      });
+    });
+
+    describe("#paragraphEnd()", () => {
+      it("moves to the end of the block", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.paragraphEnd(new DOMLoc(p1Text, 20)))
+          .to.deep.equal(new DOMLoc(p1, 1));
+        expect(space.paragraphEnd(new DOMLoc(p2Text1, 2)))
+          .to.deep.equal(new DOMLoc(p2, 3));
+      });
+
+      it("stops at the end of a block that contains the location", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.paragraphEnd(new DOMLoc(tail, 2)))
+          .to.deep.equal(new DOMLoc(div, 3));
+      });
+
+      it("stops at the end of the space", () => {
+        const space = DOMSpace.makeSpanningNode(local, undefined, {
+          blockTest: () => false,
+        });
+        expect(space.paragraphEnd(new DOMLoc(tail, 2)))
+          .to.deep.equal(new DOMLoc(local, 1));
+      });
+    });
+
+    describe("#sentenceStart()", () => {
+      it("moves to the start of the current sentence", () => {
+        const space = DOMSpace.makeSpanningNode(local, undefined, options);
+        expect(space.sentenceStart(new DOMLoc(p1Text, 20)))
+          .to.deep.equal(new DOMLoc(p1Text, 16));
+        expect(space.sentenceStart(new DOMLoc(p1Text, 16)))
+          .to.deep.equal(new DOMLoc(p1Text, 16));
+        expect(space.sentenceStart(new DOMLoc(p1Text, 3)))
+          .to.deep.equal(new DOMLoc(p1Text, 0));
+      });
+
+      it("works across elements", () => {
+        const space = DOMSpace.makeSpanningNode(local, undefined, options);
+        expect(space.sentenceStart(new DOMLoc(p2BText, 3)))
+          .to.deep.equal(new DOMLoc(p2Text1, 0));
+        expect(space.sentenceStart(new DOMLoc(p2, 2)))
+          .to.deep.equal(new DOMLoc(p2BText, 10));
+      });
+
+      it("does not cross blocks", () => {
+        const space = DOMSpace.makeSpanningNode(local, undefined, options);
+        expect(space.sentenceStart(new DOMLoc(p2Text1, 0)))
+          .to.deep.equal(new DOMLoc(p2Text1, 0));
+      });
+
+      it("moves to the start of the paragraph if there is no text", () => {
+        const empty = new DOMParser().parseFromString("<div><p/></div>",
+                                                      "text/xml");
+        const p = empty.getElementsByTagName("p")[0];
+        const space = DOMSpace.makeSpanningNode(empty, undefined, options);
+        expect(space.sentenceStart(new DOMLoc(p, 0)))
+          .to.deep.equal(new DOMLoc(p, 0));
+      });
+
+      it("uses Intl.Segmenter or the simple segmenter by default", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.sentenceStart(new DOMLoc(p1Text, 20)))
+          .to.deep.equal(new DOMLoc(p1Text, 16));
+      });
+    });
+
+    describe("#sentenceEnd()", () => {
+      it("moves to the end of the current sentence", () => {
+        const space = DOMSpace.makeSpanningNode(local, undefined, options);
+        expect(space.sentenceEnd(new DOMLoc(p1Text, 3)))
+          .to.deep.equal(new DOMLoc(p1Text, 15));
+        expect(space.sentenceEnd(new DOMLoc(p1Text, 20)))
+          .to.deep.equal(new DOMLoc(p1Text, 27));
+        expect(space.sentenceEnd(new DOMLoc(p1Text, 30)))
+          .to.deep.equal(new DOMLoc(p1Text, 33));
+      });
+
+      it("works across elements", () => {
+        const space = DOMSpace.makeSpanningNode(local, undefined, options);
+        expect(space.sentenceEnd(new DOMLoc(p2BText, 10)))
+          .to.deep.equal(new DOMLoc(p2.childNodes[2], 1));
+      });
+
+      it("moves to the end of the paragraph if there is no text", () => {
+        const empty = new DOMParser().parseFromString("<div><p/></div>",
+                                                      "text/xml");
+        const p = empty.getElementsByTagName("p")[0];
+        const space = DOMSpace.makeSpanningNode(empty, undefined, options);
+        expect(space.sentenceEnd(new DOMLoc(p, 0)))
+          .to.deep.equal(new DOMLoc(p, 0));
+      });
+    });
+  });
+
+  describe("(with collapseWhitespace)", () => {
+    const options: DOMSpaceOptions = { collapseWhitespace: true };
+
+    function parse(xml: string): Document {
+      return new DOMParser().parseFromString(xml, "text/xml");
+    }
+
+    it("skips text nodes that contain only collapsed whitespace", () => {
+      const local = parse("<div>\n <p>Foo</p>\n</div>");
+      const div = local.documentElement;
+      const p = div.childNodes[1];
+      const expectedPositions: [Node, number][] = [
+        [local, 0],
+        [div, 0],
+        [div, 1],
+        [p, 0],
+        ...generateTextLocs(p.firstChild as Text),
+        [p, 1],
+        [div, 2],
+        [div, 3],
+        [local, 1],
+      ];
+      expectPositions(local, "next", expectedPositions, undefined, options);
+      expectPositions(local, "previous", expectedPositions.slice().reverse(),
+                      undefined, options);
+      expectIterations(local, false, expectedPositions, undefined, options);
     });
 
-    it("returns false if the location is less than min", () => {
-      const div = doc.getElementsByTagName("div")[0];
-      const space = DOMSpace.makeSpanningNode(div);
-      const loc = new DOMLoc(doc, 0);
-      expect(space.min.compare(loc)).to.equal(1);
-      expect(space.max.compare(loc)).to.equal(1);
-      // tslint:disable-next-line:chai-vague-errors
-      expect(space.contains(loc)).to.be.false;
+    it("skips the locations inside collapsed whitespace", () => {
+      const local = parse("<p>a   b</p>");
+      const p = local.documentElement;
+      const text = p.firstChild!;
+      const expectedPositions: [Node, number][] = [
+        [local, 0],
+        [p, 0],
+        [text, 0],
+        [text, 1],
+        [text, 4],
+        [text, 5],
+        [p, 1],
+        [local, 1],
+      ];
+      expectPositions(local, "next", expectedPositions, undefined, options);
+      expectPositions(local, "previous", expectedPositions.slice().reverse(),
+                      undefined, options);
+    });
+
+    it("collapses whitespace at the start and end of blocks", () => {
+      const local = parse("<p>  a  </p>");
+      const p = local.documentElement;
+      const text = p.firstChild!;
+      const expectedPositions: [Node, number][] = [
+        [local, 0],
+        [p, 0],
+        [text, 2],
+        [text, 3],
+        [p, 1],
+        [local, 1],
+      ];
+      expectPositions(local, "next", expectedPositions, undefined, options);
+      expectPositions(local, "previous", expectedPositions.slice().reverse(),
+                      undefined, options);
+    });
+
+    it("keeps one stop for collapsed whitespace inside and around words",
+       () => {
+         const local = parse("<p>  foo  bar  </p>");
+         const p = local.documentElement;
+         const text = p.firstChild!;
+         const expectedPositions: [Node, number][] = [
+           [local, 0],
+           [p, 0],
+           ...[2, 3, 4, 5, 7, 8, 9, 10]
+             .map((offset): [Node, number] => [text, offset]),
+           [p, 1],
+           [local, 1],
+         ];
+         expectPositions(local, "next", expectedPositions, undefined, options);
+         expectPositions(local, "previous",
+                         expectedPositions.slice().reverse(), undefined,
+                         options);
+         expectIterations(local, false, expectedPositions, undefined, options);
+         expectIterations(local, true, expectedPositions.slice().reverse(),
+                          undefined, options);
+       });
+
+    it("collapses whitespace across inline elements", () => {
+      const local = parse("<p>a <b> b</b></p>");
+      const p = local.documentElement;
+      const text = p.firstChild!;
+      const b = p.childNodes[1];
+      const bText = b.firstChild!;
+      const expectedPositions: [Node, number][] = [
+        [local, 0],
+        [p, 0],
+        [text, 0],
+        [text, 1],
+        [text, 2],
+        [p, 1],
+        [b, 0],
+        [bText, 1],
+        [bText, 2],
+        [b, 1],
+        [p, 2],
+        [local, 1],
+      ];
+      expectPositions(local, "next", expectedPositions, undefined, options);
+      expectPositions(local, "previous", expectedPositions.slice().reverse(),
+                      undefined, options);
+    });
+
+    it("deems whitespace between inline elements relevant", () => {
+      const local = parse("<p><b>a</b> <i>b</i></p>");
+      const space = DOMSpace.makeSpanningNode(local, undefined, options);
+      expect(space.isRelevant(local.documentElement.childNodes[1])).to.be.true;
+    });
+
+    it("deems whitespace between blocks irrelevant", () => {
+      const local = parse("<div><p>a</p> <p>b</p></div>");
+      const space = DOMSpace.makeSpanningNode(local, undefined, options);
+      expect(space.isRelevant(local.documentElement.childNodes[1])).to.be
+        .false;
+    });
+
+    it("escapes locations in collapsed text nodes", () => {
+      const local = parse("<div><p>a</p> <p>b</p></div>");
+      const div = local.documentElement;
+      const space = DOMSpace.makeSpanningNode(local, undefined, options);
+      expect(space.escapeIrrelevantNode(new DOMLoc(div.childNodes[1], 1)))
+        .to.deep.equal(new DOMLoc(div, 1));
+    });
+
+    it("preserves whitespace in pre", () => {
+      const local = parse("<div><pre> a  b </pre></div>");
+      const text = local.getElementsByTagName("pre")[0].firstChild!;
+      const space = DOMSpace.makeSpanningNode(local, undefined, options);
+      expect(space.next(new DOMLoc(text, 2))).to.deep
+        .equal(new DOMLoc(text, 3));
+      expect(space.next(new DOMLoc(text, 0))).to.deep
+        .equal(new DOMLoc(text, 1));
+    });
+
+    it("uses the preserve test passed in the options", () => {
+      const local = parse("<div><pre> a  b </pre><lg>a  b</lg></div>");
+      const pre = local.getElementsByTagName("pre")[0].firstChild!;
+      const lg = local.getElementsByTagName("lg")[0].firstChild!;
+      const space = DOMSpace.makeSpanningNode(local, undefined, {
+        collapseWhitespace: true,
+        preserveWhitespaceTest: node => node.nodeName === "lg",
+      });
+      expect(space.next(new DOMLoc(lg, 2))).to.deep.equal(new DOMLoc(lg, 3));
+      expect(space.next(new DOMLoc(pre, 2))).to.deep.equal(new DOMLoc(pre, 4));
+    });
+
+    it("does not collapse whitespace when the option is off", () => {
+      const local = parse("<p>a   b</p>");
+      const text = local.documentElement.firstChild!;
+      const space = DOMSpace.makeSpanningNode(local);
+      expect(space.next(new DOMLoc(text, 1))).to.deep
+        .equal(new DOMLoc(text, 2));
+    });
+  });
+
+  describe("caret equivalence", () => {
+    let local: Document;
+    let p: Element;
+    let b: Element;
+    let first: Text;
+    let bText: Text;
+    let last: Text;
+
+    before(() => {
+      local = new DOMParser().parseFromString(
+        "<p>I am a <b>little</b> teapot.</p>", "text/xml");
+      p = local.documentElement;
+      b = p.childNodes[1] as Element;
+      first = p.firstChild as Text;
+      bText = b.firstChild as Text;
+      last = p.lastChild as Text;
+    });
+
+    describe("#equivalents()", () => {
+      it("returns the locations at the same caret position", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        const expected = [
+          new DOMLoc(first, 7),
+          new DOMLoc(p, 1),
+          new DOMLoc(b, 0),
+          new DOMLoc(bText, 0),
+        ];
+        for (const loc of expected) {
+          expect(space.equivalents(loc)).to.deep.equal(expected);
+        }
+      });
+
+      it("returns only the location, inside text", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.equivalents(new DOMLoc(bText, 2)))
+          .to.deep.equal([new DOMLoc(bText, 2)]);
+      });
+
+      it("includes the edges of the space", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.equivalents(new DOMLoc(local, 0))).to.deep.equal([
+          new DOMLoc(local, 0),
+          new DOMLoc(p, 0),
+          new DOMLoc(first, 0),
+        ]);
+      });
+
+      it("treats collapsed whitespace as invisible", () => {
+        const other = new DOMParser().parseFromString("<p>a <b> b</b></p>",
+                                                    "text/xml");
+        const a = other.documentElement.firstChild as Text;
+        const bEl = other.documentElement.lastChild!;
+        const bTextNode = bEl.firstChild as Text;
+        const space = DOMSpace.makeSpanningNode(other, undefined, {
+          collapseWhitespace: true,
+        });
+        expect(space.equivalents(new DOMLoc(a, 2))).to.deep.equal([
+          new DOMLoc(a, 2),
+          new DOMLoc(other.documentElement, 1),
+          new DOMLoc(bEl, 0),
+          new DOMLoc(bTextNode, 1),
+        ]);
+      });
+
+      it("separates blocks with one step", () => {
+        const other = new DOMParser().parseFromString(
+          "<div><p>ab</p><p>cd</p></div>", "text/xml");
+        const div = other.documentElement;
+        const [p1, p2] = Array.from(div.childNodes);
+        const space = DOMSpace.makeSpanningNode(other);
+        expect(space.equivalents(new DOMLoc(div, 1))).to.deep.equal([
+          new DOMLoc(p1.firstChild!, 2),
+          new DOMLoc(p1, 1),
+          new DOMLoc(div, 1),
+        ]);
+        expect(space.equivalents(new DOMLoc(p2, 0))).to.deep.equal([
+          new DOMLoc(p2, 0),
+          new DOMLoc(p2.firstChild!, 0),
+        ]);
+      });
+
+      it("separates text from a following block", () => {
+        const other = new DOMParser().parseFromString(
+          "<div>ab<p>cd</p>ef</div>", "text/xml");
+        const div = other.documentElement;
+        const p2 = div.childNodes[1];
+        const space = DOMSpace.makeSpanningNode(other);
+        expect(space.equivalents(new DOMLoc(div, 1))).to.deep.equal([
+          new DOMLoc(div.firstChild!, 2),
+          new DOMLoc(div, 1),
+        ]);
+        expect(space.equivalents(new DOMLoc(div, 2))).to.deep.equal([
+          new DOMLoc(div, 2),
+          new DOMLoc(div.lastChild!, 0),
+        ]);
+        expect(space.equivalents(new DOMLoc(p2, 1))).to.deep.equal([
+          new DOMLoc(p2.firstChild!, 2),
+          new DOMLoc(p2, 1),
+        ]);
+      });
+
+      it("throws if the location is outside the space", () => {
+        const space = DOMSpace.makeSpanningNode(p);
+        expect(() => space.equivalents(new DOMLoc(local, 0)))
+          .to.throw(DOMSpaceScopeError);
+      });
+    });
+
+    describe("#canonical()", () => {
+      it("prefers the deepest text location by default", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.canonical(new DOMLoc(p, 1)))
+          .to.deep.equal(new DOMLoc(bText, 0));
+        expect(space.canonical(new DOMLoc(p, 2)))
+          .to.deep.equal(new DOMLoc(bText, 6));
+      });
+
+      it("prefers the first location, on request", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.canonical(new DOMLoc(p, 1), "first"))
+          .to.deep.equal(new DOMLoc(first, 7));
+      });
+
+      it("prefers the last location, on request", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.canonical(new DOMLoc(p, 2), "last"))
+          .to.deep.equal(new DOMLoc(last, 0));
+      });
+
+      it("falls back to the deepest location when there is no text", () => {
+        const other = new DOMParser().parseFromString("<p><b/></p>",
+                                                    "text/xml");
+        const space = DOMSpace.makeSpanningNode(other);
+        expect(space.canonical(new DOMLoc(other, 0)))
+          .to.deep.equal(new DOMLoc(other.documentElement.firstChild!, 0));
+      });
+    });
+
+    describe("#nextDistinct()", () => {
+      it("moves to the next distinct location", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.nextDistinct(new DOMLoc(first, 6)))
+          .to.deep.equal(new DOMLoc(bText, 0));
+        expect(space.nextDistinct(new DOMLoc(p, 1)))
+          .to.deep.equal(new DOMLoc(bText, 1));
+        expect(space.nextDistinct(new DOMLoc(first, 6), "first"))
+          .to.deep.equal(new DOMLoc(first, 7));
+      });
+
+      it("returns null at the end of the space", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.nextDistinct(new DOMLoc(last, 11))).to.be.null;
+      });
+    });
+
+    describe("#previousDistinct()", () => {
+      it("moves to the previous distinct location", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.previousDistinct(new DOMLoc(bText, 1)))
+          .to.deep.equal(new DOMLoc(bText, 0));
+        expect(space.previousDistinct(new DOMLoc(p, 1)))
+          .to.deep.equal(new DOMLoc(first, 6));
+        expect(space.previousDistinct(new DOMLoc(bText, 1), "last"))
+          .to.deep.equal(new DOMLoc(bText, 0));
+      });
+
+      it("returns null at the start of the space", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.previousDistinct(new DOMLoc(p, 0))).to.be.null;
+      });
+    });
+
+    describe("#distinct()", () => {
+      it("iterates over distinct locations", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        const expected = [
+          ...Array.from(generateTextLocs(first)).slice(0, -1),
+          ...generateTextLocs(bText),
+          ...Array.from(generateTextLocs(last)).slice(1),
+        ].map(([node, offset]) => new DOMLoc(node, offset));
+        expect(Array.from(space.distinct())).to.deep.equal(expected);
+        expect(Array.from(space.reversedDistinct()))
+          .to.deep.equal(expected.reverse());
+      });
+    });
+  });
+
+  function expectIterations(span: Document | { min: DOMLoc; max: DOMLoc },
+                            reverse: boolean,
+                            expectedPositions: [Node, number][],
+                            relevanceTest?: (node: Node) => boolean,
+                            options?: DOMSpaceOptions): void {
+    const space = span instanceof Document ?
+      DOMSpace.makeSpanningNode(span, relevanceTest, options) :
+      new DOMSpace(span.min, span.max, relevanceTest, options);
+
+    let ix = 0;
+    if (reverse) {
+      for (const loc of space.reversed()) {
+        expect(loc, `at ${ix}`)
+          .to.deep.equal(new DOMLoc(...expectedPositions[ix]));
+        ix++;
+      }
+    }
+    else {
+      for (const loc of space) {
+        expect(loc, `at ${ix}`)
+          .to.deep.equal(new DOMLoc(...expectedPositions[ix]));
+        ix++;
+      }
+    }
+
+    expect(ix).to.equal(expectedPositions.length);
+  }
+
+  describe("ordinal positions", () => {
+    let local: Document;
+    let p: Element;
+    let text: Text;
+
+    beforeEach(() => {
+      local = new DOMParser().parseFromString("<p>abc<i>d</i></p>",
+                                              "text/xml");
+      p = local.documentElement;
+      text = p.firstChild as Text;
+    });
+
+    describe("#indexOf()", () => {
+      it("follows the order of iteration", () => {
+        const space = DOMSpace.makeSpanningNode(docs.allRelevant.doc);
+        let expected = 0;
+        for (const loc of space) {
+          expect(space.indexOf(loc)).to.equal(expected++);
+        }
+      });
+
+      it("escapes the location", () => {
+        const space = DOMSpace.makeSpanningNode(
+          local, node => node.nodeName !== "i");
+        expect(space.indexOf(new DOMLoc(p.lastChild!.firstChild!, 1)))
+          .to.equal(space.indexOf(new DOMLoc(p, 1)));
+      });
+
+      it("returns -1 for a location the space does not produce", () => {
+        const other = new DOMParser().parseFromString("<p>éa</p>",
+                                                      "text/xml");
+        const space = DOMSpace.makeSpanningNode(other, undefined,
+                                                { graphemes: true });
+        // tslint:disable-next-line:chai-prefer-contains-to-index-of
+        expect(space.indexOf(new DOMLoc(other.documentElement.firstChild!,
+                                        1))).to.equal(-1);
+      });
+
+      it("throws if the location is outside the space", () => {
+        const space = DOMSpace.makeSpanningNode(p.lastChild!);
+        expect(() => space.indexOf(new DOMLoc(text, 0)))
+          .to.throw(DOMSpaceScopeError);
+      });
+
+      it("does not rebuild the index when the tree has not changed", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        const spy = sinon.spy(space, "cursor");
+        space.indexOf(new DOMLoc(text, 1));
+        space.indexOf(new DOMLoc(text, 2));
+        space.locationAt(3);
+        expect(spy).to.have.been.calledOnce;
+      });
+
+      it("reflects changes to the tree", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.indexOf(new DOMLoc(p, 1))).to.equal(6);
+        text.insertData(0, "xy");
+        expect(space.indexOf(new DOMLoc(p, 1))).to.equal(8);
+        p.insertBefore(local.createElement("b"), text);
+        expect(space.indexOf(new DOMLoc(p, 2))).to.equal(10);
+      });
+    });
+
+    describe("#disconnect()", () => {
+      it("stops observing the tree", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        const spy = sinon.spy(MutationObserver.prototype, "disconnect");
+        try {
+          space.indexOf(new DOMLoc(text, 1));
+          space.disconnect();
+          expect(spy).to.have.been.calledOnce;
+        }
+        finally {
+          spy.restore();
+        }
+      });
+
+      it("leaves the space usable", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.indexOf(new DOMLoc(p, 1))).to.equal(6);
+        space.disconnect();
+        text.insertData(0, "xy");
+        expect(space.indexOf(new DOMLoc(p, 1))).to.equal(8);
+        text.insertData(0, "z");
+        expect(space.indexOf(new DOMLoc(p, 1))).to.equal(9);
+      });
+    });
+
+    describe("#invalidateIndex()", () => {
+      it("rebuilds the index of a tree that is not a DOM tree", () => {
+        const leaf: HastNode = { type: "text", value: "ab" };
+        const root: HastNode = { type: "root", children: [leaf] };
+        const adapter = makeHastAdapter(root);
+        const space = DOMSpace.makeSpanningNode(root, undefined, { adapter });
+        const end = new DOMLoc(root, 1, adapter);
+        expect(space.indexOf(end)).to.equal(4);
+        leaf.value = "abc";
+        expect(space.indexOf(end)).to.equal(4);
+        space.invalidateIndex();
+        expect(space.indexOf(end)).to.equal(5);
+      });
+    });
+
+    describe("#locationAt()", () => {
+      it("is the inverse of #indexOf()", () => {
+        const space = DOMSpace.makeSpanningNode(docs.allRelevant.doc);
+        let index = 0;
+        for (const loc of space) {
+          expect(space.locationAt(index++)).to.deep.equal(loc);
+        }
+      });
+
+      it("throws on an index out of range", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        const count = Array.from(space).length;
+        expect(() => space.locationAt(-1)).to.throw(RangeError);
+        expect(() => space.locationAt(count)).to.throw(RangeError);
+        expect(() => space.locationAt(1.5)).to.throw(RangeError);
+      });
+    });
+
+    describe("#distance()", () => {
+      it("counts the steps between two locations", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.distance(new DOMLoc(p, 0), new DOMLoc(p, 1)))
+          .to.equal(5);
+        expect(space.distance(new DOMLoc(p, 1), new DOMLoc(p, 0)))
+          .to.equal(-5);
+        expect(space.distance(new DOMLoc(text, 2), new DOMLoc(text, 2)))
+          .to.equal(0);
+      });
+
+      it("throws on a location the space does not produce", () => {
+        const other = new DOMParser().parseFromString("<p>éa</p>",
+                                                      "text/xml");
+        const space = DOMSpace.makeSpanningNode(other, undefined,
+                                                { graphemes: true });
+        expect(() => space.distance(
+          new DOMLoc(other, 0),
+          new DOMLoc(other.documentElement.firstChild!, 1)))
+          .to.throw(Error, "location is not one that the space produces");
+      });
+    });
+
+    describe("#advance()", () => {
+      it("moves like repeated calls to #next() and #previous()", () => {
+        const space = DOMSpace.makeSpanningNode(docs.allRelevant.doc);
+        const start = space.locationAt(10);
+        let forward: DOMLoc | null = start;
+        let backward: DOMLoc | null = start;
+        for (let n = 0; n <= 10; ++n) {
+          expect(space.advance(start, n)).to.deep.equal(forward);
+          expect(space.advance(start, -n)).to.deep.equal(backward);
+          forward = space.next(forward!);
+          backward = space.previous(backward!);
+        }
+      });
+
+      it("returns null when moving beyond the space", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(space.advance(new DOMLoc(p, 0), -2)).to.be.null;
+        expect(space.advance(new DOMLoc(p, 0), 100)).to.be.null;
+      });
+
+      it("throws if the number of steps is not an integer", () => {
+        const space = DOMSpace.makeSpanningNode(local);
+        expect(() => space.advance(new DOMLoc(p, 0), 0.5))
+          .to.throw(RangeError);
+      });
+    });
+  });
+
+  describe("#[Symbol.iterator]()", () => {
+    it("iterates", () => {
+      const { doc: local, expectedPositions } = docs.allRelevant;
+      expectIterations(local, false, expectedPositions);
+    });
+
+    it("iterates in reverse", () => {
+      const { doc: local, expectedPositions } = docs.allRelevant;
+      expectIterations(local, true, expectedPositions.slice().reverse());
+    });
+  });
+});
+
+describe("makeHastAdapter", () => {
+  let root: HastNode;
+  let div: HastNode;
+  let p1: HastNode;
+  let ab: HastNode;
+  let del: HastNode;
+  let cd: HastNode;
+  let adapter: TreeAdapter<HastNode>;
+  let relevanceTest: NodeTest<HastNode>;
+
+  before(() => {
+    relevanceTest = rule<HastNode>("is not a del element",
+                                   node => node.tagName !== "del");
+  });
+
+  beforeEach(() => {
+    ab = { type: "text", value: "ab" };
+    p1 = { type: "element", tagName: "p", children: [ab] };
+    del = { type: "element", tagName: "del",
+            children: [{ type: "text", value: "x" }] };
+    cd = { type: "text", value: "cd" };
+    div = {
+      type: "element",
+      tagName: "div",
+      children: [p1, { type: "comment", value: "c" }, del,
+                 { type: "element", tagName: "p", children: [cd] }],
+    };
+    root = { type: "root", children: [{ type: "doctype" }, div] };
+    adapter = makeHastAdapter(root);
+  });
+
+  it("gives the nodes the types of DOM nodes", () => {
+    const nodes = [root, div, ab, div.children![1], root.children![0],
+                   { type: "paragraph", children: [] },
+                   { type: "inlineCode", value: "x" }];
+    expect(nodes.map(node => adapter.nodeTypeOf(node)))
+      .to.deep.equal([9, 1, 3, 8, 10, 1, 3]);
+  });
+
+  it("gives the text of nodes", () => {
+    expect(adapter.textOf(ab)).to.equal("ab");
+    expect(adapter.textOf(div)).to.equal("abxcd");
+  });
+
+  it("moves like the DOM adapter moves through the same tree", () => {
+    const doc = new DOMParser().parseFromString(
+      "<!DOCTYPE div><div><p>ab</p><!--c--><del>x</del><p>cd</p></div>",
+      "text/xml");
+    const domSpace = DOMSpace.makeSpanningNode(
+      doc, rule("is not a del element", node => node.nodeName !== "del"));
+    const space = DOMSpace.makeSpanningNode(root, relevanceTest, { adapter });
+    const paths = Array.from(space).map(loc => space.locationToPath(loc));
+    expect(paths).to.deep.equal(
+      Array.from(domSpace).map(loc => domSpace.locationToPath(loc)));
+    expect(Array.from(space.reversed()).map(loc => space.locationToPath(loc)))
+      .to.deep.equal(paths.slice().reverse());
+    expect(space.textMap().text).to.equal(domSpace.textMap().text);
+  });
+
+  it("iterates through the tree", () => {
+    const space = DOMSpace.makeSpanningNode(p1, undefined, { adapter });
+    expect(Array.from(space)).to.deep.equal([
+      new DOMLoc(p1, 0, adapter),
+      new DOMLoc(ab, 0, adapter),
+      new DOMLoc(ab, 1, adapter),
+      new DOMLoc(ab, 2, adapter),
+      new DOMLoc(p1, 1, adapter),
+    ]);
+  });
+
+  it("escapes irrelevant nodes", () => {
+    const space = DOMSpace.makeSpanningNode(root, relevanceTest, { adapter });
+    expect(space.escapeIrrelevantNode(new DOMLoc(del.children![0], 1,
+                                                 adapter)))
+      .to.deep.equal(new DOMLoc(div, 2, adapter));
+  });
+
+  it("resolves the paths it produces", () => {
+    const space = DOMSpace.makeSpanningNode(root, undefined, { adapter });
+    const loc = new DOMLoc(cd, 1, adapter);
+    const path = space.locationToPath(loc);
+    expect(path).to.equal("/div[1]/p[2]/text()[1]:1");
+    expect(space.locationFromPath(path)).to.deep.equal(loc);
+  });
+
+  it("compares locations", () => {
+    expect(new DOMLoc(ab, 2, adapter).compare(new DOMLoc(div, 1, adapter)))
+      .to.equal(-1);
+    expect(new DOMLoc(cd, 0, adapter).compare(new DOMLoc(div, 3, adapter)))
+      .to.equal(1);
+    expect(new DOMLoc(p1, 1, adapter).compare(new DOMLoc(p1, 1, adapter)))
+      .to.equal(0);
+  });
+
+  it("makes spaces whose bounds have its adapter", () => {
+    expect(() => new DOMSpace(new DOMLoc(root, 0, adapter),
+                              new DOMLoc(root, 2, makeHastAdapter(root))))
+      .to.throw(Error, "the bounds of the space must have its adapter");
+  });
+
+  it("makes spaces that have no composed tree", () => {
+    expect(() => DOMSpace.makeSpanningNode(root, undefined, {
+      adapter,
+      composed: true,
+    })).to.throw(Error, "only DOM trees have a composed tree");
+  });
+});
+
+describe("TextMap", () => {
+  let doc: Document;
+  let div: Element;
+  let p1: Element;
+  let p2: Element;
+  let p1Text: Text;
+  let ig: Element;
+  let b: Element;
+  let bText: Text;
+  let p2Text2: Text;
+  let p2Text3: Text;
+
+  before(() => {
+    doc = new DOMParser().parseFromString(
+      "<div><p>I am a <ig>hidden </ig><b>lit</b>tle teapot.</p>\
+<p>Short and stout.</p></div>", "text/xml");
+    div = doc.documentElement;
+    [p1, p2] = Array.from(div.childNodes) as Element[];
+    p1Text = p1.firstChild as Text;
+    ig = p1.childNodes[1] as Element;
+    b = p1.childNodes[2] as Element;
+    bText = b.firstChild as Text;
+    p2Text2 = p1.childNodes[3] as Text;
+    p2Text3 = p2.firstChild as Text;
+  });
+
+  function makeMap(options?: TextMapOptions): TextMap {
+    return new TextMap(DOMSpace.makeSpanningNode(doc,
+                                                 node => node !== ig),
+                       options);
+  }
+
+  describe("#text", () => {
+    it("excludes the text of irrelevant nodes", () => {
+      expect(makeMap()).to.have.property("text")
+        .equal("I am a little teapot.Short and stout.");
+    });
+
+    it("separates blocks with the block separator", () => {
+      expect(makeMap({ blockSeparator: "\n" })).to.have.property("text")
+        .equal("I am a little teapot.\nShort and stout.");
+    });
+
+    it("is restricted to the space", () => {
+      const map = new TextMap(new DOMSpace(new DOMLoc(p1Text, 2),
+                                           new DOMLoc(bText, 1),
+                                           node => node !== ig));
+      expect(map).to.have.property("text").equal("am a l");
     });
 
-    it("returns false if the location is more than max", () => {
-      const div = doc.getElementsByTagName("div")[0];
-      const space = DOMSpace.makeSpanningNode(div);
-      const loc = new DOMLoc(doc, 1);
-      expect(space.min.compare(loc)).to.equal(-1);
-      expect(space.max.compare(loc)).to.equal(-1);
-      // tslint:disable-next-line:chai-vague-errors
-      expect(space.contains(loc)).to.be.false;
+    it("is empty if the space has no text", () => {
+      const map = new TextMap(
+        DOMSpace.makeSpanningNode(b, node => node !== bText));
+      expect(map).to.have.property("text").equal("");
     });
+  });
 
-    it("returns false if the node is disconnected", () => {
-      // tslint:disable-next-line:chai-vague-errors
-      expect(DOMSpace.makeSpanningNode(doc).contains(new DOMLoc(document, 0)))
-        .to.be.false;
+  describe("#offsetOf()", () => {
+    it("converts locations in text", () => {
+      const map = makeMap({ blockSeparator: "\n" });
+      expect(map.offsetOf(new DOMLoc(p1Text, 0))).to.equal(0);
+      expect(map.offsetOf(new DOMLoc(p1Text, 7))).to.equal(7);
+      expect(map.offsetOf(new DOMLoc(bText, 0))).to.equal(7);
+      expect(map.offsetOf(new DOMLoc(bText, 2))).to.equal(9);
+      expect(map.offsetOf(new DOMLoc(p2Text2, 1))).to.equal(11);
+      expect(map.offsetOf(new DOMLoc(p2Text3, 0))).to.equal(22);
+    });
+
+    it("converts locations outside text", () => {
+      const map = makeMap({ blockSeparator: "\n" });
+      expect(map.offsetOf(new DOMLoc(doc, 0))).to.equal(0);
+      expect(map.offsetOf(new DOMLoc(p1, 1))).to.equal(7);
+      expect(map.offsetOf(new DOMLoc(b, 1))).to.equal(10);
+      expect(map.offsetOf(new DOMLoc(p1, 4))).to.equal(21);
+      expect(map.offsetOf(new DOMLoc(div, 1))).to.equal(22);
+      expect(map.offsetOf(new DOMLoc(p2, 0))).to.equal(22);
+      expect(map.offsetOf(new DOMLoc(doc, 1))).to.equal(38);
+    });
+
+    it("escapes locations in irrelevant nodes", () => {
+      const map = makeMap();
+      expect(map.offsetOf(new DOMLoc(ig.firstChild!, 3))).to.equal(7);
+    });
+
+    it("throws if the location is outside the space", () => {
+      const map = new TextMap(DOMSpace.makeSpanningNode(p2));
+      expect(() => map.offsetOf(new DOMLoc(p1Text, 0)))
+        .to.throw(DOMSpaceScopeError);
     });
   });
 
-  describe("#escapeIrrelevantNode()", () => {
-    let b: Element;
-    let loc: DOMLoc;
+  describe("#locationAt()", () => {
+    it("converts offsets inside text", () => {
+      const map = makeMap({ blockSeparator: "\n" });
+      expect(map.locationAt(2)).to.deep.equal(new DOMLoc(p1Text, 2));
+      expect(map.locationAt(9)).to.deep.equal(new DOMLoc(bText, 2));
+      expect(map.locationAt(9, false)).to.deep.equal(new DOMLoc(bText, 2));
+    });
 
-    before(() => {
-      b = doc.getElementsByTagName("b")[0];
-      loc = new DOMLoc(b, 0);
+    it("converts offsets between nodes according to ``before``", () => {
+      const map = makeMap({ blockSeparator: "\n" });
+      expect(map.locationAt(7)).to.deep.equal(new DOMLoc(bText, 0));
+      expect(map.locationAt(7, false)).to.deep.equal(new DOMLoc(p1Text, 7));
+      expect(map.locationAt(21)).to.deep.equal(new DOMLoc(p2Text3, 0));
+      expect(map.locationAt(21, false))
+        .to.deep.equal(new DOMLoc(p2Text2, 11));
+      expect(map.locationAt(22, false))
+        .to.deep.equal(new DOMLoc(p2Text2, 11));
     });
 
-    describe("when start is not in a contextually irrelevant node", () => {
-      it("and start is normalized, returns the same location", () => {
-        expect(DOMSpace.makeSpanningNode(doc).escapeIrrelevantNode(loc))
-          .to.equal(loc);
-      });
+    it("converts the ends of the text", () => {
+      const map = makeMap();
+      expect(map.locationAt(0, false)).to.deep.equal(new DOMLoc(p1Text, 0));
+      expect(map.locationAt(37)).to.deep.equal(new DOMLoc(p2Text3, 16));
+    });
 
-      it("and start is not normalized, returns a normalized location", () => {
-        const denormalized = new DOMLoc(b, 9999);
-        const normalized = DOMSpace.makeSpanningNode(doc)
-          .escapeIrrelevantNode(denormalized);
-        expect(normalized).to.have.property("node").equal(b);
-        expect(normalized).to.have.property("offset").equal(1);
-      });
+    it("round-trips with #offsetOf()", () => {
+      const map = makeMap({ blockSeparator: "\n\n" });
+      for (let offset = 0; offset <= map.text.length; ++offset) {
+        if (map.text[offset - 1] !== "\n" && map.text[offset] !== "\n") {
+          expect(map.offsetOf(map.locationAt(offset)), `at ${offset}`)
+            .to.equal(offset);
+        }
+      }
+    });
 
-      it("but the node is not in the space, raise an exception", () => {
-        const outside = new DOMLoc(doc.createTextNode("foo"), 0);
-        expect(() => DOMSpace.makeSpanningNode(doc)
-               .escapeIrrelevantNode(outside))
-          .to.throw(DOMSpaceScopeError, "location is not within the space");
-      });
+    it("returns the minimum of a space that has no text", () => {
+      const map = new TextMap(
+        DOMSpace.makeSpanningNode(b, node => node !== bText));
+      expect(map.locationAt(0)).to.deep.equal(new DOMLoc(b, 0));
     });
 
-    describe("when start is in a contextually irrelevant node", () => {
-      it("returns the parent of the topmost irrelevant ancestor", () => {
-        const p = doc.getElementsByTagName("p")[0];
-        const div = doc.querySelector("div>div");
-        // tslint:disable-next-line:chai-vague-errors
-        expect(div).to.not.be.null;
+    it("throws on offsets that are out of range", () => {
+      const map = makeMap();
+      expect(() => map.locationAt(-1)).to.throw(RangeError);
+      expect(() => map.locationAt(38)).to.throw(RangeError);
+    });
+  });
 
-        // We use two kind of relevance tests.
+  describe("DOMSpace#textMap()", () => {
+    it("reuses the map it creates", () => {
+      const space = DOMSpace.makeSpanningNode(doc);
+      expect(space.textMap()).to.equal(space.textMap({}));
+      expect(space.textMap({ blockSeparator: "\n" }))
+        .to.equal(space.textMap({ blockSeparator: "\n" }))
+        .and.not.equal(space.textMap());
+    });
 
-        // The first test makes it so that the p element and all the nodes in it
-        // are individually flagged as irrelevant.
-        let escaped = DOMSpace.makeSpanningNode(doc, node => !p.contains(node))
-          .escapeIrrelevantNode(loc);
-        expect(escaped).to.have.property("node").equal(div);
-        expect(escaped).to.have.property("offset").equal(1);
+    it("makes a new map when the tree changes", () => {
+      const local = new DOMParser().parseFromString("<p>ab</p>", "text/xml");
+      const space = DOMSpace.makeSpanningNode(local.documentElement);
+      const map = space.textMap();
+      expect(map.text).to.equal("ab");
+      (local.documentElement.firstChild as Text).appendData("c");
+      expect(space.textMap()).to.not.equal(map);
+      expect(space.textMap().text).to.equal("abc");
+      space.disconnect();
+    });
 
-        // The second test makes it so that **only** the p elment is flagged as
-        // irrelevant. The nodes in it would pass the relevance test but are
-        // ultimately irrelevant because their parent is.
-        escaped = DOMSpace.makeSpanningNode(doc, node => node !== p)
-          .escapeIrrelevantNode(loc);
-        expect(escaped).to.have.property("node").equal(div);
-        expect(escaped).to.have.property("offset").equal(1);
-      });
+    it("makes a new map when the index is invalidated", () => {
+      const leaf: HastNode = { type: "text", value: "ab" };
+      const root: HastNode = { type: "root", children: [leaf] };
+      const adapter = makeHastAdapter(root);
+      const space = DOMSpace.makeSpanningNode(root, undefined, { adapter });
+      expect(space.textMap().text).to.equal("ab");
+      leaf.value = "abc";
+      expect(space.textMap().text).to.equal("ab");
+      space.invalidateIndex();
+      expect(space.textMap().text).to.equal("abc");
     });
   });
+});
 
-  function expectPositions(span: Document | { min: DOMLoc; max: DOMLoc },
-                           method: "next" | "previous",
-                           expectedPositions: [Node, number][],
-                           relevanceTest?: (node: Node) => boolean): void {
-    const space = span instanceof Document ?
-      DOMSpace.makeSpanningNode(span, relevanceTest) :
-      new DOMSpace(span.min, span.max, relevanceTest);
-    // tslint:disable-next-line:no-non-null-assertion
-    let cur = new DOMLoc(...expectedPositions[0]);
-    for (let ix = 1; ix < expectedPositions.length; ++ix) {
-      const next = new DOMLoc(...expectedPositions[ix]);
-      expect(space[method](cur), `at ${ix}`).to.deep.equal(next);
-      cur = next;
-    }
+describe("LocationTracker", () => {
+  let doc: Document;
+  let root: Element;
+  let p: Element;
+  let text: Text;
+  let b: Element;
+  let tracker: LocationTracker;
 
-    // tslint:disable-next-line:chai-vague-errors
-    expect(space[method](cur)).to.be.null;
-  }
+  beforeEach(() => {
+    doc = new DOMParser().parseFromString(
+      "<div><p>I am a <b>little</b> teapot.</p></div>", "text/xml");
+    root = doc.documentElement;
+    p = root.firstChild as Element;
+    text = p.firstChild as Text;
+    b = p.childNodes[1] as Element;
+    tracker = new LocationTracker(root);
+  });
 
-  describe("#next()", () => {
-    it("moves forward (whole document)", () => {
-      const { doc: local, expectedPositions } = docs.allRelevant;
-      expectPositions(local, "next", expectedPositions);
+  afterEach(() => {
+    tracker.disconnect();
+  });
+
+  describe("#track()", () => {
+    it("tracks a location", () => {
+      const live = tracker.track(new DOMLoc(text, 2));
+      expect(live).to.have.property("tracker").equal(tracker);
+      expect(live).to.have.property("location")
+        .deep.equal(new DOMLoc(text, 2));
+      expect(live).to.have.property("valid").true;
     });
 
-    it("moves forward (arbitrary span)", () => {
-      const { doc: local, expectedPositions } = docs.allRelevant;
-      const divDiv1P = local.querySelector("div>div>p")!;
-      const divDiv2 = local.querySelectorAll("div>div")[1];
-      const min = new DOMLoc(divDiv1P, 0);
-      const max = new DOMLoc(divDiv2.firstChild!, 3);
-      const minIndex = expectedPositions
-        .findIndex(([node, offset]) => node === min.node &&
-                   offset === min.offset);
-      const maxIndex = expectedPositions
-        .findIndex(([node, offset]) => node === max.node &&
-                   offset === max.offset);
-      expect(minIndex).to.be.greaterThan(-1);
-      expect(maxIndex).to.be.greaterThan(minIndex);
-      expectPositions({ min, max }, "next",
-                      expectedPositions.slice(minIndex, maxIndex + 1));
+    it("throws if the location is outside the root", () => {
+      expect(() => tracker.track(new DOMLoc(doc, 0)))
+        .to.throw(Error, "location is not inside the root of the tracker");
     });
 
-    it("moves forward in document fragment", () => {
-      const frag = doc.createDocumentFragment();
-      const space = DOMSpace.makeSpanningNode(frag, () => true);
-      const loc = new DOMLoc(frag, 0);
-      // tslint:disable-next-line:chai-vague-errors
-      expect(space.next(loc)).to.be.null;
+    it("throws if the offset is out of bounds", () => {
+      expect(() => tracker.track(new DOMLoc(text, 8)))
+        .to.throw(Error, "location has an offset that is out of bounds");
+      expect(() => tracker.track(new DOMLoc(p, 4)))
+        .to.throw(Error, "location has an offset that is out of bounds");
     });
 
-    it("moves forward over contextually irrelevant nodes", () => {
-      const { doc: local, expectedPositions } = docs.irrelevant;
-      expectPositions(local, "next", expectedPositions,
-                      node => (node as Element).tagName !== "ig");
+    it("does not apply earlier mutations to the location", () => {
+      text.insertData(0, "Yes, ");
+      const live = tracker.track(new DOMLoc(text, 2));
+      expect(live.location).to.deep.equal(new DOMLoc(text, 2));
     });
+  });
 
-    it("moves forward outside contextually irrelevant nodes", () => {
-      const local = docs.irrelevant.doc;
+  describe("on character data changes", () => {
+    it("shifts offsets after an insertion", () => {
+      const before = tracker.track(new DOMLoc(text, 2));
+      const at = tracker.track(new DOMLoc(text, 5));
+      const after = tracker.track(new DOMLoc(text, 7));
+      text.insertData(5, "not ");
+      expect(before.location).to.deep.equal(new DOMLoc(text, 2));
+      expect(at.location).to.deep.equal(new DOMLoc(text, 5));
+      expect(after.location).to.deep.equal(new DOMLoc(text, 11));
+    });
 
-      const igs = local.getElementsByTagName("ig");
-      const divDiv1P = local.querySelector("div>div>p")!;
+    it("moves offsets inside a deletion to its start", () => {
+      const inside = tracker.track(new DOMLoc(text, 4));
+      const after = tracker.track(new DOMLoc(text, 7));
+      text.deleteData(1, 4);
+      expect(inside.location).to.deep.equal(new DOMLoc(text, 1));
+      expect(after.location).to.deep.equal(new DOMLoc(text, 3));
+    });
 
-      const space =
-        DOMSpace.makeSpanningNode(local,
-                                  node => (node as Element).tagName !== "ig");
-      const afterIg1 = new DOMLoc(divDiv1P, 2);
-      for (const pair of [
-        [igs[0], 0],
-        [igs[0], 1],
-        [igs[0].firstChild!, 0],
-        [igs[0].firstChild!, (igs[0].firstChild! as Text).data.length],
-      ]  as [Node, number][]) {
-        expect(space.next(new DOMLoc(...pair))).to.deep.equal(afterIg1);
-      }
+    it("handles successive changes", () => {
+      const live = tracker.track(new DOMLoc(text, 7));
+      text.insertData(0, "Yes, ");
+      text.deleteData(5, 2);
+      text.data = `${text.data}!`;
+      expect(live.location).to.deep.equal(new DOMLoc(text, 10));
+    });
+  });
 
-      const afterIg2 = new DOMLoc(divDiv1P, 5);
-      for (const pair of [
-        [igs[1], 0],
-        [igs[1], 1],
-        [igs[1].firstChild!, 0],
-        [igs[1].firstChild!, (igs[1].firstChild! as Text).data.length],
-      ]  as [Node, number][]) {
-        expect(space.next(new DOMLoc(...pair))).to.deep.equal(afterIg2);
-      }
+  describe("on child list changes", () => {
+    it("shifts offsets after an insertion", () => {
+      const before = tracker.track(new DOMLoc(p, 1));
+      const after = tracker.track(new DOMLoc(p, 2));
+      p.insertBefore(doc.createElement("i"), b);
+      p.insertBefore(doc.createElement("i"), p.firstChild);
+      expect(before.location).to.deep.equal(new DOMLoc(p, 2));
+      expect(after.location).to.deep.equal(new DOMLoc(p, 4));
     });
 
-    it("when passed a node outside the space, raises an exception", () => {
-      // tslint:disable-next-line:chai-vague-errors
-      expect(() => DOMSpace.makeSpanningNode(doc)
-             .next(new DOMLoc(doc.createTextNode("foo"), 0)))
-        .to.throw(DOMSpaceScopeError, "location is not within the space");
+    it("shifts offsets after a removal", () => {
+      const before = tracker.track(new DOMLoc(p, 1));
+      const after = tracker.track(new DOMLoc(p, 3));
+      p.removeChild(b);
+      expect(before.location).to.deep.equal(new DOMLoc(p, 1));
+      expect(after.location).to.deep.equal(new DOMLoc(p, 2));
     });
-  });
 
-  describe("#previous()", () => {
-    it("moves backwards (whole document)", () => {
-      const { doc: local, expectedPositions } = docs.allRelevant;
-      expectPositions(local, "previous", expectedPositions.slice().reverse());
+    it("moves locations inside a removed node to its parent", () => {
+      const inText = tracker.track(new DOMLoc(b.firstChild!, 3));
+      const inB = tracker.track(new DOMLoc(b, 1));
+      p.removeChild(b);
+      expect(inText.location).to.deep.equal(new DOMLoc(p, 1));
+      expect(inB.location).to.deep.equal(new DOMLoc(p, 1));
     });
 
-    it("moves backwards (arbitrary span)", () => {
-      const { doc: local, expectedPositions } = docs.allRelevant;
-      const divDiv1P = local.querySelector("div>div>p")!;
-      const divDiv2 = local.querySelectorAll("div>div")[1];
-      const min = new DOMLoc(divDiv1P, 0);
-      const max = new DOMLoc(divDiv2.firstChild!, 3);
-      const minIndex = expectedPositions
-        .findIndex(([node, offset]) => node === min.node &&
-                   offset === min.offset);
-      const maxIndex = expectedPositions
-        .findIndex(([node, offset]) => node === max.node &&
-                   offset === max.offset);
-      expect(minIndex).to.be.greaterThan(-1);
-      expect(maxIndex).to.be.greaterThan(minIndex);
-      expectPositions({ min, max }, "previous",
-                      expectedPositions.slice(minIndex, maxIndex + 1)
-                      .reverse());
+    it("handles the removal of all the children", () => {
+      const live = tracker.track(new DOMLoc(b.firstChild!, 3));
+      p.textContent = "Replaced";
+      expect(live.location).to.deep.equal(new DOMLoc(p, 0));
     });
+  });
 
-    it("moves backwards in document fragment", () => {
-      const frag = doc.createDocumentFragment();
-      const space = DOMSpace.makeSpanningNode(frag, () => true);
-      const loc = new DOMLoc(frag, 0);
-      // tslint:disable-next-line:chai-vague-errors
-      expect(space.previous(loc)).to.be.null;
+  describe("invalid locations", () => {
+    it("are reported by #sync()", () => {
+      const inText = tracker.track(new DOMLoc(b.firstChild!, 3));
+      const inP = tracker.track(new DOMLoc(p, 1));
+      p.removeChild(b);
+      expect(tracker.sync()).to.deep.equal([inText]);
+      expect(inText.valid).to.be.false;
+      expect(inP.valid).to.be.true;
+      // They are still tracked.
+      p.insertBefore(doc.createElement("i"), p.firstChild);
+      expect(inText.location).to.deep.equal(new DOMLoc(p, 2));
     });
 
-    it("moves backwards over contextually irrelevant nodes", () => {
-      const { doc: local, expectedPositions } = docs.irrelevant;
-      expectPositions(local, "previous", expectedPositions.slice().reverse(),
-                      node => (node as Element).tagName !== "ig");
+    it("are reported once", () => {
+      const live = tracker.track(new DOMLoc(b.firstChild!, 3));
+      p.removeChild(b);
+      root.removeChild(p);
+      expect(tracker.sync()).to.deep.equal([live]);
+      expect(live.location).to.deep.equal(new DOMLoc(root, 0));
+      expect(tracker.sync()).to.deep.equal([]);
     });
 
-    it("when passed a node outside the space, raises an exception", () => {
-      // tslint:disable-next-line:chai-vague-errors
-      expect(() => DOMSpace.makeSpanningNode(doc)
-             .previous(new DOMLoc(doc.createTextNode("foo"), 0)))
-        .to.throw(DOMSpaceScopeError, "location is not within the space");
+    it("are reported to ``onInvalid``", async () => {
+      const onInvalid = sinon.spy();
+      const other = new LocationTracker(root, { onInvalid });
+      try {
+        const live = other.track(new DOMLoc(b.firstChild!, 3));
+        p.removeChild(b);
+        // Let the observer be notified.
+        await Promise.resolve();
+        expect(onInvalid).to.have.been.calledOnceWith([live]);
+      }
+      finally {
+        other.disconnect();
+      }
     });
   });
+});
 
-  function expectIterations(span: Document | { min: DOMLoc; max: DOMLoc },
-                            reverse: boolean,
-                            expectedPositions: [Node, number][],
-                            relevanceTest?: (node: Node) => boolean): void {
-    const space = span instanceof Document ?
-      DOMSpace.makeSpanningNode(span, relevanceTest) :
-      new DOMSpace(span.min, span.max, relevanceTest);
+describe("DOMCursor", () => {
+  let doc: Document;
 
-    let ix = 0;
-    if (reverse) {
-      for (const loc of space.reversed()) {
-        expect(loc, `at ${ix}`)
-          .to.deep.equal(new DOMLoc(...expectedPositions[ix]));
-        ix++;
-      }
+  before(() => {
+    doc = new DOMParser().parseFromString(
+      `<div><div>A <p>paragraph <ig>foo</ig>with <b>text</b><ig>bar</ig> \
+and stuff<ig>baz</ig></p></div><!-- baz --><div>Another div.</div></div>`,
+      "text/xml");
+  });
+
+  function relevanceTest(node: Node): boolean {
+    return node.nodeName !== "ig";
+  }
+
+  function walk(space: DOMSpace, start: DOMLoc, forward: boolean): DOMLoc[] {
+    const ret: DOMLoc[] = [];
+    let current: DOMLoc | null = start;
+    while (current !== null) {
+      ret.push(current);
+      current = forward ? space.next(current) : space.previous(current);
     }
-    else {
-      for (const loc of space) {
-        expect(loc, `at ${ix}`)
-          .to.deep.equal(new DOMLoc(...expectedPositions[ix]));
-        ix++;
-      }
+
+    return ret;
+  }
+
+  function cursorWalk(space: DOMSpace, start: DOMLoc,
+                      forward: boolean): DOMLoc[] {
+    const cursor = space.cursor(start);
+    const ret: DOMLoc[] = [];
+    let current: DOMLoc | null = cursor.location;
+    while (current !== null) {
+      ret.push(current);
+      current = forward ? cursor.moveNext() : cursor.movePrevious();
     }
 
-    expect(ix).to.equal(expectedPositions.length);
+    return ret;
   }
 
-  describe("#[Symbol.iterator]()", () => {
-    it("iterates", () => {
-      const { doc: local, expectedPositions } = docs.allRelevant;
-      expectIterations(local, false, expectedPositions);
+  function expectSameWalks(space: DOMSpace, start: DOMLoc): void {
+    expect(cursorWalk(space, start, true))
+      .to.deep.equal(walk(space, start, true));
+    expect(cursorWalk(space, start, false))
+      .to.deep.equal(walk(space, start, false));
+  }
+
+  it("starts at the escaped location", () => {
+    const space = DOMSpace.makeSpanningNode(doc, relevanceTest);
+    const ig = doc.getElementsByTagName("ig")[0];
+    expect(space.cursor(new DOMLoc(ig.firstChild!, 1)).location)
+      .to.deep.equal(space.escapeIrrelevantNode(new DOMLoc(ig.firstChild!,
+                                                           1)));
+  });
+
+  it("does not change where the iterators of the space start", () => {
+    const [first, second] = Array.from(doc.getElementsByTagName("ig"),
+                                       ig => ig.firstChild!);
+    const space = new DOMSpace(new DOMLoc(first, 1), new DOMLoc(second, 2),
+                               relevanceTest);
+    expect(Array.from(space)).to.deep.equal(walk(space, space.min, true));
+    expect(Array.from(space)[0]).to.deep.equal(new DOMLoc(first, 1));
+    expect(Array.from(space.reversed()))
+      .to.deep.equal(walk(space, space.max, false));
+    expect(Array.from(space.reversed())[0])
+      .to.deep.equal(new DOMLoc(second, 2));
+  });
+
+  it("starts at the minimum by default", () => {
+    const space = DOMSpace.makeSpanningNode(doc);
+    expect(space.cursor().location).to.deep.equal(space.min);
+  });
+
+  it("throws if the starting location is outside the space", () => {
+    const space = DOMSpace.makeSpanningNode(doc.getElementsByTagName("p")[0]);
+    expect(() => space.cursor(new DOMLoc(doc, 0)))
+      .to.throw(DOMSpaceScopeError);
+  });
+
+  it("does not move past the ends of the space", () => {
+    const space = DOMSpace.makeSpanningNode(doc);
+    const cursor = space.cursor(space.max);
+    expect(cursor.moveNext()).to.be.null;
+    expect(cursor.location).to.deep.equal(space.max);
+    cursor.movePrevious();
+    expect(cursor.location).to.not.deep.equal(space.max);
+    const start = space.cursor(space.min);
+    expect(start.movePrevious()).to.be.null;
+    expect(start.location).to.deep.equal(space.min);
+  });
+
+  it("produces the same locations as next() and previous()", () => {
+    const space = DOMSpace.makeSpanningNode(doc, relevanceTest);
+    for (const loc of walk(space, space.min, true)) {
+      expectSameWalks(space, loc);
+    }
+  });
+
+  it("produces the same locations in spaces with any bounds", () => {
+    const full = DOMSpace.makeSpanningNode(doc, relevanceTest);
+    const locs = walk(full, full.min, true);
+    for (let minIx = 0; minIx < locs.length; minIx += 3) {
+      for (let maxIx = minIx; maxIx < locs.length; maxIx += 4) {
+        const space = new DOMSpace(locs[minIx], locs[maxIx], relevanceTest);
+        expectSameWalks(space, space.min);
+        expectSameWalks(space, space.max);
+      }
+    }
+  });
+
+  it("follows grapheme clusters that span text nodes", () => {
+    const local = new DOMParser().parseFromString("<p/>", "text/xml");
+    const p = local.documentElement;
+    p.append("ae", "\u0301b", "c");
+    const space = DOMSpace.makeSpanningNode(local, undefined, {
+      graphemes: simpleGraphemeSegmenter,
     });
+    expectSameWalks(space, space.min);
+    expectSameWalks(space, space.max);
+    const inner = new DOMSpace(new DOMLoc(p.firstChild!, 1),
+                               new DOMLoc(p.childNodes[1], 1),
+                               undefined, {
+                                 graphemes: simpleGraphemeSegmenter,
+                               });
+    expectSameWalks(inner, inner.min);
+    expectSameWalks(inner, inner.max);
+  });
 
-    it("iterates in reverse", () => {
-      const { doc: local, expectedPositions } = docs.allRelevant;
-      expectIterations(local, true, expectedPositions.slice().reverse());
+  it("skips collapsed whitespace", () => {
+    const local = new DOMParser().parseFromString(
+      "<div>\n <p>a   b</p>\n<p>  foo  bar  </p></div>", "text/xml");
+    const space = DOMSpace.makeSpanningNode(local, undefined, {
+      collapseWhitespace: true,
     });
+    expectSameWalks(space, space.min);
+    expectSameWalks(space, space.max);
   });
 });
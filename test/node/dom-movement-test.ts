@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import { JSDOM } from "jsdom";
+import "mocha";
+
+import { DOMLoc, DOMRange, DOMSpace, HastNode, LocationTracker,
+         makeHastAdapter, MutationObserverUnavailable } from "../../src/dom-movement";
+
+// These tests run in Node, where the DOM classes, like Node, are not globals.
+// They use the classes of a jsdom window, which the library must get from the
+// nodes it is given.
+
+describe("dom-movement outside a browser", () => {
+  let doc: Document;
+  let p: Element;
+  let text: Text;
+
+  beforeEach(() => {
+    doc = new JSDOM("<doc><p>ab</p><!--c--></doc>",
+                    { contentType: "text/xml" }).window.document;
+    p = doc.getElementsByTagName("p")[0];
+    text = p.firstChild as Text;
+  });
+
+  it("runs without a global Node", () => {
+    expect(global).to.not.have.property("Node");
+  });
+
+  it("normalizes and compares locations", () => {
+    expect(new DOMLoc(text, 9).normalizeOffset())
+      .to.deep.equal(new DOMLoc(text, 2));
+    expect(new DOMLoc(p, 0).compare(new DOMLoc(text, 1))).to.equal(-1);
+    expect(new DOMLoc(doc, 1).compare(new DOMLoc(text, 1))).to.equal(1);
+  });
+
+  it("moves through a document", () => {
+    const space = DOMSpace.makeSpanningNode(doc);
+    const root = doc.documentElement;
+    expect(Array.from(space)).to.deep.equal([
+      new DOMLoc(doc, 0),
+      new DOMLoc(root, 0),
+      new DOMLoc(p, 0),
+      new DOMLoc(text, 0),
+      new DOMLoc(text, 1),
+      new DOMLoc(text, 2),
+      new DOMLoc(p, 1),
+      new DOMLoc(root, 1),
+      new DOMLoc(root, 2),
+      new DOMLoc(doc, 1),
+    ]);
+    expect(space.textMap().text).to.equal("ab");
+    expect(space.locationToPath(new DOMLoc(text, 1)))
+      .to.equal("/doc[1]/p[1]/text()[1]:1");
+  });
+
+  it("moves through a hast tree", () => {
+    const leaf: HastNode = { type: "text", value: "ab" };
+    const root: HastNode = {
+      type: "root",
+      children: [{ type: "element", tagName: "p", children: [leaf] }],
+    };
+    const adapter = makeHastAdapter(root);
+    const space = DOMSpace.makeSpanningNode(root, undefined, { adapter });
+    expect(space.next(new DOMLoc(leaf, 0, adapter)))
+      .to.deep.equal(new DOMLoc(leaf, 1, adapter));
+    expect(space.textMap().text).to.equal("ab");
+    expect(space.locationToPath(new DOMLoc(leaf, 1, adapter)))
+      .to.equal("/p[1]/text()[1]:1");
+  });
+
+  it("converts ranges to static ranges", () => {
+    const range = new DOMRange(new DOMLoc(text, 1), new DOMLoc(p, 1))
+      .toStaticRange();
+    expect(range).to.be.instanceOf(doc.defaultView!.StaticRange);
+    expect(range).to.have.property("startContainer").equal(text);
+    expect(range).to.have.property("startOffset").equal(1);
+    expect(range).to.have.property("endContainer").equal(p);
+    expect(range).to.have.property("endOffset").equal(1);
+  });
+
+  it("tracks locations", () => {
+    const tracker = new LocationTracker(doc);
+    const live = tracker.track(new DOMLoc(text, 1));
+    text.insertData(0, "z");
+    expect(live.location).to.deep.equal(new DOMLoc(text, 2));
+  });
+
+  it("observes the relevance cache", () => {
+    const space = DOMSpace.makeSpanningNode(
+      doc, node => !(node as Element).hasAttribute?.("hidden"),
+      { relevanceCache: "observe" });
+    // tslint:disable-next-line:chai-vague-errors
+    expect(space.isRelevant(p)).to.be.true;
+    p.setAttribute("hidden", "");
+    // tslint:disable-next-line:chai-vague-errors
+    expect(space.isRelevant(p)).to.be.false;
+  });
+
+  describe("in documents without a window", () => {
+    let windowless: Document;
+
+    beforeEach(() => {
+      const { window } = new JSDOM("");
+      windowless = new window.DOMParser().parseFromString("<p>ab</p>",
+                                                          "text/xml");
+    });
+
+    it("rebuilds the ordinal index when needed", () => {
+      const space = DOMSpace.makeSpanningNode(windowless);
+      const first = windowless.documentElement.firstChild as Text;
+      expect(space.indexOf(new DOMLoc(first, 2))).to.equal(4);
+      first.insertData(0, "z");
+      expect(space.indexOf(new DOMLoc(first, 2))).to.equal(4);
+      expect(space.indexOf(new DOMLoc(first, 3))).to.equal(5);
+    });
+
+    it("cannot make static ranges", () => {
+      expect(() => DOMRange.makeSpanningNode(windowless).toStaticRange())
+        .to.throw(Error, "converting to a static range requires StaticRange");
+    });
+
+    it("cannot observe mutations", () => {
+      expect(() => new LocationTracker(windowless))
+        .to.throw(MutationObserverUnavailable,
+                  "tracking locations requires MutationObserver")
+        .with.property("code").equal("NO_MUTATION_OBSERVER");
+      expect(() => DOMSpace.makeSpanningNode(windowless, undefined, {
+        relevanceCache: "observe",
+      })).to.throw(MutationObserverUnavailable,
+                   "observing the relevance cache requires MutationObserver");
+    });
+  });
+});